@@ -15,19 +15,32 @@
  * limitations under the License.
  */
 
+import { BoundingBox, Point2D } from './geometry.js';
 import { WasmModule } from './wasm-module.js';
 
+export interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+  boundingBox?: BoundingBox;
+  cornerPoints?: Point2D[];
+}
+
 export interface BarcodeDetector {
   isReady?: Promise<void>;
   detect(data: ImageData | ImageBitmap | HTMLCanvasElement):
-      Promise<Array<{ rawValue: string, format: string }>>;
+      Promise<DetectedBarcode[]>;
+  close?(): void;  // Only on the polyfill, which terminates its worker.
+}
+
+export interface BarcodeDetectorOptions {
+  formats?: string[];
 }
 
 declare global {
   const BarcodeDetector: {
     prototype: BarcodeDetector;
     isReady?: Promise<void>;
-    new(): BarcodeDetector;
+    new(options?: BarcodeDetectorOptions): BarcodeDetector;
   };
 }
 
@@ -16,11 +16,15 @@
  */
 
 import { MediaObject } from '../src/artifacts/schema/core-schema-org.js';
+import { PhysicalSize, Pose, TargetGeometry } from './geometry.js';
 
-export interface DetectedImage {
+export interface DetectedImage extends TargetGeometry {
   id: string;
+  confidence?: number;  // How likely the detection is to be genuine, or the image still followed (0-1).
+  pose?: Pose;  // Relative to the camera, for images whose physical size is known.
 }
 
 export interface DetectableImage extends DetectedImage {
   media: MediaObject[];
+  size?: PhysicalSize;
 }
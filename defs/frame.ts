@@ -0,0 +1,59 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * A frame of video from WebCodecs, e.g. as read from a
+ * `MediaStreamTrackProcessor`. Only the members used by the toolkit are
+ * described.
+ */
+export interface VideoFrame {
+  readonly displayWidth: number;
+  readonly displayHeight: number;
+  close(): void;
+}
+
+/**
+ * A frame which can be transferred to a worker, rather than copied.
+ */
+export type TransferableFrame = ImageBitmap | VideoFrame;
+
+/**
+ * A frame which can be sent to the detection worker.
+ */
+export type DetectionFrame = ImageData | TransferableFrame;
+
+declare global {
+  interface OffscreenCanvasRenderingContext2D {
+    drawImage(image: TransferableFrame | OffscreenCanvas, dx: number, dy: number, dw: number, dh: number): void;
+    getImageData(sx: number, sy: number, sw: number, sh: number): ImageData;
+    putImageData(imageData: ImageData, dx: number, dy: number): void;
+  }
+
+  interface OffscreenCanvas {
+    width: number;
+    height: number;
+    getContext(contextId: '2d'): OffscreenCanvasRenderingContext2D | null;
+  }
+
+  const OffscreenCanvas: {
+    prototype: OffscreenCanvas;
+    new(width: number, height: number): OffscreenCanvas;
+  };
+
+  function createImageBitmap(image: ImageBitmapSource, sx: number, sy: number, sw: number, sh: number,
+                             options?: ImageBitmapOptions): Promise<ImageBitmap>;
+}
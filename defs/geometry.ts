@@ -0,0 +1,74 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where a target was detected. Frame geometry is in pixels of the captured
+ * frame, while screen geometry is in CSS pixels relative to the viewport.
+ * Corner points run clockwise, from the top-left.
+ */
+export interface TargetGeometry {
+  boundingBox?: BoundingBox;
+  cornerPoints?: Point2D[];
+  screenBoundingBox?: BoundingBox;
+  screenCornerPoints?: Point2D[];
+}
+
+export interface Point3D {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * The physical size of a planar target, in meters.
+ */
+export interface PhysicalSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * A pinhole camera model, in pixels of the captured frame.
+ */
+export interface CameraIntrinsics {
+  focalLength: number;
+  principalPoint: Point2D;
+}
+
+/**
+ * The position and orientation of a planar target relative to the camera, in
+ * meters. The camera looks along +z, with +x to the right and +y down the
+ * frame. The target's origin is at its center, with +x along its top edge, +y
+ * down its side, and +z pointing into it.
+ */
+export interface Pose {
+  rotation: number[];  // 3x3, row-major.
+  translation: Point3D;
+  distance: number;  // From the camera to the center of the target.
+}
@@ -16,5 +16,6 @@
  */
 
 export * from './barcode.js';
+export * from './frame.js';
 export * from './lib.js';
 export * from './wasm-module.js';
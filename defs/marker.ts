@@ -15,7 +15,10 @@
  * limitations under the License.
  */
 
-export interface Marker {
+import { TargetGeometry } from './geometry.js';
+
+export interface Marker extends TargetGeometry {
   type: string;
   value: string;
+  confidence?: number;  // How likely the detection is to be genuine (0-1).
 }
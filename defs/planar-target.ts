@@ -15,6 +15,7 @@
  * limitations under the License.
  */
 
+import { Point2D } from './geometry.js';
 import { WasmModule } from './wasm-module.js';
 
 export interface PlanarQuad {
@@ -29,6 +30,15 @@ export interface PlanarQuad {
   y4: number;
 }
 
+/**
+ * A detection, as posted back from the planar image worker.
+ */
+export interface PlanarDetection {
+  id: number;
+  cornerPoints: Point2D[];  // In the order of the PlanarQuad (x1, y1) to (x4, y4).
+  confidence?: number;  // How plausible the quad is (0-1).
+}
+
 export interface PlanarTargetProcessResult {
   size(): number;
   get(idx: number): PlanarQuad;
@@ -18,6 +18,8 @@
 import * as Defs from './defs/index.js';
 import * as Detectors from './src/detectors/index.js';
 import * as Elements from './src/elements/index.js';
+import * as Recording from './src/recording/index.js';
+import * as Session from './src/session/index.js';
 import * as Support from './src/support/index.js';
 import * as Utils from './src/utils/index.js';
 
@@ -25,6 +27,8 @@ export {
   Defs,
   Detectors,
   Elements,
+  Recording,
+  Session,
   Support,
   Utils,
 };
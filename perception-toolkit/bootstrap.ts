@@ -15,12 +15,21 @@
  * limitations under the License.
  */
 
-import { ActionButton, Card } from '../src/elements/index.js';
+import { configFromElement, observeConfigElement } from '../src/config/config-element.js';
+import { getConfig, reportConfigProblems, updateConfig } from '../src/config/config-manager.js';
+import { hasConfigErrors, unknownOptions, validateConfig } from '../src/config/config-schema.js';
+import { registerDetector } from '../src/detectors/detector-registry.js';
+import { ActionButton, Card, registerCardRenderer } from '../src/elements/index.js';
 import {
+  artifactDiagnostics,
+  artifactsChanged,
   cameraAccessDenied,
+  cameraChange,
   captureClosed,
   captureStarted,
   captureStopped,
+  configChanged,
+  configError,
   markerDetect,
   perceivedResults
 } from '../src/events.js';
@@ -28,7 +37,7 @@ import { DeviceSupport } from '../src/support/device-support.js';
 import { GetUserMediaSupport } from '../src/support/get-user-media.js';
 import { WasmSupport } from '../src/support/wasm.js';
 import { fire } from '../src/utils/fire.js';
-import { enableLogLevelFromString } from '../src/utils/logger.js';
+import { DEBUG_LEVEL, enableLogLevelFromString, log } from '../src/utils/logger.js';
 import { PerceptionToolkit } from './defs.js';
 
 declare global {
@@ -42,12 +51,24 @@ const deviceNotSupported = 'pt.devicenotsupported';
 window.PerceptionToolkit = window.PerceptionToolkit || {} as PerceptionToolkit;
 window.PerceptionToolkit.config = window.PerceptionToolkit.config || {};
 
+// Add any options declared on the toolkit's element, and follow changes to them.
+const toolkitElement = document.querySelector('perception-toolkit');
+if (toolkitElement) {
+  Object.assign(window.PerceptionToolkit.config, configFromElement(toolkitElement));
+  observeConfigElement(toolkitElement);
+}
+
 // Expose events.
 window.PerceptionToolkit.Events = {
+  ArtifactDiagnostics: artifactDiagnostics,
+  ArtifactsChanged: artifactsChanged,
   CameraAccessDenied: cameraAccessDenied,
+  CameraChange: cameraChange,
   CaptureClosed: captureClosed,
   CaptureStarted: captureStarted,
   CaptureStopped: captureStopped,
+  ConfigChanged: configChanged,
+  ConfigError: configError,
   DeviceNotSupported: deviceNotSupported,
   MarkerDetect: markerDetect,
   PerceivedResults: perceivedResults,
@@ -61,10 +82,25 @@ window.PerceptionToolkit.Elements = {
 
 // Expose functions.
 window.PerceptionToolkit.Functions = {
+  getConfig,
   initializeExperience,
   closeExperience() {
     // Replaced when main.ts has loaded.
-  }
+  },
+  reloadArtifactsFromUrl(url: string) {
+    // Replaced when main.ts has loaded.
+  },
+  getCaptureSchedule() {
+    // Replaced when main.ts has loaded.
+    return undefined;
+  },
+  async getSessionRecording() {
+    // Replaced when main.ts has loaded.
+    return undefined;
+  },
+  registerCardRenderer,
+  registerDetector,
+  updateConfig
 };
 
 if (window.PerceptionToolkit.config.onload) {
@@ -72,6 +108,9 @@ if (window.PerceptionToolkit.config.onload) {
 }
 
 enableLogLevelFromString(window.PerceptionToolkit.config.debugLevel || 'error');
+window.addEventListener(configChanged, () => {
+  enableLogLevelFromString(getConfig().debugLevel || 'error');
+});
 
 /**
  * Perform a device support test, then load the loader & onboarding.
@@ -123,6 +162,16 @@ async function handleUnsupported() {
  * Initialize the experience.
  */
 async function initializeExperience() {
+  const { config } = window.PerceptionToolkit;
+
+  // Check the config, so that mistakes are not silently ignored. This waits
+  // until now so that pages can listen for `ConfigError` events first.
+  const problems = validateConfig(config);
+  reportConfigProblems(problems);
+  for (const option of unknownOptions(config)) {
+    log(`Unknown option: ${option}`, DEBUG_LEVEL.WARNING, 'Config');
+  }
+
   const supported = await load;
 
   if (!supported) {
@@ -131,7 +180,13 @@ async function initializeExperience() {
   }
 
   const { showLoader, hideLoader } = await import('./loader.js');
-  const { config } = window.PerceptionToolkit;
+
+  // In strict mode, only start if there are no errors in the config.
+  if (config.strictConfig && hasConfigErrors(problems)) {
+    log('Not starting, as there are errors in the config', DEBUG_LEVEL.ERROR, 'Config');
+    hideLoader();
+    return;
+  }
 
   if (config && config.onboardingImages && config.onboarding) {
     hideLoader();
@@ -142,10 +197,20 @@ async function initializeExperience() {
 
   showLoader();
 
-  const { initialize, close } = await import('./main.js');
+  const {
+    initialize,
+    close,
+    reloadArtifactsFromUrl,
+    getCaptureSchedule,
+    getSessionRecording
+  } = await import('./main.js');
 
-  // Now the experience is inited, update the closeExperience fn.
+  // Now the experience is inited, update the closeExperience,
+  // reloadArtifactsFromUrl, getCaptureSchedule and getSessionRecording fns.
   window.PerceptionToolkit.Functions.closeExperience = close;
+  window.PerceptionToolkit.Functions.reloadArtifactsFromUrl = reloadArtifactsFromUrl;
+  window.PerceptionToolkit.Functions.getCaptureSchedule = getCaptureSchedule;
+  window.PerceptionToolkit.Functions.getSessionRecording = getSessionRecording;
 
   initialize();
 }
@@ -15,7 +15,10 @@
  * limitations under the License.
  */
 
-import { ActionButton, Card } from '../src/elements/index.js';
+import { CameraIntrinsics } from '../defs/geometry.js';
+import { DetectorFactory } from '../src/detectors/detector.js';
+import { ActionButton, CaptureSchedule, Card, CardRenderer } from '../src/elements/index.js';
+import { SessionRecorderOptions, SessionRecording } from '../src/recording/session-recorder.js';
 import { DEBUG_LEVEL } from '../src/utils/logger.js';
 import { ArtifactStore } from '../src/artifacts/stores/artifact-store.js';
 
@@ -35,6 +38,21 @@ import { ArtifactStore } from '../src/artifacts/stores/artifact-store.js';
  * </script>
  * ```
  *
+ * Some options can also be declared on a `<perception-toolkit>` element in
+ * the page, which needs no script, and changes to them take effect while the
+ * experience is running:
+ *
+ * ```
+ * <perception-toolkit detection-mode="active" max-cards="2" card-container="#cards">
+ *   <artifact-source src="/artifacts.json"></artifact-source>
+ *   <onboarding-image src="/onboarding.png"></onboarding-image>
+ * </perception-toolkit>
+ * ```
+ *
+ * The attributes set `detectionMode`, `maxCards` and `cardContainer` (as a
+ * selector), and the children set `artifactSources` and `onboardingImages`.
+ * Listing onboarding images also turns `onboarding` on.
+ *
  * The options available are listed below.
  */
 export interface PerceptionToolkitConfig {
@@ -44,6 +62,41 @@ export interface PerceptionToolkitConfig {
    */
   acknowledgeUnknownItems?: boolean;
 
+  /**
+   * Whether to adapt how often, and at what scale, frames are captured in
+   * `passive` and `burst` modes (default: `false`), so that detection stays
+   * within `captureBudget`. The current values can be read with
+   * `getCaptureSchedule`.
+   */
+  adaptiveCapture?: boolean;
+
+  /**
+   * Whether to position each card beside the marker or image which triggered
+   * it, following the target while it remains in view (default: `false`).
+   * Anchored cards use fixed positioning, and have the `anchored` class.
+   */
+  anchorCards?: boolean;
+
+  /**
+   * Whether to overlay the `arContent` of found artifacts onto the camera
+   * feed, perspective-mapped onto the detected marker or image so that it
+   * appears in place (default: `false`). The overlay is the first of:
+   * * An HTML template: content with an `encodingFormat` of `text/html` whose
+   *   `contentUrl` refers to a `<template>` in the page, e.g. `#poster`.
+   * * An image: an `ImageObject` with a `contentUrl`.
+   * * A label: the `name` of the content.
+   */
+  arOverlays?: boolean;
+
+  /**
+   * The barcode formats to detect, using the names of the `BarcodeDetector`
+   * API, e.g. `['qr_code', 'ean_13']`. Defaults to all supported formats.
+   * Restricting detection to the formats in use avoids spurious matches from
+   * other symbologies and, with a native `BarcodeDetector`, wasted work. The
+   * polyfill still decodes every format it supports.
+   */
+  barcodeFormats?: string[];
+
   /**
    * The button to hook onto for launching the experience.
    */
@@ -64,6 +117,56 @@ export interface PerceptionToolkitConfig {
    */
   buttonVisibilityClass?: string;
 
+  /**
+   * Whether to persist loaded artifacts and image targets in IndexedDB
+   * (default: `false`). Cached content is revalidated whenever the network is
+   * available, and is used as-is while the device is offline.
+   */
+  cacheArtifacts?: boolean;
+
+  /**
+   * Whether to show controls for switching camera, the torch and zoom in the
+   * capture view (default: `true`). Each is only shown where the device
+   * supports it.
+   */
+  cameraControls?: boolean;
+
+  /**
+   * The horizontal field of view of the camera, in degrees (default: `60`).
+   * This is used to estimate the pose of images whose physical size is known,
+   * unless `cameraIntrinsics` are provided.
+   */
+  cameraFieldOfView?: number;
+
+  /**
+   * The calibrated `focalLength` and `principalPoint` of the camera, in pixels
+   * of the camera's video. These are scaled to each frame's capture scale, and
+   * used to estimate the pose of images whose physical size is known. They
+   * override `cameraFieldOfView`.
+   */
+  cameraIntrinsics?: CameraIntrinsics;
+
+  /**
+   * The resolution to request from the camera, e.g. `{ width: 1280, height:
+   * 720 }`. The camera uses the closest resolution it supports. Defaults to
+   * the camera's own default.
+   */
+  cameraResolution?: { width?: number, height?: number };
+
+  /**
+   * Whether to capture frames as `ImageBitmap`s (default: `false`), which are
+   * created without reading the frame's pixels on the main thread, and are
+   * transferred to detectors which run in a worker (see `combineDetectors`).
+   */
+  captureBitmaps?: boolean;
+
+  /**
+   * The fraction of time which detection may use when `adaptiveCapture` is
+   * set (default: `0.25`, or `0.5` in `burst` mode). This is reduced when the
+   * battery is low or the CPU is under pressure, where the device reports it.
+   */
+  captureBudget?: number;
+
   /**
    * The element into which any generated cards will be appended. This property
    * is only required if the Perception Toolkit is adding cards. If you choose
@@ -93,6 +196,21 @@ export interface PerceptionToolkitConfig {
    */
   cardUrlLabel?: string;
 
+  /**
+   * Whether to detect barcodes and images in a single worker (default:
+   * `false`), so that each frame is only copied once rather than once per
+   * detector. This has no effect if either detector is disabled or replaced.
+   * Requires `OffscreenCanvas` support for frames which are transferred.
+   */
+  combineDetectors?: boolean;
+
+  /**
+   * Whether to only detect targets inside the reticle box (default: `false`),
+   * rather than in the whole frame. Detected targets are still located within
+   * the whole frame.
+   */
+  cropToReticle?: boolean;
+
   /**
    * Debug level. Takes one of the following:
    * * `error`: Errors only. (default)
@@ -112,17 +230,23 @@ export interface PerceptionToolkitConfig {
   detectionMode?: 'active' | 'passive' | 'burst';
 
   /**
-   * Which detectors to load. Defaults to 'lazy', which means no detectors are
-   * preloaded ahead of detection starting.
-   * * `all`: Load all detectors (uses most bandwidth)
+   * Which detectors to load. Defaults to 'lazy', which means only the barcode
+   * detector is preloaded ahead of detection starting.
+   * * `all`: Load all registered detectors (uses most bandwidth)
    * * `lazy`: Loads detectors on demand (uses least bandwidth)
    *
-   * Alternatively you can specify on a per-detector basis:
+   * Alternatively you can specify on a per-detector basis, by the name each
+   * detector is registered under (see `registerDetector`). Detectors set to
+   * `'lazy'` are loaded when first needed, and those set to `false` are not
+   * used. The barcode detector is used unless it is set to `false`. Detectors
+   * which read printed text, such as SKUs, emit markers of type `text`, which
+   * are matched by `TextDigitalDocument` targets.
    *
    * ```
    * detectors: {
    *   'barcode': true,
-   *   'image': 'lazy'
+   *   'image': 'lazy',
+   *   'price': true
    * }
    * ```
    */
@@ -130,6 +254,12 @@ export interface PerceptionToolkitConfig {
     [key: string]: boolean | 'lazy'
   };
 
+  /**
+   * Whether to outline detected markers and images on the camera feed
+   * (default: `false`).
+   */
+  highlightTargets?: boolean;
+
   /**
    * The time, in milliseconds, to wait before showing a notification to the user
    * suggesting that they ought to try positioning the marker more centrally to
@@ -142,6 +272,21 @@ export interface PerceptionToolkitConfig {
    */
   maxCards?: number;
 
+  /**
+   * The minimum confidence, from 0 to 1, a detected marker or image must have
+   * to be acted upon (default: `0`). Barcodes and images are scored on how
+   * plausible their outline is, so raising this suppresses false positives
+   * such as those caused by reflective packaging.
+   */
+  minConfidence?: number;
+
+  /**
+   * The number of consecutive captured frames in which a marker or image must
+   * be detected before it is acted upon (default: `1`). Raising this
+   * suppresses spurious detections, at the cost of slower responses.
+   */
+  minConsecutiveFrames?: number;
+
   /**
    * Whether or not to show the onboarding flow. If `true` then `onboardingImages`
    * must also be set.
@@ -163,12 +308,57 @@ export interface PerceptionToolkitConfig {
    */
   onload?: () => void;
 
+  /**
+   * The label of the camera to use, or part of it, e.g. `'telephoto'`. This is
+   * matched case-insensitively against the labels of the device's cameras.
+   * Defaults to the environment-facing camera.
+   */
+  preferredCameraLabel?: string;
+
+  /**
+   * Whether to record the frames, detections and perception results of the
+   * session, so that it can be replayed later with `replaySource`. Options may
+   * be given to control how frames are encoded, and whether the camera's video
+   * is recorded too. The recording is returned by `getSessionRecording()`.
+   * Set `lossless` for recordings which will be replayed in CI. Defaults to
+   * `false`.
+   */
+  recordSession?: boolean | SessionRecorderOptions;
+
+  /**
+   * Replays a session in place of the camera, e.g. to reproduce a bug. This is
+   * either the URL of a recording made with `recordSession`, or a list of image
+   * URLs to show in turn. Frames are captured from the replay as they would be
+   * from the camera, so for deterministic tests give each recorded frame to a
+   * session with `replayFrames` instead.
+   */
+  replaySource?: string | string[];
+
   /**
    * The location from which the toolkit should be loaded. Typically this will be
    * the `node_modules` directory, e.g. `node_modules/perception-toolkit`.
    */
   root?: string;
 
+  /**
+   * Whether to track the user's location, so that artifacts whose `arTarget`
+   * is a `GeoCoordinates` (with a `geoRadius`), `GeoCircle` or `GeoShape`
+   * (with a `circle`) are found when the user is within that zone. Enabling
+   * this will prompt the user for access to their location. Defaults to
+   * `false`.
+   */
+  trackGeolocation?: boolean;
+
+  /**
+   * Whether to follow detected images from frame to frame, rather than
+   * detecting them anew in every captured frame (default: `false`). This is
+   * far cheaper on low-end devices. Images are detected in full when tracking
+   * becomes unreliable, and every couple of seconds so that new images are
+   * found. Highlights, anchored cards and overlays on tracked images are
+   * updated at the display frame rate.
+   */
+  trackImages?: boolean;
+
   /**
    * A callback or set of strings used to determine if artifacts are allowed
    * from a given origin.
@@ -191,6 +381,14 @@ export interface PerceptionToolkitConfig {
    */
   showLoaderDuringBoot?: boolean;
 
+  /**
+   * Whether to refuse to start the experience if there are errors in the
+   * config (default: `false`); warnings alone don't prevent it. Problems are
+   * always logged, and reported with a `ConfigError` event; otherwise options
+   * in error may be ignored.
+   */
+  strictConfig?: boolean;
+
   /**
    * Location of ARArtifact sources which should be loaded on startup.
    * Sources could be individual html pages or json-ld files.
@@ -226,6 +424,24 @@ export interface PerceptionToolkitConfig {
  * ```
  */
 export interface PerceptionToolkitEvents {
+  /**
+   * Artifacts were loaded which could not be fully understood. This event
+   * contains the `url` they were loaded from, and a list of `diagnostics`, each
+   * of which has a `pointer` to the offending JSON-LD node, a `severity` and a
+   * `message` describing the problem.
+   *
+   * Diagnostics with an `error` severity describe artifacts, or targets, which
+   * have been ignored.
+   */
+  ArtifactDiagnostics: string;
+
+  /**
+   * Artifacts have been added or removed, e.g. because their source was
+   * reloaded. This event contains the `added` and `removed` artifacts, and the
+   * previously found results which have been `lost` as a result.
+   */
+  ArtifactsChanged: string;
+
   /**
    * Access to the camera has been denied. By default this will show a message
    * to the user. If you wish to prevent the default behavior you should call
@@ -233,6 +449,12 @@ export interface PerceptionToolkitEvents {
    */
   CameraAccessDenied: string;
 
+  /**
+   * The user has chosen another camera. This event contains the `deviceId` of
+   * the camera, which the capture switches to.
+   */
+  CameraChange: string;
+
   /**
    * Capture has been closed. Typically at the end of all capturing.
    */
@@ -249,6 +471,20 @@ export interface PerceptionToolkitEvents {
    */
   CaptureStopped: string;
 
+  /**
+   * The config has been changed with `updateConfig`. This event contains the
+   * names of the options which `changed`, and the `config` as it now is.
+   */
+  ConfigChanged: string;
+
+  /**
+   * Problems have been found with the config, when `initializeExperience` is
+   * called or when the config is changed with `updateConfig`. This event
+   * contains the `problems`, each with the `option` it concerns, a `message`
+   * and a `severity` of `error` or `warning`.
+   */
+  ConfigError: string;
+
   /**
    * The device does not support all the required APIs.
    */
@@ -267,7 +503,14 @@ export interface PerceptionToolkitEvents {
   PerceivedResults: string;
 
   /**
-   * A marker has been detected. Provides the type and value of the marker.
+   * A marker has been detected. Provides the type and value of the marker,
+   * and where it was detected: `boundingBox` and `cornerPoints` in pixels of
+   * the captured frame, and `screenBoundingBox` and `screenCornerPoints` in
+   * CSS pixels relative to the viewport, and its `confidence` from 0 to 1.
+   *
+   * Images whose `ARImageTarget` has a `width` and `height` also have a
+   * `pose`: their `rotation` and `translation` relative to the camera, in
+   * meters, and their `distance` from it.
    */
   MarkerDetect: string;
 }
@@ -301,6 +544,62 @@ export interface PerceptionToolkitFunctions {
    * Closes the experience if it is running.
    */
   closeExperience: () => void;
+
+  /**
+   * Reloads the artifacts from a URL, replacing any which were previously
+   * loaded from it. This allows long-running experiences to pick up content
+   * changes without reloading the page. Has no effect until the experience
+   * has been initialized.
+   */
+  reloadArtifactsFromUrl: (url: string) => void;
+
+  /**
+   * Returns the capture interval and scale chosen when `adaptiveCapture` is
+   * set, and the detector latencies and device hints they were chosen from.
+   * Intended for debugging. Returns `undefined` until the experience has been
+   * initialized.
+   */
+  getCaptureSchedule: () => CaptureSchedule | undefined;
+
+  /**
+   * Returns the session recorded so far when `recordSession` is enabled, which
+   * can be saved as JSON and later given as the `replaySource`. Resolves to
+   * `undefined` if the session is not being recorded.
+   */
+  getSessionRecording: () => Promise<SessionRecording | undefined>;
+
+  /**
+   * Returns the current config.
+   */
+  getConfig: () => PerceptionToolkitConfig;
+
+  /**
+   * Changes config options, which takes effect while the experience is
+   * running. The detection mode, card container, artifact sources and
+   * detectors can all be changed, e.g. to switch to `active` detection when
+   * the battery is low. The changes are only made if none are in error, and a
+   * `ConfigChanged` event is fired. Any problems, including warnings, are
+   * reported with a `ConfigError` event.
+   * Returns the names of the options which changed.
+   */
+  updateConfig: (changes: PerceptionToolkitConfig) => Array<keyof PerceptionToolkitConfig>;
+
+  /**
+   * Registers a custom detector under a name, by which it can be enabled in
+   * the `detectors` config. The built-in detectors are registered as `barcode`
+   * and `image`, and can be replaced. Detectors must be registered before the
+   * experience is initialized.
+   */
+  registerDetector: (name: string, factory: DetectorFactory) => void;
+
+  /**
+   * Registers how cards show `arContent` of a schema.org `@type`: as a
+   * function which returns card data or an element, a `<template>` whose
+   * `data-property` elements are filled from the content, or the tag name of a
+   * custom element whose `src` is set to the content. There are renderers for
+   * `Product`, `Event`, `Recipe`, `VideoObject` and `3DModel` by default.
+   */
+  registerCardRenderer: (type: string, renderer: CardRenderer | HTMLTemplateElement | string) => void;
 }
 
 /**
@@ -47,6 +47,30 @@ export async function initialize() {
   await toolkit.start();
 }
 
+export async function reloadArtifactsFromUrl(url: string) {
+  if (!toolkit) {
+    return;
+  }
+
+  await toolkit.reloadArtifactsFromUrl(url);
+}
+
+export function getCaptureSchedule() {
+  if (!toolkit) {
+    return;
+  }
+
+  return toolkit.getCaptureSchedule();
+}
+
+export async function getSessionRecording() {
+  if (!toolkit) {
+    return;
+  }
+
+  return toolkit.getSessionRecording();
+}
+
 export async function close() {
   if (!toolkit) {
     return;
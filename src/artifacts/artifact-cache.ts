@@ -0,0 +1,171 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DEBUG_LEVEL, log } from '../utils/logger.js';
+
+export interface CacheEntry<T> {
+  url: string;
+  data: T;
+  etag?: string;
+  lastModified?: string;
+  timestamp: number;  // When the entry was last fetched or revalidated.
+}
+
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/*
+ * ArtifactCache persists fetched (and decoded) responses in IndexedDB, so that
+ * they survive between sessions and can be used while offline.
+ *
+ * Cached entries are revalidated with ETag / Last-Modified headers whenever the
+ * network is available, and are served as-is when it is not. Storage failures
+ * (e.g. in private browsing modes) are logged, and the network is used instead.
+ */
+export class ArtifactCache {
+  private db?: Promise<IDBDatabase>;
+
+  constructor(private readonly dbName = 'pt.artifact-cache') {}
+
+  /**
+   * Fetches a URL, and converts the response with `read`. The result is cached,
+   * and served in place of the response when it is unchanged, or when the
+   * network is unavailable.
+   *
+   * `read` is expected to throw for unsuccessful responses, which are never cached.
+   */
+  async fetch<T>(url: string, read: (response: Response) => Promise<T>,
+                 init: RequestInit = {}): Promise<T> {
+    const cached = await this.get<T>(url);
+    if (cached && !navigator.onLine) {
+      log(`Offline, using cached ${url}`, DEBUG_LEVEL.VERBOSE, 'ArtifactCache');
+      return cached.data;
+    }
+
+    const headers = new Headers(init.headers);
+    if (cached && this.canRevalidate(url)) {
+      if (cached.etag) {
+        headers.set('If-None-Match', cached.etag);
+      }
+      if (cached.lastModified) {
+        headers.set('If-Modified-Since', cached.lastModified);
+      }
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, headers });
+    } catch (e) {
+      // Network failures are treated the same as being offline.
+      if (cached) {
+        return cached.data;
+      }
+      throw e;
+    }
+
+    if (cached && response.status === 304) {
+      await this.set({ ...cached, timestamp: Date.now() });
+      return cached.data;
+    }
+
+    const data = await read(response);
+    if (response.ok) {
+      await this.set({
+        data,
+        etag: response.headers.get('ETag') || undefined,
+        lastModified: response.headers.get('Last-Modified') || undefined,
+        timestamp: Date.now(),
+        url,
+      });
+    }
+    return data;
+  }
+
+  async get<T>(url: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      const store = await this.objectStore('readonly');
+      return await requestToPromise<CacheEntry<T> | undefined>(store.get(url));
+    } catch (e) {
+      log(`Unable to read ${url} from cache: ${e}`, DEBUG_LEVEL.WARNING, 'ArtifactCache');
+    }
+  }
+
+  async set<T>(entry: CacheEntry<T>) {
+    try {
+      const store = await this.objectStore('readwrite');
+      await requestToPromise(store.put(entry));
+    } catch (e) {
+      log(`Unable to write ${entry.url} to cache: ${e}`, DEBUG_LEVEL.WARNING, 'ArtifactCache');
+    }
+  }
+
+  async delete(url: string) {
+    try {
+      const store = await this.objectStore('readwrite');
+      await requestToPromise(store.delete(url));
+    } catch (e) {
+      log(`Unable to delete ${url} from cache: ${e}`, DEBUG_LEVEL.WARNING, 'ArtifactCache');
+    }
+  }
+
+  async clear() {
+    try {
+      const store = await this.objectStore('readwrite');
+      await requestToPromise(store.clear());
+    } catch (e) {
+      log(`Unable to clear cache: ${e}`, DEBUG_LEVEL.WARNING, 'ArtifactCache');
+    }
+  }
+
+  /*
+   * Conditional headers are not CORS-safelisted, and would trigger a preflight
+   * request for cross-origin URLs, so these are left to the HTTP cache.
+   */
+  private canRevalidate(url: string) {
+    return new URL(url, location.href).origin === location.origin;
+  }
+
+  private async objectStore(mode: IDBTransactionMode) {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private open() {
+    if (!this.db) {
+      const request = indexedDB.open(this.dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'url' });
+      };
+
+      this.db = requestToPromise(request);
+
+      // Allow a later attempt if the database could not be opened.
+      this.db.catch(() => {
+        this.db = undefined;
+      });
+    }
+
+    return this.db;
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { replaceGetter, restore, SinonStub, stub } from 'sinon';
+import { ArtifactCache } from './artifact-cache.js';
+
+describe('ArtifactCache', () => {
+  const url = new URL('/base/test-assets/test-json.jsonld', window.location.href).toString();
+  const readText = async (response: Response) => {
+    if (!response.ok) {
+      throw Error('Fetch failure');
+    }
+    return response.text();
+  };
+
+  let cache: ArtifactCache;
+  let fetchStub: SinonStub;
+  let online = true;
+
+  beforeEach(async () => {
+    cache = new ArtifactCache('pt.artifact-cache-test');
+    await cache.clear();
+
+    online = true;
+    replaceGetter(navigator, 'onLine', () => online);
+    fetchStub = stub(window, 'fetch');
+    fetchStub.resolves(new Response('Fake Body', {
+      headers: { 'ETag': '"1"', 'Last-Modified': 'Tue, 01 Jan 2019 00:00:00 GMT' }
+    }));
+  });
+
+  afterEach(() => {
+    restore();
+  });
+
+  it('caches responses', async () => {
+    assert.equal(await cache.fetch(url, readText), 'Fake Body');
+
+    const entry = await cache.get<string>(url);
+    assert.isDefined(entry);
+    assert.equal(entry!.data, 'Fake Body');
+    assert.equal(entry!.etag, '"1"');
+    assert.equal(entry!.lastModified, 'Tue, 01 Jan 2019 00:00:00 GMT');
+  });
+
+  it('revalidates cached responses', async () => {
+    await cache.fetch(url, readText);
+    fetchStub.resolves(new Response(null, { status: 304 }));
+
+    assert.equal(await cache.fetch(url, readText), 'Fake Body');
+    const headers = fetchStub.secondCall.args[1].headers as Headers;
+    assert.equal(headers.get('If-None-Match'), '"1"');
+    assert.equal(headers.get('If-Modified-Since'), 'Tue, 01 Jan 2019 00:00:00 GMT');
+  });
+
+  it('replaces changed responses', async () => {
+    await cache.fetch(url, readText);
+    fetchStub.resolves(new Response('New Body', { headers: { ETag: '"2"' } }));
+
+    assert.equal(await cache.fetch(url, readText), 'New Body');
+    const entry = await cache.get<string>(url);
+    assert.equal(entry!.data, 'New Body');
+    assert.equal(entry!.etag, '"2"');
+  });
+
+  it('does not cache failures', async () => {
+    fetchStub.resolves(new Response('Not Found', { status: 404 }));
+    try {
+      await cache.fetch(url, readText);
+    } catch (e) {
+      assert.throws(() => { throw e; });
+    }
+    assert.isUndefined(await cache.get(url));
+  });
+
+  it('serves cached responses while offline', async () => {
+    await cache.fetch(url, readText);
+    online = false;
+
+    assert.equal(await cache.fetch(url, readText), 'Fake Body');
+    assert.isTrue(fetchStub.calledOnce);
+  });
+
+  it('serves cached responses when the network fails', async () => {
+    await cache.fetch(url, readText);
+    fetchStub.rejects(new TypeError('Failed to fetch'));
+
+    assert.equal(await cache.fetch(url, readText), 'Fake Body');
+  });
+
+  it('does not revalidate cross-origin responses', async () => {
+    const crossOriginUrl = 'https://example.com/artifacts.jsonld';
+    await cache.fetch(crossOriginUrl, readText);
+    await cache.fetch(crossOriginUrl, readText);
+
+    const headers = fetchStub.secondCall.args[1].headers as Headers;
+    assert.isFalse(headers.has('If-None-Match'));
+  });
+
+  it('deletes entries', async () => {
+    await cache.fetch(url, readText);
+    await cache.delete(url);
+    assert.isUndefined(await cache.get(url));
+  });
+
+  it('ignores storage failures', async () => {
+    stub(indexedDB, 'open').throws(new Error('Storage is blocked'));
+    const blockedCache = new ArtifactCache('pt.artifact-cache-blocked-test');
+    await blockedCache.delete(url);
+    await blockedCache.clear();
+    assert.equal(await blockedCache.fetch(url, readText), 'Fake Body');
+  });
+});
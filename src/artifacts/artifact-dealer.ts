@@ -30,6 +30,16 @@ export class ArtifactDealer {
     this.artstores.push(artstore);
   }
 
+  async removeArtifactStore(artstore: ArtifactStore): Promise<boolean> {
+    const index = this.artstores.indexOf(artstore);
+    if (index === -1) {
+      return false;
+    }
+
+    this.artstores.splice(index, 1);
+    return true;
+  }
+
   async predictPerceptionTargets(request: PerceptionState): Promise<ProbableTargets> {
     const allStoreResults = await Promise.all(this.artstores.map((artstore) => {
       if (!artstore.getDetectableImages) {
@@ -184,4 +184,24 @@ describe('ArtifactDealer', () => {
     assert.isArray(result);
     assert.lengthOf(result, 2);
   });
+
+  it('removed stores no longer supply results', async () => {
+    const otherStore = new LocalArtifactStore();
+    artDealer.addArtifactStore(otherStore);
+    otherStore.addArtifact({
+      arTarget: { '@type': 'Barcode', 'text': 'OtherBarcode' },
+      arContent: ''
+    });
+
+    assert.isTrue(await artDealer.removeArtifactStore(otherStore));
+    assert.isFalse(await artDealer.removeArtifactStore(otherStore));
+
+    const result = await artDealer.getPerceptionResults({
+      markers: [
+        { type: 'qrcode', value: 'Barcode1' },
+        { type: 'qrcode', value: 'OtherBarcode' }
+      ]
+    });
+    assert.lengthOf(result, 1);
+  });
 });
@@ -15,57 +15,193 @@
  * limitations under the License.
  */
 
-import { ARArtifact } from './schema/extension-ar-artifacts.js';
-import { JsonLd } from './schema/json-ld.js';
+import { createBarcodeMatcher } from '../utils/barcode-matcher.js';
 import { flatMap } from '../utils/flat-map.js';
+import { GeoTarget, parseGeoZone } from '../utils/geo-zone.js';
+import { parsePhysicalSize } from '../utils/physical-size.js';
+import { DiagnosticsReporter } from './artifact-diagnostics.js';
+import { JsonLdProcessor } from './json-ld-processor.js';
+import { ARArtifact, ARTargetTypes } from './schema/extension-ar-artifacts.js';
+import { JsonLd } from './schema/json-ld.js';
 
 /*
  * ArtifactDecoder accepts a jsonld block and will extract and return valid ARArtifacts
  *
+ * The block is first processed so that `@context`s are expanded, `@graph`s are
+ * flattened, and `@id` references are replaced with the nodes they refer to.
+ *
+ * Artifacts which are rejected, or only partially understood, are described in
+ * diagnostics, which are collected by the (optional) DiagnosticsReporter.
  * */
 export class ArtifactDecoder {
-  decode(jsonld: JsonLd): ARArtifact[] {
-    return this.decodeUnknown(jsonld);
+  private readonly processor = new JsonLdProcessor();
+
+  decode(jsonld: JsonLd | JsonLd[], reporter = new DiagnosticsReporter()): ARArtifact[] {
+    const nodes = this.processor.process(jsonld);
+
+    // In a flattened graph an artifact may be both a top-level node and an
+    // element of a DataFeed, so only return it once.
+    return Array.from(new Set(flatMap(nodes, node => this.decodeUnknown(node, reporter, '', true))));
+  }
+
+  /**
+   * Returns the diagnostics for every artifact in the jsonld block which would be
+   * rejected, or only partially understood.
+   */
+  validate(jsonld: JsonLd | JsonLd[], url = '') {
+    const reporter = new DiagnosticsReporter(url);
+    this.decode(jsonld, reporter);
+    return reporter.diagnostics;
   }
 
-  private decodeUnknown(jsonld: JsonLd | JsonLd[]): ARArtifact[] {
+  private decodeUnknown(jsonld: JsonLd | JsonLd[], reporter: DiagnosticsReporter,
+                        parentPointer: string, isTopLevel = false): ARArtifact[] {
     if (Array.isArray(jsonld)) {
-      return this.decodeArray(jsonld);
+      return this.decodeArray(jsonld, reporter, parentPointer);
+    }
+
+    // Unresolved references remain as IRI strings.
+    if (typeof jsonld !== 'object' || jsonld === null) {
+      reporter.warning(parentPointer, `Unable to resolve reference to ${JSON.stringify(jsonld)}`);
+      return [];
     }
 
+    // Documents may describe many things besides artifacts, so only report on
+    // nodes which are expected to contain them.
+    const pointer = this.processor.pointerFor(jsonld);
     if (!('@type' in jsonld) || typeof jsonld['@type'] !== 'string') {
+      if (!isTopLevel) {
+        reporter.warning(pointer, this.isReference(jsonld) ?
+            `Unable to resolve reference to "${jsonld['@id']}"` :
+            'Ignoring node without a @type');
+      }
       return [];
     }
 
     switch (jsonld['@type'] as string) {
       case 'DataFeed':
-        return this.decodeDataFeed(jsonld);
+        return this.decodeDataFeed(jsonld, reporter);
+
+      case 'DataFeedItem':
+        if (!jsonld.item) {
+          reporter.warning(pointer, 'DataFeedItem has no item');
+          return [];
+        }
+        return this.decodeUnknown(jsonld.item, reporter, pointer);
 
       case 'ARArtifact':
-        return this.decodeArArtifact(jsonld);
+        return this.decodeArArtifact(jsonld, reporter);
 
       default:
+        if (!isTopLevel) {
+          reporter.warning(pointer, `Ignoring unsupported type "${jsonld['@type']}"`);
+        }
         return [];
     }
   }
 
-  private decodeArray(arr: JsonLd[]): ARArtifact[] {
-    return flatMap(arr, e => this.decodeUnknown(e));
+  private decodeArray(arr: JsonLd[], reporter: DiagnosticsReporter, parentPointer: string): ARArtifact[] {
+    return flatMap(arr, e => this.decodeUnknown(e, reporter, parentPointer));
   }
 
-  private decodeDataFeed(jsonld: JsonLd): ARArtifact[] {
+  private decodeDataFeed(jsonld: JsonLd, reporter: DiagnosticsReporter): ARArtifact[] {
+    const pointer = this.processor.pointerFor(jsonld);
     const elements = jsonld.dataFeedElement;
     if (!elements) {
+      reporter.warning(pointer, 'DataFeed has no dataFeedElement');
       return [];
     }
     if (!Array.isArray(elements)) {
-      return this.decodeUnknown(elements);
+      return this.decodeUnknown(elements, reporter, pointer);
     }
 
-    return this.decodeArray(elements);
+    return this.decodeArray(elements, reporter, pointer);
+  }
+
+  private decodeArArtifact(jsonld: JsonLd, reporter: DiagnosticsReporter): ARArtifact[] {
+    const artifact = jsonld as ARArtifact;
+    this.validateArArtifact(artifact, reporter);
+    return [artifact];
+  }
+
+  /*
+   * Mirrors the requirements of the LocalArtifactStore, so that authors can find
+   * out why an artifact will never be perceived.
+   */
+  private validateArArtifact(artifact: ARArtifact, reporter: DiagnosticsReporter) {
+    const pointer = this.processor.pointerFor(artifact);
+    if (!artifact.arContent) {
+      reporter.warning(pointer, 'ARArtifact has no arContent');
+    }
+
+    if (!artifact.arTarget) {
+      reporter.error(pointer, 'ARArtifact has no arTarget');
+      return;
+    }
+
+    const targets = Array.isArray(artifact.arTarget) ? artifact.arTarget : [artifact.arTarget];
+    for (const target of targets) {
+      this.validateArTarget(target, pointer, reporter);
+    }
+  }
+
+  private validateArTarget(target: ARTargetTypes, artifactPointer: string, reporter: DiagnosticsReporter) {
+    if (typeof target !== 'object' || target instanceof URL) {
+      reporter.error(artifactPointer, `Unable to resolve arTarget ${JSON.stringify(target.toString())}`);
+      return;
+    }
+
+    const pointer = this.processor.pointerFor(target);
+    switch (target['@type']) {
+      case 'Barcode':
+        if (!target.text && !createBarcodeMatcher(target)) {
+          reporter.error(pointer, target.textPrefix || target.textPattern || target.textTemplate ?
+              'Barcode has an invalid textPrefix, textPattern or textTemplate' :
+              'Barcode has no text');
+        }
+        break;
+
+      case 'TextDigitalDocument':
+        if (!target.text && !createBarcodeMatcher(target)) {
+          reporter.error(pointer, target.textPrefix || target.textPattern || target.textTemplate ?
+              'TextDigitalDocument has an invalid textPrefix, textPattern or textTemplate' :
+              'TextDigitalDocument has no text');
+        }
+        break;
+
+      case 'ARImageTarget':
+        if (!target.name) {
+          reporter.error(pointer, 'ARImageTarget has no name');
+        }
+        if (!target.image && !target.encoding && !target.associatedMedia) {
+          reporter.warning(pointer, 'ARImageTarget has no image, encoding or associatedMedia');
+        }
+        if ((target.width || target.height) && !parsePhysicalSize(target)) {
+          reporter.warning(pointer, 'ARImageTarget needs a valid width and height for its pose to be estimated');
+        }
+        break;
+
+      case 'GeoCoordinates':
+      case 'GeoCircle':
+      case 'GeoShape':
+        if (!parseGeoZone(target as GeoTarget)) {
+          reporter.error(pointer, `${target['@type']} does not describe a circular zone with a radius`);
+        }
+        break;
+
+      case undefined:
+        reporter.error(pointer, this.isReference(target) ?
+            `Unable to resolve arTarget "${target['@id']}"` :
+            'arTarget has no @type');
+        break;
+
+      default:
+        reporter.warning(pointer, `Ignoring unsupported arTarget type "${target['@type']}"`);
+        break;
+    }
   }
 
-  private decodeArArtifact(jsonld: JsonLd): ARArtifact[] {
-    return [jsonld as ARArtifact];
+  private isReference(jsonld: JsonLd) {
+    return Object.keys(jsonld).length === 1 && '@id' in jsonld;
   }
 }
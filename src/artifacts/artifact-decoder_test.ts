@@ -121,5 +121,214 @@ describe('ArtifactDecoder', () => {
       }
     });
 
+    it('parses DataFeedItems', () => {
+      const result = artDecoder.decode({
+        '@type': 'DataFeed',
+        'dataFeedElement': {
+          '@type': 'DataFeedItem',
+          'item': {
+            '@type': 'ARArtifact',
+            'arTarget': {},
+            'arContent': {},
+          }
+        }
+      });
+      assert.lengthOf(result, 1);
+      testArtifact(result[0]);
+    });
+  });
+
+  describe('JSON-LD processing', () => {
+    it('parses prefixed and expanded types', () => {
+      const result = artDecoder.decode([{
+        '@context': { schema: 'http://schema.org/' },
+        '@type': 'schema:ARArtifact',
+        'schema:arTarget': {},
+        'schema:arContent': {},
+      }, {
+        '@type': 'https://schema.org/ARArtifact',
+        'https://schema.org/arTarget': {},
+        'https://schema.org/arContent': {},
+      }]);
+      assert.lengthOf(result, 2);
+      for (const artifact of result) {
+        testArtifact(artifact);
+      }
+    });
+
+    it('parses artifacts with multiple types', () => {
+      const result = artDecoder.decode({
+        '@type': ['CreativeWork', 'ARArtifact'],
+        'arTarget': {},
+        'arContent': {},
+      } as any);
+      assert.lengthOf(result, 1);
+      testArtifact(result[0]);
+    });
+
+    it('parses flattened graphs', () => {
+      const result = artDecoder.decode({
+        '@context': 'https://schema.org/',
+        '@graph': [{
+          '@id': '#feed',
+          '@type': 'DataFeed',
+          'dataFeedElement': [{ '@id': '#artifact' }]
+        }, {
+          '@id': '#artifact',
+          '@type': 'ARArtifact',
+          'arTarget': { '@id': '#target' },
+          'arContent': { '@id': '#content' },
+        }, {
+          '@id': '#target',
+          '@type': 'Barcode',
+          'text': 'Barcode Value'
+        }, {
+          '@id': '#content',
+          '@type': 'WebPage',
+          'url': 'https://example.com/'
+        }]
+      });
+      assert.lengthOf(result, 1);
+      testArtifact(result[0]);
+      assert.equal((result[0].arTarget as any)['@type'], 'Barcode');
+      assert.equal((result[0].arTarget as any).text, 'Barcode Value');
+      assert.equal((result[0].arContent as any).url, 'https://example.com/');
+    });
+
+    it('ignores unresolved references', () => {
+      const result = artDecoder.decode({
+        '@type': 'DataFeed',
+        'dataFeedElement': [{ '@id': '#missing' }, 'https://example.com/#missing']
+      });
+      assert.isEmpty(result);
+    });
+  });
+
+  describe('Validation', () => {
+    it('reports nothing for valid artifacts', () => {
+      const result = artDecoder.validate({
+        '@type': 'ARArtifact',
+        'arTarget': { '@type': 'Barcode', 'text': 'Barcode Value' },
+        'arContent': 'Fake URL',
+      });
+      assert.isEmpty(result);
+    });
+
+    it('ignores unrelated top-level nodes', () => {
+      const result = artDecoder.validate([{ '@type': 'Product' }, { name: 'No type' }]);
+      assert.isEmpty(result);
+    });
+
+    it('reports artifacts without targets', () => {
+      const result = artDecoder.validate({ '@type': 'ARArtifact', 'arContent': 'Fake URL' }, 'Fake URL');
+      assert.deepEqual(result, [{
+        message: 'ARArtifact has no arTarget',
+        pointer: '',
+        severity: 'error',
+        url: 'Fake URL',
+      }]);
+    });
+
+    it('reports invalid targets', () => {
+      const result = artDecoder.validate({
+        '@type': 'DataFeed',
+        'dataFeedElement': [{
+          '@type': 'ARArtifact',
+          'arTarget': [
+            { '@type': 'Barcode' },
+            { '@type': 'ARImageTarget', 'image': 'Fake URL' },
+            { '@type': 'GeoCoordinates', 'latitude': 1, 'longitude': 2 },
+            { '@type': 'Unsupported' },
+          ],
+          'arContent': 'Fake URL',
+        }]
+      });
+      assert.deepEqual(result.map(({ pointer, severity }) => ({ pointer, severity })), [
+        { pointer: '/dataFeedElement/0/arTarget/0', severity: 'error' },
+        { pointer: '/dataFeedElement/0/arTarget/1', severity: 'error' },
+        { pointer: '/dataFeedElement/0/arTarget/2', severity: 'error' },
+        { pointer: '/dataFeedElement/0/arTarget/3', severity: 'warning' },
+      ]);
+    });
+
+    it('reports image targets with invalid sizes', () => {
+      const result = artDecoder.validate({
+        '@type': 'ARArtifact',
+        'arTarget': [
+          { '@type': 'ARImageTarget', 'name': 'Poster', 'image': 'Fake URL', 'width': '42 cm', 'height': '59.4 cm' },
+          { '@type': 'ARImageTarget', 'name': 'Poster', 'image': 'Fake URL', 'width': '42 cm' },
+          { '@type': 'ARImageTarget', 'name': 'Poster', 'image': 'Fake URL', 'width': 'wide', 'height': '1m' },
+        ],
+        'arContent': 'Fake URL',
+      });
+      assert.deepEqual(result.map(({ pointer, severity }) => ({ pointer, severity })), [
+        { pointer: '/arTarget/1', severity: 'warning' },
+        { pointer: '/arTarget/2', severity: 'warning' },
+      ]);
+    });
+
+    it('accepts Barcodes with patterns', () => {
+      const result = artDecoder.validate({
+        '@type': 'ARArtifact',
+        'arTarget': [
+          { '@type': 'Barcode', 'textPrefix': 'https://example.com/' },
+          { '@type': 'Barcode', 'textPattern': '\\d{13}' },
+          { '@type': 'Barcode', 'textTemplate': 'https://example.com/p/{id}' },
+          { '@type': 'Barcode', 'textPattern': '(' },
+        ],
+        'arContent': 'Fake URL',
+      });
+      assert.lengthOf(result, 1);
+      assert.equal(result[0].pointer, '/arTarget/3');
+      assert.include(result[0].message, 'textPattern');
+    });
+
+    it('accepts TextDigitalDocuments with text or patterns', () => {
+      const result = artDecoder.validate({
+        '@type': 'ARArtifact',
+        'arTarget': [
+          { '@type': 'TextDigitalDocument', 'text': 'SKU 12345' },
+          { '@type': 'TextDigitalDocument', 'textPattern': 'SKU \\d+' },
+          { '@type': 'TextDigitalDocument' },
+        ],
+        'arContent': 'Fake URL',
+      });
+      assert.lengthOf(result, 1);
+      assert.equal(result[0].pointer, '/arTarget/2');
+      assert.include(result[0].message, 'has no text');
+    });
+
+    it('reports unresolved references', () => {
+      const result = artDecoder.validate({
+        '@graph': [{
+          '@type': 'DataFeed',
+          'dataFeedElement': { '@id': '#missing-artifact' }
+        }, {
+          '@type': 'ARArtifact',
+          'arTarget': { '@id': '#missing-target' },
+          'arContent': 'Fake URL',
+        }]
+      });
+      assert.lengthOf(result, 2);
+      assert.equal(result[0].pointer, '/@graph/0/dataFeedElement');
+      assert.include(result[0].message, '#missing-artifact');
+      assert.equal(result[1].pointer, '/@graph/1/arTarget');
+      assert.include(result[1].message, '#missing-target');
+    });
+
+    it('reports artifacts in flattened graphs once', () => {
+      const result = artDecoder.validate({
+        '@graph': [{
+          '@type': 'DataFeed',
+          'dataFeedElement': { '@id': '#artifact' }
+        }, {
+          '@id': '#artifact',
+          '@type': 'ARArtifact',
+          'arContent': 'Fake URL',
+        }]
+      });
+      assert.lengthOf(result, 1);
+      assert.equal(result[0].pointer, '/@graph/1');
+    });
   });
 });
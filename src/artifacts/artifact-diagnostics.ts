@@ -0,0 +1,75 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * `error` diagnostics describe artifacts, or targets, which were rejected.
+ * `warning` diagnostics describe content which was only partially understood.
+ */
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * Describes a problem with an artifact, so that authors can find out why their
+ * content is not being perceived.
+ */
+export interface ArtifactDiagnostic {
+  url: string;  // The document which the artifact was loaded from.
+  script?: number;  // The index of the inline JSON-LD script, for HTML documents.
+  pointer: string;  // A JSON pointer to the offending node within the JSON-LD.
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+/**
+ * Escapes a property name for use as a JSON pointer reference token.
+ */
+export function escapePointerToken(token: string) {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/*
+ * DiagnosticsReporter reports the diagnostics for a single JSON-LD source into
+ * a (possibly shared) list.
+ */
+export class DiagnosticsReporter {
+  constructor(private readonly url = '',
+              readonly diagnostics: ArtifactDiagnostic[] = [],
+              private readonly script?: number) {}
+
+  error(pointer: string, message: string) {
+    this.report('error', pointer, message);
+  }
+
+  warning(pointer: string, message: string) {
+    this.report('warning', pointer, message);
+  }
+
+  private report(severity: DiagnosticSeverity, pointer: string, message: string) {
+    // Nodes may be visited more than once (e.g. artifacts in a flattened DataFeed).
+    const isDuplicate = this.diagnostics.some((diagnostic) =>
+        diagnostic.url === this.url && diagnostic.script === this.script &&
+        diagnostic.pointer === pointer && diagnostic.message === message);
+    if (isDuplicate) {
+      return;
+    }
+
+    const diagnostic: ArtifactDiagnostic = { url: this.url, pointer, severity, message };
+    if (typeof this.script !== 'undefined') {
+      diagnostic.script = this.script;
+    }
+    this.diagnostics.push(diagnostic);
+  }
+}
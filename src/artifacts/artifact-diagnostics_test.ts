@@ -0,0 +1,62 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { DiagnosticsReporter, escapePointerToken } from './artifact-diagnostics.js';
+
+describe('ArtifactDiagnostics', () => {
+  it('escapes JSON pointer tokens', () => {
+    assert.equal(escapePointerToken('arTarget'), 'arTarget');
+    assert.equal(escapePointerToken('http://schema.org/arTarget'), 'http:~1~1schema.org~1arTarget');
+    assert.equal(escapePointerToken('a~b'), 'a~0b');
+  });
+
+  describe('DiagnosticsReporter', () => {
+    it('reports errors and warnings', () => {
+      const reporter = new DiagnosticsReporter('Fake URL');
+      reporter.error('/0', 'Error message');
+      reporter.warning('/1', 'Warning message');
+      assert.deepEqual(reporter.diagnostics, [
+        { url: 'Fake URL', pointer: '/0', severity: 'error', message: 'Error message' },
+        { url: 'Fake URL', pointer: '/1', severity: 'warning', message: 'Warning message' },
+      ]);
+    });
+
+    it('reports inline scripts', () => {
+      const reporter = new DiagnosticsReporter('Fake URL', [], 2);
+      reporter.error('', 'Error message');
+      assert.equal(reporter.diagnostics[0].script, 2);
+    });
+
+    it('reports into a shared list', () => {
+      const diagnostics = [
+        { url: 'Other URL', pointer: '', severity: 'error' as 'error', message: 'Error message' }
+      ];
+      new DiagnosticsReporter('Fake URL', diagnostics).error('', 'Error message');
+      assert.lengthOf(diagnostics, 2);
+    });
+
+    it('ignores duplicates', () => {
+      const reporter = new DiagnosticsReporter('Fake URL');
+      reporter.error('/0', 'Error message');
+      reporter.error('/0', 'Error message');
+      reporter.error('/1', 'Error message');
+      assert.lengthOf(reporter.diagnostics, 2);
+    });
+  });
+});
@@ -16,73 +16,90 @@
  */
 
 import { flat } from '../utils/flat.js';
+import { ArtifactCache } from './artifact-cache.js';
 import { ArtifactDecoder } from './artifact-decoder.js';
+import { ArtifactDiagnostic, DiagnosticsReporter } from './artifact-diagnostics.js';
 import { ARArtifact } from './schema/extension-ar-artifacts.js';
 import { JsonLd } from './schema/json-ld.js';
 
+interface LoadedArtifacts {
+  artifacts: ARArtifact[];
+  diagnostics: ArtifactDiagnostic[];
+}
+
 // TODO: Consider merging from*Url functions and just branching on response content-type
+/*
+ * ArtifactLoader finds and decodes the ARArtifacts in documents.
+ *
+ * Every `from*` method accepts an optional array, into which diagnostics are
+ * pushed for any content which was rejected or only partially understood. The
+ * `validate*` methods are conveniences which return just those diagnostics.
+ *
+ * When given an ArtifactCache, the artifacts decoded from each URL (and their
+ * diagnostics) are cached, so that they are available offline. The `cache` may
+ * be changed between loads.
+ */
 export class ArtifactLoader {
   private readonly decoder = new ArtifactDecoder();
 
-  async fromUrl(url: URL|string): Promise<ARArtifact[]> {
-    const response = await fetch(url.toString());
-    if (!response.ok) {
-        throw Error(`Fetch failure for ${url} with status: ${response.statusText}`);
-    }
-    const contentType = response.headers.get('content-type');
-    if (!contentType) {
-      return [];
-    }
+  constructor(public cache?: ArtifactCache) {}
 
-    if (contentType.indexOf('application/json') !== -1 || contentType.indexOf('application/ld+json') !== -1) {
-      const json = await response.json();
-      return this.fromJson(json);
-    } else {
-      const html = await response.text();
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(html, 'text/html');
-      return this.fromElement(doc, url);
-    }
+  async fromUrl(url: URL|string, diagnostics: ArtifactDiagnostic[] = []): Promise<ARArtifact[]> {
+    return this.fetchArtifacts(url, diagnostics, async (response, found) => {
+      const contentType = response.headers.get('content-type');
+      if (!contentType) {
+        new DiagnosticsReporter(url.toString(), found).warning('', 'Response has no content-type');
+        return [];
+      }
+
+      if (contentType.indexOf('application/json') !== -1 || contentType.indexOf('application/ld+json') !== -1) {
+        const json = await response.json();
+        return this.fromJson(json, url, found);
+      } else {
+        const html = await response.text();
+        const parser = new DOMParser();
+        const doc = parser.parseFromString(html, 'text/html');
+        return this.fromElement(doc, url, found);
+      }
+    });
   }
 
-  async fromHtmlUrl(url: URL|string): Promise<ARArtifact[]> {
+  async fromHtmlUrl(url: URL|string, diagnostics: ArtifactDiagnostic[] = []): Promise<ARArtifact[]> {
     // Note: according to MDN, can use XHR request to create Document direct from URL
     // This may be better, because could have document.location.href (etc) settings automatically?
     // Note: this already proved issue when getting .src property of script/link tags, since relative
     // Urls are based off this document root, not the fetched source.
 
-    const response = await fetch(url.toString());
-    if (!response.ok) {
-        throw Error(`Fetch failure for ${url} with status: ${response.statusText}`);
-    }
-    const html = await response.text();
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(html, 'text/html');
-    return this.fromElement(doc, url);
+    return this.fetchArtifacts(url, diagnostics, async (response, found) => {
+      const html = await response.text();
+      const parser = new DOMParser();
+      const doc = parser.parseFromString(html, 'text/html');
+      return this.fromElement(doc, url, found);
+    });
   }
 
-  async fromJsonUrl(url: URL|string): Promise<ARArtifact[]> {
-    const response = await fetch(url.toString());
-    if (!response.ok) {
-        throw Error(`Fetch failure for ${url} with status: ${response.statusText}`);
-    }
-    const json = await response.json();
-    return this.fromJson(json);
+  async fromJsonUrl(url: URL|string, diagnostics: ArtifactDiagnostic[] = []): Promise<ARArtifact[]> {
+    return this.fetchArtifacts(url, diagnostics, async (response, found) => {
+      const json = await response.json();
+      return this.fromJson(json, url, found);
+    });
   }
 
-  async fromElement(el: ParentNode, url: URL|string): Promise<ARArtifact[]> {
+  async fromElement(el: ParentNode, url: URL|string, diagnostics: ArtifactDiagnostic[] = []): Promise<ARArtifact[]> {
     const ret = [];
 
     const inlineScripts = el.querySelectorAll('script[type=\'application/ld+json\']:not([src])');
-    for (const jsonldScript of inlineScripts) {
+    for (const [script, jsonldScript] of Array.from(inlineScripts).entries()) {
       if (!jsonldScript.textContent) {
         continue;
       }
+      const reporter = new DiagnosticsReporter(url.toString(), diagnostics, script);
       try {
         const jsonld = JSON.parse(jsonldScript.textContent);
-        ret.push(this.fromJson(jsonld));
+        ret.push(this.decoder.decode(jsonld, reporter));
       } catch (ex) {
         // Ignore faulty jsonld
+        reporter.error('', `Unable to parse JSON-LD: ${ex.message}`);
       }
     }
 
@@ -91,9 +108,10 @@ export class ArtifactLoader {
       const src = jsonldScript.getAttribute('src') as string; // querySelector ensures this is defined.
       try {
         const url2 = new URL(src, /* base= */ url);
-        ret.push(this.fromJsonUrl(url2));
+        ret.push(this.fromJsonUrlOrReport(url2, diagnostics));
       } catch (ex) {
         // Ignore malformed URLs
+        new DiagnosticsReporter(url.toString(), diagnostics).error('', `Invalid script src "${src}"`);
       }
     }
 
@@ -102,16 +120,84 @@ export class ArtifactLoader {
       const href = jsonldLink.getAttribute('href') as string; // querySelector ensures this is defined.
       try {
         const url2 = new URL(href, /* base= */ url);
-        ret.push(this.fromJsonUrl(url2));
+        ret.push(this.fromJsonUrlOrReport(url2, diagnostics));
       } catch (ex) {
         // Ignore malformed URLs
+        new DiagnosticsReporter(url.toString(), diagnostics).error('', `Invalid link href "${href}"`);
       }
     }
 
     return flat(await Promise.all(ret));
   }
 
-  async fromJson(json: JsonLd): Promise<ARArtifact[]> {
-    return this.decoder.decode(json);
+  async fromJson(json: JsonLd, url: URL|string = '', diagnostics: ArtifactDiagnostic[] = []): Promise<ARArtifact[]> {
+    return this.decoder.decode(json, new DiagnosticsReporter(url.toString(), diagnostics));
+  }
+
+  /**
+   * Returns the diagnostics for the artifacts at a URL, including any failure to load it.
+   */
+  async validateUrl(url: URL|string): Promise<ArtifactDiagnostic[]> {
+    const diagnostics: ArtifactDiagnostic[] = [];
+    try {
+      await this.fromUrl(url, diagnostics);
+    } catch (ex) {
+      new DiagnosticsReporter(url.toString(), diagnostics).error('', ex.message);
+    }
+    return diagnostics;
+  }
+
+  /**
+   * Returns the diagnostics for the artifacts in an element, and in the JSON-LD documents it links to.
+   */
+  async validateElement(el: ParentNode, url: URL|string): Promise<ArtifactDiagnostic[]> {
+    const diagnostics: ArtifactDiagnostic[] = [];
+    await this.fromElement(el, url, diagnostics);
+    return diagnostics;
+  }
+
+  /**
+   * Returns the diagnostics for the artifacts in a JSON-LD document.
+   */
+  validateJson(json: JsonLd, url: URL|string = ''): ArtifactDiagnostic[] {
+    return this.decoder.validate(json, url.toString());
+  }
+
+  /*
+   * Fetches a URL (or uses the cache), and decodes the artifacts in the response.
+   * Diagnostics are cached alongside the artifacts, so they are reported again
+   * for cached responses.
+   */
+  private async fetchArtifacts(url: URL|string, diagnostics: ArtifactDiagnostic[],
+                               decode: (response: Response, found: ArtifactDiagnostic[]) => Promise<ARArtifact[]>) {
+    const read = async (response: Response): Promise<LoadedArtifacts> => {
+      if (!response.ok) {
+        throw Error(`Fetch failure for ${url} with status: ${response.statusText}`);
+      }
+
+      const found: ArtifactDiagnostic[] = [];
+      const artifacts = await decode(response, found);
+      return { artifacts, diagnostics: found };
+    };
+
+    const loaded = this.cache ?
+        await this.cache.fetch(url.toString(), read) :
+        await read(await fetch(url.toString()));
+
+    diagnostics.push(...loaded.diagnostics);
+    return loaded.artifacts;
+  }
+
+  /*
+   * Linked documents which fail to load are reported, rather than failing the
+   * whole element.
+   */
+  private async fromJsonUrlOrReport(url: URL, diagnostics: ArtifactDiagnostic[]) {
+    try {
+      return await this.fromJsonUrl(url, diagnostics);
+    } catch (ex) {
+      new DiagnosticsReporter(url.toString(), diagnostics).error('', ex.message);
+      return [];
+    }
   }
 }
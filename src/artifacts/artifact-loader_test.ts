@@ -17,6 +17,9 @@
 
 const { assert } = chai;
 
+import { replaceGetter, restore } from 'sinon';
+import { ArtifactCache } from './artifact-cache.js';
+import { ArtifactDiagnostic } from './artifact-diagnostics.js';
 import { ArtifactLoader } from './artifact-loader.js';
 
 describe('ArtifactLoader', () => {
@@ -175,4 +178,114 @@ describe('ArtifactLoader', () => {
     assert.isArray(artifacts);
     assert.lengthOf(artifacts, 1);
   });
+
+  describe('Validation', () => {
+    it('reports artifacts from JSON', () => {
+      const diagnostics = artLoader.validateJson({ '@type': 'ARArtifact', 'arContent': {} }, 'Fake URL');
+      assert.lengthOf(diagnostics, 1);
+      assert.equal(diagnostics[0].url, 'Fake URL');
+      assert.equal(diagnostics[0].severity, 'error');
+    });
+
+    it('reports invalid inline scripts', async () => {
+      const html = `
+        <!doctype html>
+        <html>
+        <head>
+        <script type="application/ld+json">
+        {
+          "@type": "ARArtifact",
+          "arTarget": { "@type": "Barcode", "text": "Barcode Value" },
+          "arContent": {}
+        }
+        </script>
+        <script type="application/ld+json">
+        { "@type": "ARArtifact",
+        </script>
+        <script type="application/ld+json">
+        {
+          "@type": "ARArtifact",
+          "arTarget": { "@type": "Barcode" },
+          "arContent": {}
+        }
+        </script>
+        </head>
+        </html>
+      `;
+      const parser = new DOMParser();
+      const doc = parser.parseFromString(html, 'text/html');
+
+      const diagnostics = await artLoader.validateElement(doc, 'Fake URL');
+      assert.lengthOf(diagnostics, 2);
+      assert.deepInclude(diagnostics[0], { url: 'Fake URL', script: 1, pointer: '', severity: 'error' });
+      assert.deepInclude(diagnostics[1], { url: 'Fake URL', script: 2, pointer: '/arTarget', severity: 'error' });
+    });
+
+    it('still loads valid artifacts alongside invalid ones', async () => {
+      const html = `
+        <!doctype html>
+        <html>
+        <head>
+        <script type="application/ld+json">{ "@type": "ARArtifact", "arTarget": {}, "arContent": {} }</script>
+        <script type="application/ld+json">{ "@type": </script>
+        </head>
+        </html>
+      `;
+      const parser = new DOMParser();
+      const doc = parser.parseFromString(html, 'text/html');
+
+      const diagnostics: ArtifactDiagnostic[] = [];
+      const result = await artLoader.fromElement(doc, 'Fake URL', diagnostics);
+      assert.lengthOf(result, 1);
+      assert.lengthOf(diagnostics, 2);
+    });
+
+    it('reports bad URLs', async () => {
+      const url = new URL('/bad.jsonld', window.location.href);
+      const diagnostics = await artLoader.validateUrl(url);
+      assert.lengthOf(diagnostics, 1);
+      assert.equal(diagnostics[0].url, url.toString());
+      assert.equal(diagnostics[0].severity, 'error');
+    });
+
+    it('reports nothing for valid documents', async () => {
+      const url = new URL('/base/test-assets/test-json.jsonld', window.location.href);
+      const diagnostics = await artLoader.validateUrl(url);
+      assert.isEmpty(diagnostics);
+    });
+  });
+
+  describe('Caching', () => {
+    afterEach(() => {
+      restore();
+    });
+
+    it('serves cached artifacts while offline', async () => {
+      const cache = new ArtifactCache('pt.artifact-loader-test');
+      await cache.clear();
+      const cachingLoader = new ArtifactLoader(cache);
+
+      const url = new URL('/base/test-assets/test-json.jsonld', window.location.href);
+      assert.lengthOf(await cachingLoader.fromJsonUrl(url), 1);
+
+      replaceGetter(navigator, 'onLine', () => false);
+      const artifacts = await cachingLoader.fromJsonUrl(url);
+      assert.lengthOf(artifacts, 1);
+      assert.containsAllKeys(artifacts[0], ['@type', 'arTarget', 'arContent']);
+    });
+
+    it('serves cached diagnostics while offline', async () => {
+      const cache = new ArtifactCache('pt.artifact-loader-test');
+      await cache.clear();
+      const cachingLoader = new ArtifactLoader(cache);
+
+      const url = new URL('/base/test-assets/test-invalid.html', window.location.href);
+      await cachingLoader.fromHtmlUrl(url);
+
+      replaceGetter(navigator, 'onLine', () => false);
+      const diagnostics: ArtifactDiagnostic[] = [];
+      await cachingLoader.fromHtmlUrl(url, diagnostics);
+      assert.lengthOf(diagnostics, 2);
+    });
+  });
 });
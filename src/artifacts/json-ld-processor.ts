@@ -0,0 +1,388 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { escapePointerToken } from './artifact-diagnostics.js';
+import { JsonLd } from './schema/json-ld.js';
+
+// Vocabularies whose terms are compacted back to plain schema.org names.
+const SCHEMA_VOCABULARIES = [
+  'http://schema.org/',
+  'https://schema.org/',
+  'http://schema.googleapis.com/',
+  'https://schema.googleapis.com/',
+];
+
+// Types which the toolkit acts upon. When a node declares several types one of
+// these is preferred, so that the node can still be matched on `@type` alone.
+const PREFERRED_TYPES = [
+  'ARArtifact',
+  'DataFeed',
+  'DataFeedItem',
+  'ARImageTarget',
+  'Barcode',
+  'TextDigitalDocument',
+  'GeoCircle',
+  'GeoShape',
+  'GeoCoordinates',
+  'ImageObject',
+  'MediaObject',
+];
+
+interface TermDefinition {
+  id: string;
+  type?: string;
+}
+
+interface ActiveContext {
+  vocab: string | null;
+  terms: { [term: string]: TermDefinition };
+}
+
+interface SourceNode {
+  node: JsonLd;
+  context: ActiveContext;
+  pointer: string;  // Where the node was described in the source document.
+}
+
+type NodeMap = Map<string, SourceNode>;
+
+interface NormalizationState {
+  nodeMap: NodeMap;
+  normalized: Map<string, JsonLd>;  // Normalized nodes, keyed by @id.
+  inProgress: Set<string>;  // The @ids of nodes currently being normalized.
+}
+
+const EMPTY_CONTEXT: ActiveContext = { vocab: null, terms: {} };
+
+function isObject(value: any): value is JsonLd {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function withTrailingSlash(iri: string) {
+  return /[\/#]$/.test(iri) ? iri : `${iri}/`;
+}
+
+/*
+ * JsonLdProcessor applies the parts of JSON-LD processing that are needed to
+ * read ARArtifacts from real-world documents: `@context` expansion (vocabularies,
+ * prefixes, term definitions and `@id` coercion), `@graph` containers, value
+ * objects, and in-document `@id` references.
+ *
+ * The output is a list of top-level nodes in which every schema.org term is
+ * compacted back to its plain name (e.g. `schema:ARArtifact` and
+ * `http://schema.org/ARArtifact` both become `ARArtifact`), and references have
+ * been replaced by the nodes they refer to. Remote contexts are not fetched;
+ * a string context is treated as the default vocabulary.
+ *
+ * The location of each output node within the source document is remembered,
+ * and can be retrieved as a JSON pointer with `pointerFor`.
+ */
+export class JsonLdProcessor {
+  private readonly pointers = new WeakMap<JsonLd, string>();
+
+  process(jsonld: JsonLd | JsonLd[]): JsonLd[] {
+    const state: NormalizationState = {
+      inProgress: new Set(),
+      nodeMap: new Map(),
+      normalized: new Map(),
+    };
+
+    const topLevel = this.topLevelNodes(jsonld, EMPTY_CONTEXT, '');
+    for (const { node, context, pointer } of topLevel) {
+      this.collectNodes(node, context, pointer, state.nodeMap);
+    }
+
+    return topLevel.map(({ node, context, pointer }) => this.normalizeNode(node, context, pointer, state));
+  }
+
+  /**
+   * Returns the JSON pointer to the source of a node returned by `process`.
+   */
+  pointerFor(node: JsonLd): string {
+    return this.pointers.get(node) || '';
+  }
+
+  /*
+   * Unwraps arrays and `@graph` containers into the list of top-level nodes,
+   * alongside the context that applies to each.
+   */
+  private topLevelNodes(jsonld: JsonLd | JsonLd[], context: ActiveContext,
+                        pointer: string): SourceNode[] {
+    if (Array.isArray(jsonld)) {
+      const ret = [];
+      for (const [index, node] of jsonld.entries()) {
+        ret.push(...this.topLevelNodes(node, context, `${pointer}/${index}`));
+      }
+      return ret;
+    }
+
+    if (!isObject(jsonld)) {
+      return [];
+    }
+
+    const localContext = this.processContext(context, jsonld['@context']);
+    if (!('@graph' in jsonld)) {
+      return [{ node: jsonld, context: localContext, pointer }];
+    }
+
+    const ret = this.topLevelNodes(jsonld['@graph'], localContext, `${pointer}/@graph`);
+
+    // A graph container may also describe a node of its own.
+    const ownKeys = Object.keys(jsonld).filter((key) => key !== '@context' && key !== '@graph');
+    if (ownKeys.some((key) => key !== '@id')) {
+      ret.unshift({ node: jsonld, context: localContext, pointer });
+    }
+    return ret;
+  }
+
+  private processContext(active: ActiveContext, local: any): ActiveContext {
+    if (typeof local === 'undefined') {
+      return active;
+    }
+
+    if (local === null) {
+      return EMPTY_CONTEXT;
+    }
+
+    if (Array.isArray(local)) {
+      return local.reduce((ctx, entry) => this.processContext(ctx, entry), active);
+    }
+
+    // Remote contexts are not fetched, so assume they describe a vocabulary.
+    if (typeof local === 'string') {
+      return { ...active, vocab: withTrailingSlash(local) };
+    }
+
+    if (!isObject(local)) {
+      return active;
+    }
+
+    const result: ActiveContext = { vocab: active.vocab, terms: { ...active.terms } };
+    if (typeof local['@vocab'] === 'string') {
+      result.vocab = local['@vocab'];
+    } else if (local['@vocab'] === null) {
+      result.vocab = null;
+    }
+
+    for (const [term, definition] of Object.entries(local)) {
+      if (term.startsWith('@')) {
+        continue;
+      }
+
+      if (typeof definition === 'string') {
+        result.terms[term] = { id: definition };
+      } else if (isObject(definition) && typeof definition['@id'] === 'string') {
+        result.terms[term] = { id: definition['@id'], type: definition['@type'] };
+      } else if (definition === null) {
+        delete result.terms[term];
+      }
+    }
+
+    return result;
+  }
+
+  /*
+   * Expands a term, compact IRI or IRI to an absolute IRI where possible.
+   */
+  private expandIri(value: string, context: ActiveContext, vocab = true, depth = 0): string {
+    if (value.startsWith('@') || depth > 8) {
+      return value;
+    }
+
+    const definition = context.terms[value];
+    if (definition && vocab) {
+      return this.expandIri(definition.id, context, vocab, depth + 1);
+    }
+
+    const colon = value.indexOf(':');
+    if (colon > 0) {
+      const prefix = value.substr(0, colon);
+      const suffix = value.substr(colon + 1);
+      if (suffix.startsWith('//')) {
+        return value;  // Already absolute.
+      }
+
+      const prefixDefinition = context.terms[prefix];
+      if (prefixDefinition) {
+        return this.expandIri(prefixDefinition.id, context, true, depth + 1) + suffix;
+      }
+      return value;
+    }
+
+    return vocab && context.vocab ? `${context.vocab}${value}` : value;
+  }
+
+  /*
+   * Compacts an absolute IRI back to a plain schema.org term if it belongs to
+   * the schema.org vocabulary.
+   */
+  private compactIri(iri: string) {
+    for (const vocabulary of SCHEMA_VOCABULARIES) {
+      if (iri.startsWith(vocabulary)) {
+        return iri.substr(vocabulary.length);
+      }
+    }
+    return iri;
+  }
+
+  private normalizeType(type: any, context: ActiveContext): string | undefined {
+    const types = (Array.isArray(type) ? type : [type])
+        .filter((t) => typeof t === 'string')
+        .map((t) => this.compactIri(this.expandIri(t, context)));
+
+    if (types.length === 0) {
+      return;
+    }
+
+    return types.find((t) => PREFERRED_TYPES.includes(t)) || types[0];
+  }
+
+  private collectNodes(value: any, context: ActiveContext, pointer: string, nodeMap: NodeMap) {
+    if (Array.isArray(value)) {
+      for (const [index, entry] of value.entries()) {
+        this.collectNodes(entry, context, `${pointer}/${index}`, nodeMap);
+      }
+      return;
+    }
+
+    if (!isObject(value)) {
+      return;
+    }
+
+    const localContext = this.processContext(context, value['@context']);
+    if (typeof value['@id'] === 'string' && !this.isReference(value)) {
+      const id = this.expandIri(value['@id'], localContext, false);
+      const existing = nodeMap.get(id);
+
+      // Nodes that are described in several places are merged.
+      nodeMap.set(id, existing ?
+          { ...existing, node: { ...existing.node, ...value } } :
+          { node: value, context: localContext, pointer });
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      if (key !== '@context') {
+        this.collectNodes(child, localContext, `${pointer}/${escapePointerToken(key)}`, nodeMap);
+      }
+    }
+  }
+
+  private isReference(value: JsonLd) {
+    return Object.keys(value).every((key) => key === '@id');
+  }
+
+  private normalizeNode(node: JsonLd, context: ActiveContext, pointer: string,
+                        state: NormalizationState): JsonLd {
+    let localContext = this.processContext(context, node['@context']);
+    let id: string | undefined;
+    if (typeof node['@id'] === 'string') {
+      id = this.expandIri(node['@id'], localContext, false);
+
+      // Use the (merged) definition of the node, and only normalize it once so
+      // that every reference to it shares the same object.
+      const normalizedNode = state.normalized.get(id);
+      if (normalizedNode) {
+        return normalizedNode;
+      }
+
+      // A reference back to a node that is still being normalized would create
+      // a cycle, so it is left as a reference.
+      if (state.inProgress.has(id)) {
+        return this.withPointer({ '@id': id }, pointer);
+      }
+
+      const definition = state.nodeMap.get(id);
+      if (definition) {
+        node = definition.node;
+        pointer = definition.pointer;
+        localContext = this.processContext(definition.context, node['@context']);
+      } else if (this.isReference(node)) {
+        return this.withPointer({ '@id': id }, pointer);
+      }
+
+      state.inProgress.add(id);
+    }
+
+    const result = this.withPointer({}, pointer);
+    if (id) {
+      result['@id'] = id;
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      if (key === '@context' || key === '@id' || key === '@graph') {
+        continue;
+      }
+
+      if (key === '@type') {
+        const type = this.normalizeType(value, localContext);
+        if (type) {
+          result['@type'] = type;
+        }
+        continue;
+      }
+
+      const definition = localContext.terms[key];
+      const coerceToId = !!definition && definition.type === '@id';
+      const property = key.startsWith('@') ? key :
+          this.compactIri(this.expandIri(key, localContext));
+      const valuePointer = `${pointer}/${escapePointerToken(key)}`;
+      result[property] = this.normalizeValue(value, localContext, coerceToId, valuePointer, state);
+    }
+
+    if (id) {
+      state.inProgress.delete(id);
+      state.normalized.set(id, result);
+    }
+
+    return result;
+  }
+
+  private normalizeValue(value: any, context: ActiveContext, coerceToId: boolean, pointer: string,
+                         state: NormalizationState): any {
+    if (Array.isArray(value)) {
+      return value.map((entry, index) =>
+          this.normalizeValue(entry, context, coerceToId, `${pointer}/${index}`, state));
+    }
+
+    // IRIs only become references if they identify a node in this document.
+    if (typeof value === 'string' && coerceToId) {
+      if (!state.nodeMap.has(this.expandIri(value, context, false))) {
+        return value;
+      }
+      return this.normalizeNode({ '@id': value }, context, pointer, state);
+    }
+
+    if (!isObject(value)) {
+      return value;
+    }
+
+    if ('@value' in value) {
+      return value['@value'];
+    }
+
+    if ('@list' in value) {
+      return this.normalizeValue(value['@list'], context, coerceToId, `${pointer}/@list`, state);
+    }
+
+    return this.normalizeNode(value, context, pointer, state);
+  }
+
+  private withPointer(node: JsonLd, pointer: string) {
+    this.pointers.set(node, pointer);
+    return node;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { JsonLdProcessor } from './json-ld-processor.js';
+
+describe('JsonLdProcessor', () => {
+  let processor: JsonLdProcessor;
+
+  beforeEach(() => {
+    processor = new JsonLdProcessor();
+  });
+
+  it('returns empty array for empty input', () => {
+    assert.deepEqual(processor.process([]), []);
+  });
+
+  it('passes plain nodes through', () => {
+    const result = processor.process({ '@type': 'ARArtifact', 'arContent': 'Fake URL' });
+    assert.deepEqual(result, [{ '@type': 'ARArtifact', 'arContent': 'Fake URL' }]);
+  });
+
+  it('compacts expanded types and properties', () => {
+    const result = processor.process({
+      '@type': 'http://schema.org/ARArtifact',
+      'https://schema.org/arContent': 'Fake URL'
+    });
+    assert.deepEqual(result, [{ '@type': 'ARArtifact', 'arContent': 'Fake URL' }]);
+  });
+
+  it('expands prefixes from the context', () => {
+    const result = processor.process({
+      '@context': { schema: 'https://schema.org/' },
+      '@type': 'schema:ARArtifact',
+      'schema:arContent': 'Fake URL'
+    });
+    assert.deepEqual(result, [{ '@type': 'ARArtifact', 'arContent': 'Fake URL' }]);
+  });
+
+  it('expands terms from the context', () => {
+    const result = processor.process({
+      '@context': {
+        '@vocab': 'https://schema.org/',
+        'Artifact': 'ARArtifact',
+        'content': 'arContent'
+      },
+      '@type': 'Artifact',
+      'content': 'Fake URL'
+    });
+    assert.deepEqual(result, [{ '@type': 'ARArtifact', 'arContent': 'Fake URL' }]);
+  });
+
+  it('prefers known types from a list of types', () => {
+    const result = processor.process({
+      '@context': { schema: 'https://schema.org/' },
+      '@type': ['Thing', 'schema:ARArtifact']
+    } as any);
+    assert.equal(result[0]['@type'], 'ARArtifact');
+
+    const unknown = processor.process({ '@type': ['Thing', 'Other'] } as any);
+    assert.equal(unknown[0]['@type'], 'Thing');
+  });
+
+  it('unwraps value objects and lists', () => {
+    const result = processor.process({
+      '@type': 'Barcode',
+      'text': { '@value': 'Barcode Value' },
+      'keywords': { '@list': ['a', 'b'] }
+    });
+    assert.deepEqual(result, [{ '@type': 'Barcode', 'text': 'Barcode Value', 'keywords': ['a', 'b'] }]);
+  });
+
+  it('flattens graphs', () => {
+    const result = processor.process({
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'ARArtifact' },
+        { '@type': 'Barcode' }
+      ]
+    });
+    assert.lengthOf(result, 2);
+    assert.equal(result[0]['@type'], 'ARArtifact');
+    assert.equal(result[1]['@type'], 'Barcode');
+  });
+
+  it('resolves references to other nodes', () => {
+    const result = processor.process({
+      '@graph': [
+        { '@type': 'ARArtifact', 'arTarget': { '@id': '#target' } },
+        { '@id': '#target', '@type': 'Barcode', 'text': 'Barcode Value' }
+      ]
+    });
+    assert.lengthOf(result, 2);
+    assert.deepEqual(result[0].arTarget, { '@id': '#target', '@type': 'Barcode', 'text': 'Barcode Value' });
+    assert.strictEqual(result[0].arTarget, result[1]);
+  });
+
+  it('resolves references coerced by the context', () => {
+    const result = processor.process({
+      '@context': {
+        '@vocab': 'https://schema.org/',
+        'arTarget': { '@id': 'arTarget', '@type': '@id' },
+        'url': { '@id': 'url', '@type': '@id' }
+      },
+      '@graph': [
+        { '@type': 'ARArtifact', 'arTarget': '#target', 'url': 'https://example.com/' },
+        { '@id': '#target', '@type': 'Barcode' }
+      ]
+    });
+    assert.equal(result[0].arTarget['@type'], 'Barcode');
+    assert.equal(result[0].url, 'https://example.com/');
+  });
+
+  it('merges nodes that are described more than once', () => {
+    const result = processor.process([
+      { '@id': '#target', '@type': 'Barcode' },
+      { '@id': '#target', 'text': 'Barcode Value' }
+    ]);
+    assert.strictEqual(result[0], result[1]);
+    assert.deepEqual(result[0], { '@id': '#target', '@type': 'Barcode', 'text': 'Barcode Value' });
+  });
+
+  it('leaves unresolvable references untouched', () => {
+    const result = processor.process({ '@type': 'ARArtifact', 'arTarget': { '@id': '#missing' } });
+    assert.deepEqual(result[0].arTarget, { '@id': '#missing' });
+  });
+
+  it('remembers where nodes were described', () => {
+    const result = processor.process({
+      '@graph': [
+        { '@type': 'ARArtifact', 'arTarget': [{ '@id': '#target' }, { '@type': 'Barcode' }] },
+        { '@id': '#target', '@type': 'Barcode' }
+      ]
+    });
+    assert.equal(processor.pointerFor(result[0]), '/@graph/0');
+    assert.equal(processor.pointerFor(result[0].arTarget[0]), '/@graph/1');
+    assert.equal(processor.pointerFor(result[0].arTarget[1]), '/@graph/0/arTarget/1');
+    assert.equal(processor.pointerFor({}), '');
+  });
+
+  it('handles circular references', () => {
+    assert.doesNotThrow(() => {
+      const result = processor.process([
+        { '@id': '#a', 'sameAs': { '@id': '#b' } },
+        { '@id': '#b', 'sameAs': { '@id': '#a' } }
+      ]);
+      assert.strictEqual(result[0].sameAs, result[1]);
+      assert.deepEqual(result[1].sameAs, { '@id': '#a' });
+    });
+  });
+});
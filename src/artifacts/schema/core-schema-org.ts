@@ -38,6 +38,7 @@ export interface CreativeWork extends Thing {
   encoding?: MediaObject | MediaObject[];
   associatedMedia?: MediaObject | MediaObject[]; // Synonym for encoding
   encodingFormat?: string | URL;
+  mainEntity?: Thing;
 }
 
 export interface WebPage extends CreativeWork {
@@ -45,6 +46,12 @@ export interface WebPage extends CreativeWork {
   significantLink?: string | URL;
 }
 
+export interface Recipe extends CreativeWork {
+  cookTime?: string; // Duration, e.g. "PT30M"
+  recipeYield?: string | number;
+  totalTime?: string; // Duration
+}
+
 export interface MediaObject extends CreativeWork {
   contentUrl?: string | URL;
   contentSize?: number;
@@ -55,8 +62,27 @@ export interface ImageObject extends MediaObject {
 
 }
 
+export interface VideoObject extends MediaObject {
+  embedUrl?: string | URL;
+  thumbnailUrl?: string | URL;
+}
+
 export interface Barcode extends ImageObject {
   /* use `text` property of CreativeWork */
+  /* use `encodingFormat` property of MediaObject for the allowed formats, e.g. "qr_code" or "ean_13, ean_8" */
+  textPrefix?: string; // Extension: matches any text which starts with the prefix
+  textPattern?: string; // Extension: a regular expression matching the whole text
+  textTemplate?: string; // Extension: a URL template, e.g. "https://example.com/p/{id}"
+}
+
+export interface DigitalDocument extends CreativeWork {
+}
+
+export interface TextDigitalDocument extends DigitalDocument {
+  /* use `text` property of CreativeWork for the printed text, e.g. a SKU or model number */
+  textPrefix?: string; // Extension: matches any text which starts with the prefix
+  textPattern?: string; // Extension: a regular expression matching the whole text
+  textTemplate?: string; // Extension: a template, e.g. "SKU {id}"
 }
 
 export interface Intangible extends Thing {
@@ -72,4 +98,37 @@ export interface GeoCoordinates extends StructuredValue {
   latitude?: string | number;
   longitude?: string | number;
   postalCode?: string;
+  geoRadius?: string | number; // Extension: not part of schema.org GeoCoordinates
+}
+
+export interface GeoShape extends StructuredValue {
+  address?: string; // PostalAddress
+  addressCountry?: string; // Country
+  box?: string;
+  circle?: string; // "latitude longitude radius", with radius in meters
+  elevation?: string | number;
+  line?: string;
+  polygon?: string;
+  postalCode?: string;
+}
+
+export interface GeoCircle extends GeoShape {
+  geoMidpoint?: GeoCoordinates;
+  geoRadius?: string | number; // Distance
+}
+
+export interface Offer extends Intangible {
+  price?: string | number;
+  priceCurrency?: string;
+}
+
+export interface Product extends Thing {
+  brand?: string | Thing;
+  offers?: Offer | Offer[];
+}
+
+export interface Event extends Thing {
+  startDate?: string; // DateTime
+  endDate?: string; // DateTime
+  location?: string | Thing; // Place, PostalAddress or VirtualLocation
 }
@@ -28,4 +28,6 @@ export interface ARArtifact extends CreativeWork {
 export interface ARImageTarget extends CreativeWork {
   // Use name, description, image from Thing
   // Use encoding, associatedMedia from CreativeWork
+  width?: string | number; // Distance, the physical width of the printed image.
+  height?: string | number; // Distance, the physical height of the printed image.
 }
\ No newline at end of file
@@ -31,10 +31,20 @@ export interface PerceptionState {
 
 /*
  * PerceptionResult combines an ARArtifact result, with the specific ARTargetType that was used to trigger it.
+ *
+ * When the target matched a pattern, rather than an exact value, the matched groups are included as `captures`.
  */
 export interface PerceptionResult {
   target?: ARTargetTypes;
   artifact: ARArtifact;
+  captures?: TextCaptures;
+}
+
+/*
+ * The groups captured when matching a target, keyed by their index (e.g. "1") or name.
+ */
+export interface TextCaptures {
+  [group: string]: string;
 }
 
 export interface ArtifactStore {
@@ -19,12 +19,14 @@ import { DetectableImage, DetectedImage } from '../../../defs/detected-image.js'
 import { typeIsThing } from '../schema/core-schema-org.js';
 import { ARArtifact, ARTargetTypes } from '../schema/extension-ar-artifacts.js';
 import { ArtifactStore, PerceptionResult, PerceptionState } from './artifact-store.js';
+import { LocalGeoStore } from './local-geo-store.js';
 import { LocalImageStore } from './local-image-store.js';
 import { LocalMarkerStore } from './local-marker-store.js';
 
 export class LocalArtifactStore implements ArtifactStore {
   private readonly markerStore = new LocalMarkerStore();
   private readonly imageStore = new LocalImageStore();
+  private readonly geoStore = new LocalGeoStore();
 
   addArtifact(artifact: ARArtifact): number {
     if (!artifact.arTarget) {
@@ -50,12 +52,26 @@ export class LocalArtifactStore implements ArtifactStore {
           }
           break;
 
+        case 'TextDigitalDocument':
+          if (this.markerStore.addText(artifact, target)) {
+            totalAdded++;
+          }
+          break;
+
         case 'ARImageTarget':
           if (this.imageStore.addImage(artifact, target)) {
             totalAdded++;
           }
           break;
 
+        case 'GeoCoordinates':
+        case 'GeoCircle':
+        case 'GeoShape':
+          if (this.geoStore.addGeo(artifact, target)) {
+            totalAdded++;
+          }
+          break;
+
         default:
           break; // We ignore types we don't support, and move on
       }
@@ -63,10 +79,20 @@ export class LocalArtifactStore implements ArtifactStore {
     return totalAdded;
   }
 
+  /**
+   * Removes every target of an artifact, and returns the number removed.
+   */
+  removeArtifact(artifact: ARArtifact): number {
+    return this.markerStore.removeArtifact(artifact) +
+        this.imageStore.removeArtifact(artifact) +
+        this.geoStore.removeArtifact(artifact);
+  }
+
   async findRelevantArtifacts?(state: PerceptionState): Promise<PerceptionResult[]> {
     return [
       ...this.markerStore.findRelevantArtifacts(state.markers || []),
       ...this.imageStore.findRelevantArtifacts(state.images || []),
+      ...this.geoStore.findRelevantArtifacts(state.geo),
     ];
   }
 
@@ -40,6 +40,20 @@ describe('LocalArtifactStore', () => {
     });
   });
 
+  it('accepts printed text', async () => {
+    const artifact: ARArtifact = {
+      arTarget: { '@type': 'TextDigitalDocument', 'textPattern': 'SKU \\d+' },
+      arContent: 'Fake URL'
+    };
+    assert.equal(localArtifactStore.addArtifact(artifact), 1);
+
+    const results = await localArtifactStore.findRelevantArtifacts!({
+      markers: [{ type: 'text', value: 'SKU 12345' }]
+    });
+    assert.lengthOf(results, 1);
+    assert.strictEqual(results[0].artifact, artifact);
+  });
+
   it('accepts images', async () => {
     const image: ARImageTarget = { '@type': 'ARImageTarget', 'name': 'ID1', 'image': 'Fake URL' };
     const artifact: ARArtifact = {
@@ -56,6 +70,21 @@ describe('LocalArtifactStore', () => {
     });
   });
 
+  it('accepts geo targets', () => {
+    const artifact: ARArtifact = {
+      arTarget: [
+        { '@type': 'GeoCircle', 'geoMidpoint': { latitude: 1, longitude: 2 }, 'geoRadius': 10 },
+        { '@type': 'GeoShape', 'circle': '1 2 10' },
+        { '@type': 'GeoCoordinates', 'latitude': 1, 'longitude': 2, 'geoRadius': 10 },
+      ],
+      arContent: 'Fake URL'
+    };
+    assert.doesNotThrow(() => {
+      const totalAdded = localArtifactStore.addArtifact(artifact);
+      assert.equal(totalAdded, 3);
+    });
+  });
+
   it('ignores malformed inputs', () => {
     assert.doesNotThrow(() => {
       const totalAdded = localArtifactStore.addArtifact({});
@@ -93,6 +122,26 @@ describe('LocalArtifactStore', () => {
     });
   });
 
+  it('removes artifacts', async () => {
+    const artifact: ARArtifact = {
+      arTarget: [
+        { '@type': 'Barcode', 'text': 'Barcode1' },
+        { '@type': 'ARImageTarget', 'name': 'ID1', 'image': 'Fake URL' },
+        { '@type': 'GeoShape', 'circle': '1 2 100' },
+      ],
+      arContent: 'Fake URL'
+    };
+    localArtifactStore.addArtifact(artifact);
+
+    assert.equal(localArtifactStore.removeArtifact(artifact), 3);
+    assert.isEmpty(await localArtifactStore.getDetectableImages({}));
+    assert.isEmpty(await localArtifactStore.findRelevantArtifacts!({
+      geo: { latitude: 1, longitude: 2 },
+      images: [{ id: 'ID1' }],
+      markers: [{ type: 'qrcode', value: 'Barcode1' }],
+    }));
+  });
+
   describe('FindRelevantMarkers', () => {
     beforeEach(() => {
       localArtifactStore.addArtifact({
@@ -106,7 +155,7 @@ describe('LocalArtifactStore', () => {
     });
 
     it('finds barcodes', async () => {
-      const results = await localArtifactStore.findRelevantArtifacts({
+      const results = await localArtifactStore.findRelevantArtifacts!({
         markers: [{
           type: 'qrcode',
           value: 'Barcode Value'
@@ -116,7 +165,7 @@ describe('LocalArtifactStore', () => {
     });
 
     it('finds images', async () => {
-      const results = await localArtifactStore.findRelevantArtifacts({
+      const results = await localArtifactStore.findRelevantArtifacts!({
         images: [{
           id: 'ID1'
         }]
@@ -124,8 +173,19 @@ describe('LocalArtifactStore', () => {
       assert.lengthOf(results, 1);
     });
 
+    it('finds geo targets', async () => {
+      localArtifactStore.addArtifact({
+        arTarget: { '@type': 'GeoShape', 'circle': '1 2 100' },
+        arContent: 'Fake URL'
+      });
+      const results = await localArtifactStore.findRelevantArtifacts!({
+        geo: { latitude: 1, longitude: 2 }
+      });
+      assert.lengthOf(results, 1);
+    });
+
     it('can find both barcodes and images at once', async () => {
-      const results = await localArtifactStore.findRelevantArtifacts({
+      const results = await localArtifactStore.findRelevantArtifacts!({
         markers: [{
           type: 'qrcode',
           value: 'Barcode Value'
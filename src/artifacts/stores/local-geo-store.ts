@@ -0,0 +1,76 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { toNumber } from '../../utils/distance.js';
+import { geoDistance } from '../../utils/geo-distance.js';
+import { GeoTarget, GeoZoneBounds, parseGeoZone } from '../../utils/geo-zone.js';
+import { GeoCoordinates } from '../schema/core-schema-org.js';
+import { ARArtifact } from '../schema/extension-ar-artifacts.js';
+import { PerceptionResult } from './artifact-store.js';
+
+interface GeoZone extends GeoZoneBounds {
+  result: PerceptionResult;
+}
+
+/*
+ * LocalGeoStore indexes artifacts which are triggered by the user being within
+ * a circular zone, and finds those which are relevant to the current position.
+ *
+ * Supported targets are:
+ * * `GeoCircle`, using `geoMidpoint` and `geoRadius`.
+ * * `GeoShape`, using `circle` ("latitude longitude radius").
+ * * `GeoCoordinates`, using the (non-standard) `geoRadius` extension.
+ */
+export class LocalGeoStore {
+  private zones: GeoZone[] = [];
+
+  addGeo(artifact: ARArtifact, geoTarget: GeoTarget): boolean {
+    const zone = parseGeoZone(geoTarget);
+    if (!zone) {
+      return false;
+    }
+
+    this.zones.push({ ...zone, result: { target: geoTarget, artifact } });
+    return true;
+  }
+
+  removeArtifact(artifact: ARArtifact): number {
+    const totalZones = this.zones.length;
+    this.zones = this.zones.filter(({ result }) => result.artifact !== artifact);
+    return totalZones - this.zones.length;
+  }
+
+  findRelevantArtifacts(geo?: GeoCoordinates): PerceptionResult[] {
+    if (!geo) {
+      return [];
+    }
+
+    const latitude = toNumber(geo.latitude);
+    const longitude = toNumber(geo.longitude);
+    if (typeof latitude === 'undefined' || typeof longitude === 'undefined') {
+      return [];
+    }
+
+    const ret = [];
+    for (const zone of this.zones) {
+      if (geoDistance(zone, { latitude, longitude }) <= zone.radius) {
+        ret.push(zone.result);
+      }
+    }
+    return ret;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { GeoCircle, GeoCoordinates, GeoShape } from '../schema/core-schema-org.js';
+import { ARArtifact } from '../schema/extension-ar-artifacts.js';
+import { LocalGeoStore } from './local-geo-store.js';
+
+describe('LocalGeoStore', () => {
+  let localGeoStore: LocalGeoStore;
+
+  beforeEach(() => {
+    localGeoStore = new LocalGeoStore();
+  });
+
+  it('accepts GeoCircles', () => {
+    const circle: GeoCircle = {
+      '@type': 'GeoCircle',
+      'geoMidpoint': { '@type': 'GeoCoordinates', 'latitude': 10, 'longitude': 20 },
+      'geoRadius': 50
+    };
+    assert.isTrue(localGeoStore.addGeo({ arTarget: circle }, circle));
+  });
+
+  it('accepts GeoShapes with circles', () => {
+    const shape: GeoShape = { '@type': 'GeoShape', 'circle': '10 20 50' };
+    assert.isTrue(localGeoStore.addGeo({ arTarget: shape }, shape));
+  });
+
+  it('accepts GeoCoordinates with a radius', () => {
+    const coords: GeoCoordinates = {
+      '@type': 'GeoCoordinates',
+      'latitude': '10',
+      'longitude': '20',
+      'geoRadius': '50 m'
+    };
+    assert.isTrue(localGeoStore.addGeo({ arTarget: coords }, coords));
+  });
+
+  it('ignores targets without a radius', () => {
+    const coords: GeoCoordinates = {
+      '@type': 'GeoCoordinates',
+      'latitude': 10,
+      'longitude': 20
+    };
+    assert.isFalse(localGeoStore.addGeo({ arTarget: coords }, coords));
+  });
+
+  it('ignores malformed inputs', () => {
+    assert.doesNotThrow(() => {
+      assert.isFalse(localGeoStore.addGeo({}, {}));
+      assert.isFalse(localGeoStore.addGeo({}, { '@type': 'GeoShape', 'circle': 'foo' }));
+      assert.isFalse(localGeoStore.addGeo({}, { '@type': 'GeoCircle', 'geoRadius': 'far' }));
+    });
+  });
+
+  describe('FindRelevantArtifacts', () => {
+    // One thousandth of a degree of latitude is roughly 111m.
+    const room1: GeoCircle = {
+      '@type': 'GeoCircle',
+      'geoMidpoint': { '@type': 'GeoCoordinates', 'latitude': 10, 'longitude': 20 },
+      'geoRadius': '150 m'
+    };
+    const room1Artifact: ARArtifact = { arTarget: room1, arContent: 'Room 1' };
+    const room2: GeoShape = { '@type': 'GeoShape', 'circle': '10.002 20 150' };
+
+    beforeEach(() => {
+      localGeoStore.addGeo(room1Artifact, room1);
+      localGeoStore.addGeo({ arTarget: room2, arContent: 'Room 2' }, room2);
+    });
+
+    it('finds zones containing the position', () => {
+      const results = localGeoStore.findRelevantArtifacts({ latitude: 10, longitude: 20 });
+      assert.lengthOf(results, 1);
+      assert.deepEqual(results[0].target, room1);
+      assert.deepEqual(results[0].artifact, room1Artifact);
+    });
+
+    it('finds overlapping zones', () => {
+      const results = localGeoStore.findRelevantArtifacts({ latitude: 10.001, longitude: 20 });
+      assert.lengthOf(results, 2);
+    });
+
+    it('does not find zones outside of the position', () => {
+      const results = localGeoStore.findRelevantArtifacts({ latitude: 11, longitude: 20 });
+      assert.lengthOf(results, 0);
+    });
+
+    it('ignores missing positions', () => {
+      assert.lengthOf(localGeoStore.findRelevantArtifacts(), 0);
+      assert.lengthOf(localGeoStore.findRelevantArtifacts({}), 0);
+    });
+
+    it('does not find removed artifacts', () => {
+      assert.equal(localGeoStore.removeArtifact(room1Artifact), 1);
+      const results = localGeoStore.findRelevantArtifacts({ latitude: 10.001, longitude: 20 });
+      assert.lengthOf(results, 1);
+      assert.deepEqual(results[0].target, room2);
+    });
+
+    it('returns the same result for repeated lookups', () => {
+      const first = localGeoStore.findRelevantArtifacts({ latitude: 10, longitude: 20 });
+      const second = localGeoStore.findRelevantArtifacts({ latitude: 10, longitude: 20.0001 });
+      assert.strictEqual(first[0], second[0]);
+    });
+  });
+});
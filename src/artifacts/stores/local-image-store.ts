@@ -16,6 +16,7 @@
  */
 
 import { DetectableImage, DetectedImage } from '../../../defs/detected-image.js';
+import { parsePhysicalSize } from '../../utils/physical-size.js';
 import { typeIsThing } from '../schema/core-schema-org.js';
 import { ARArtifact, ARImageTarget } from '../schema/extension-ar-artifacts.js';
 import { PerceptionResult } from './artifact-store.js';
@@ -32,6 +33,17 @@ export class LocalImageStore {
     return true;
   }
 
+  removeArtifact(artifact: ARArtifact): number {
+    let totalRemoved = 0;
+    for (const [name, result] of this.images) {
+      if (result.artifact === artifact) {
+        this.images.delete(name);
+        totalRemoved++;
+      }
+    }
+    return totalRemoved;
+  }
+
   getDetectableImages(): DetectableImage[] {
     const allDetectableImages: DetectableImage[] = [];
 
@@ -65,6 +77,12 @@ export class LocalImageStore {
         detectableImage.media = detectableImage.media.concat(target.associatedMedia);
       }
 
+      // The physical size allows the pose of the image to be estimated.
+      const size = parsePhysicalSize(target as ARImageTarget);
+      if (size) {
+        detectableImage.size = size;
+      }
+
       allDetectableImages.push(detectableImage);
     }
 
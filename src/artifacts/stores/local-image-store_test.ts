@@ -188,6 +188,16 @@ describe('LocalImageStore', () => {
       assert.isArray(detectableImages[0].media);
       assert.lengthOf(detectableImages[0].media, 5);
     });
+
+    it('returns the physical size of images', () => {
+      localImageStore.addImage({}, { ...simpleImageTarget, width: '42 cm', height: 0.297 });
+      localImageStore.addImage({}, { ...imageObjectTarget, width: '42 cm' });
+
+      const [ sized, unsized ] = localImageStore.getDetectableImages();
+      assert.approximately(sized.size!.width, 0.42, 1e-9);
+      assert.equal(sized.size!.height, 0.297);
+      assert.isUndefined(unsized.size);
+    });
   });
 
   describe('FindRelevantArtifacts', () => {
@@ -231,4 +241,14 @@ describe('LocalImageStore', () => {
     });
 
   });
+
+  it('removes artifacts', () => {
+    localImageStore.addImage(simpleArtifact, simpleImageTarget);
+    localImageStore.addImage({ arTarget: imageObjectTarget }, imageObjectTarget);
+
+    assert.equal(localImageStore.removeArtifact(simpleArtifact), 1);
+    assert.lengthOf(localImageStore.getDetectableImages(), 1);
+    assert.lengthOf(localImageStore.findRelevantArtifacts([{ id: 'Id1' }]), 0);
+    assert.equal(localImageStore.removeArtifact(simpleArtifact), 0);
+  });
 });
@@ -16,29 +16,151 @@
  */
 
 import { Marker } from '../../../defs/marker.js';
-import { Barcode } from '../schema/core-schema-org.js';
+import { normalizeBarcodeFormat } from '../../utils/barcode-format.js';
+import { BarcodeMatcher, createBarcodeMatcher, MarkerTarget } from '../../utils/barcode-matcher.js';
+import { generateMarkerId } from '../../utils/generate-marker-id.js';
+import { Barcode, TextDigitalDocument } from '../schema/core-schema-org.js';
 import { ARArtifact } from '../schema/extension-ar-artifacts.js';
 import { PerceptionResult } from './artifact-store.js';
 
+// The type of markers read from printed text, rather than from a barcode.
+const TEXT_MARKER_TYPE = 'text';
+
+// How many of the texts matched by each pattern keep their results.
+const MAX_PATTERN_RESULTS = 16;
+
+interface MarkerPattern {
+  matcher: BarcodeMatcher;
+  formats: string[];
+  target: MarkerTarget;
+  artifact: ARArtifact;
+  results: Map<string, PerceptionResult>;  // Keyed by the matched text, least recently used first.
+}
+
+/*
+ * Returns the formats a Barcode may be encoded with, from its `encodingFormat`.
+ * An empty list means that any format is allowed.
+ */
+export function getBarcodeFormats(barcode: Barcode): string[] {
+  const encodingFormat = barcode.encodingFormat as string | string[] | URL | undefined;
+  if (!encodingFormat || encodingFormat instanceof URL) {
+    return [];
+  }
+
+  const formats = Array.isArray(encodingFormat) ? encodingFormat : encodingFormat.split(',');
+  return formats.filter((format) => typeof format === 'string' && format.trim() !== '')
+      .map(normalizeBarcodeFormat);
+}
+
+/*
+ * LocalMarkerStore indexes artifacts which are triggered by a Barcode.
+ *
+ * Barcodes with a `text` are matched exactly. Otherwise they may match any text
+ * starting with a `textPrefix`, matching a `textPattern` regular expression, or
+ * matching a `textTemplate` URL template. The groups captured by such a match
+ * (with the remainder of the text being group "1" for prefixes) are included
+ * in the result, so that content can be parameterised.
+ *
+ * Barcodes with an `encodingFormat` only match markers of those formats.
+ *
+ * TextDigitalDocuments are matched in the same way, but only against markers
+ * read from printed text (of type `text`), which barcodes never match.
+ */
 export class LocalMarkerStore {
-  private readonly markers = new Map<string, PerceptionResult>();
+  private readonly markers = new Map<string, PerceptionResult>();  // Any format, keyed by text.
+  private readonly formatMarkers = new Map<string, PerceptionResult>();  // Keyed by marker id.
+  private patterns: MarkerPattern[] = [];
 
   addMarker(artifact: ARArtifact, barcode: Barcode): boolean {
-    if (!barcode.text) {
-      return false;
+    return this.addTarget(artifact, barcode, getBarcodeFormats(barcode));
+  }
+
+  addText(artifact: ARArtifact, document: TextDigitalDocument): boolean {
+    return this.addTarget(artifact, document, [TEXT_MARKER_TYPE]);
+  }
+
+  removeArtifact(artifact: ARArtifact): number {
+    // A result is indexed once for each of its formats, but counted once.
+    const removed = new Set<PerceptionResult>();
+    for (const markers of [this.markers, this.formatMarkers]) {
+      for (const [key, result] of markers) {
+        if (result.artifact === artifact) {
+          markers.delete(key);
+          removed.add(result);
+        }
+      }
     }
-    this.markers.set(barcode.text, { target: barcode, artifact });
-    return true;
+
+    const totalPatterns = this.patterns.length;
+    this.patterns = this.patterns.filter((pattern) => pattern.artifact !== artifact);
+    return removed.size + totalPatterns - this.patterns.length;
   }
 
   findRelevantArtifacts(markers: Marker[]): PerceptionResult[] {
     const ret = [];
     for (const marker of markers) {
-      const nearbyResult = this.markers.get(marker.value);
+      const type = normalizeBarcodeFormat(marker.type);
+      const nearbyResult = this.formatMarkers.get(generateMarkerId({ type, value: marker.value })) ||
+          (type !== TEXT_MARKER_TYPE ? this.markers.get(marker.value) : undefined);
 
+      // Exact matches take precedence over patterns.
       if (nearbyResult) {
         ret.push(nearbyResult);
+        continue;
+      }
+
+      ret.push(...this.findPatternMatches(type, marker.value));
+    }
+    return ret;
+  }
+
+  private addTarget(artifact: ARArtifact, target: MarkerTarget, formats: string[]): boolean {
+    if (target.text) {
+      const result = { target, artifact };
+      if (formats.length === 0) {
+        this.markers.set(target.text, result);
+      }
+      for (const type of formats) {
+        this.formatMarkers.set(generateMarkerId({ type, value: target.text }), result);
+      }
+      return true;
+    }
+
+    const matcher = createBarcodeMatcher(target);
+    if (!matcher) {
+      return false;
+    }
+    this.patterns.push({ matcher, formats, target, artifact, results: new Map() });
+    return true;
+  }
+
+  private findPatternMatches(type: string, text: string): PerceptionResult[] {
+    const ret = [];
+    for (const { matcher, formats, target, artifact, results } of this.patterns) {
+      // Patterns without formats match any barcode, but not printed text.
+      if (formats.length > 0 ? !formats.includes(type) : type === TEXT_MARKER_TYPE) {
+        continue;
+      }
+
+      // Results are reused for the same text, so that they can be tracked
+      // from one frame to the next. Only the most recently seen texts are
+      // kept, as a pattern may match any number of them.
+      let result = results.get(text);
+      if (result) {
+        results.delete(text);
+      } else {
+        const captures = matcher(text);
+        if (!captures) {
+          continue;
+        }
+        result = { target, artifact, captures };
+      }
+
+      results.set(text, result);
+      if (results.size > MAX_PATTERN_RESULTS) {
+        results.delete(results.keys().next().value);
       }
+      ret.push(result);
     }
     return ret;
   }
@@ -17,7 +17,8 @@
 
 const { assert } = chai;
 
-import { LocalMarkerStore } from './local-marker-store.js';
+import { createBarcodeMatcher } from '../../utils/barcode-matcher.js';
+import { getBarcodeFormats, LocalMarkerStore } from './local-marker-store.js';
 import { Barcode } from '../schema/core-schema-org.js';
 import { ARArtifact } from '../schema/extension-ar-artifacts.js';
 
@@ -95,4 +96,213 @@ describe('LocalMarkerStore', () => {
     });
 
   });
+
+  describe('Patterns', () => {
+    it('matches prefixes', () => {
+      const barcode = { '@type': 'Barcode', 'textPrefix': 'https://example.com/' };
+      localMarkerStore.addMarker({}, barcode);
+
+      const results = localMarkerStore.findRelevantArtifacts([
+        { type: 'qrcode', value: 'https://example.com/products/1' },
+        { type: 'qrcode', value: 'https://example.org/products/1' },
+      ]);
+      assert.lengthOf(results, 1);
+      assert.strictEqual(results[0].target, barcode);
+      assert.deepEqual(results[0].captures, { 1: 'products/1' });
+    });
+
+    it('matches regular expressions', () => {
+      localMarkerStore.addMarker({}, { '@type': 'Barcode', 'textPattern': '(\\d{7})(\\d{5})\\d' });
+
+      const results = localMarkerStore.findRelevantArtifacts([
+        { type: 'ean_13', value: '5012345678900' },
+        { type: 'ean_13', value: '50123456789000' },
+      ]);
+      assert.lengthOf(results, 1);
+      assert.deepEqual(results[0].captures, { 1: '5012345', 2: '67890' });
+    });
+
+    it('matches URL templates', () => {
+      localMarkerStore.addMarker({}, {
+        '@type': 'Barcode',
+        'textTemplate': 'https://example.com/p/{id}?serial={serial}'
+      });
+
+      const results = localMarkerStore.findRelevantArtifacts([
+        { type: 'qrcode', value: 'https://example.com/p/shoe?serial=123' },
+        { type: 'qrcode', value: 'https://example.com/p/shoe/left?serial=123' },
+      ]);
+      assert.lengthOf(results, 1);
+      assert.deepEqual(results[0].captures, { id: 'shoe', serial: '123' });
+    });
+
+    it('prefers exact matches', () => {
+      const exactArtifact = { arContent: 'Exact' };
+      localMarkerStore.addMarker({}, { '@type': 'Barcode', 'textPrefix': 'Barcode' });
+      localMarkerStore.addMarker(exactArtifact, { '@type': 'Barcode', 'text': 'Barcode1' });
+
+      const results = localMarkerStore.findRelevantArtifacts([{ type: 'qrcode', value: 'Barcode1' }]);
+      assert.lengthOf(results, 1);
+      assert.strictEqual(results[0].artifact, exactArtifact);
+      assert.isUndefined(results[0].captures);
+    });
+
+    it('reuses results for the same text', () => {
+      localMarkerStore.addMarker({}, { '@type': 'Barcode', 'textPrefix': 'Barcode' });
+
+      const [ first ] = localMarkerStore.findRelevantArtifacts([{ type: 'qrcode', value: 'Barcode1' }]);
+      const [ second ] = localMarkerStore.findRelevantArtifacts([{ type: 'qrcode', value: 'Barcode1' }]);
+      const [ other ] = localMarkerStore.findRelevantArtifacts([{ type: 'qrcode', value: 'Barcode2' }]);
+      assert.strictEqual(first, second);
+      assert.notStrictEqual(first, other);
+    });
+
+    it('only keeps results for recently matched texts', () => {
+      localMarkerStore.addMarker({}, { '@type': 'Barcode', 'textPrefix': 'Barcode' });
+      const find = (value: string) => localMarkerStore.findRelevantArtifacts([{ type: 'qrcode', value }])[0];
+
+      const recent = find('Barcode1');
+      const old = find('Barcode2');
+      for (let index = 3; index < 18; index++) {
+        find(`Barcode${index}`);
+        find('Barcode1');
+      }
+      assert.strictEqual(find('Barcode1'), recent);
+      assert.notStrictEqual(find('Barcode2'), old);
+    });
+
+    it('ignores invalid patterns', () => {
+      assert.isFalse(localMarkerStore.addMarker({}, { '@type': 'Barcode', 'textPattern': '(' }));
+      assert.isFalse(localMarkerStore.addMarker({}, { '@type': 'Barcode', 'textTemplate': 'no-variables' }));
+      assert.isUndefined(createBarcodeMatcher({ '@type': 'Barcode' }));
+    });
+
+    it('removes patterns of an artifact', () => {
+      const artifact: ARArtifact = { arContent: 'Fake URL' };
+      localMarkerStore.addMarker(artifact, { '@type': 'Barcode', 'textPrefix': 'Barcode' });
+      localMarkerStore.addMarker(artifact, { '@type': 'Barcode', 'text': 'Other' });
+
+      assert.equal(localMarkerStore.removeArtifact(artifact), 2);
+      const results = localMarkerStore.findRelevantArtifacts([{ type: 'qrcode', value: 'Barcode1' }]);
+      assert.lengthOf(results, 0);
+    });
+  });
+
+  describe('Formats', () => {
+    it('parses encoding formats', () => {
+      assert.deepEqual(getBarcodeFormats({ '@type': 'Barcode' }), []);
+      assert.deepEqual(getBarcodeFormats({ '@type': 'Barcode', 'encodingFormat': 'QR Code' }), ['qr_code']);
+      assert.deepEqual(getBarcodeFormats({ '@type': 'Barcode', 'encodingFormat': 'ean_13, EAN-8' }),
+          ['ean_13', 'ean_8']);
+      assert.deepEqual(getBarcodeFormats({ '@type': 'Barcode', 'encodingFormat': ['qr_code'] } as any),
+          ['qr_code']);
+    });
+
+    it('only matches markers of the declared formats', () => {
+      const qrArtifact = { arContent: 'QR' };
+      const eanArtifact = { arContent: 'EAN' };
+      localMarkerStore.addMarker(qrArtifact, { '@type': 'Barcode', 'text': '123', 'encodingFormat': 'qr_code' });
+      localMarkerStore.addMarker(eanArtifact, { '@type': 'Barcode', 'text': '123', 'encodingFormat': 'ean_13' });
+
+      const results = localMarkerStore.findRelevantArtifacts([
+        { type: 'qr_code', value: '123' },
+        { type: 'ean_13', value: '123' },
+        { type: 'code_128', value: '123' },
+      ]);
+      assert.lengthOf(results, 2);
+      assert.strictEqual(results[0].artifact, qrArtifact);
+      assert.strictEqual(results[1].artifact, eanArtifact);
+    });
+
+    it('prefers format-specific matches', () => {
+      const anyArtifact = { arContent: 'Any' };
+      const qrArtifact = { arContent: 'QR' };
+      localMarkerStore.addMarker(anyArtifact, { '@type': 'Barcode', 'text': '123' });
+      localMarkerStore.addMarker(qrArtifact, { '@type': 'Barcode', 'text': '123', 'encodingFormat': 'qr_code' });
+
+      const [ qrResult ] = localMarkerStore.findRelevantArtifacts([{ type: 'qr_code', value: '123' }]);
+      const [ eanResult ] = localMarkerStore.findRelevantArtifacts([{ type: 'ean_13', value: '123' }]);
+      assert.strictEqual(qrResult.artifact, qrArtifact);
+      assert.strictEqual(eanResult.artifact, anyArtifact);
+    });
+
+    it('filters patterns by format', () => {
+      localMarkerStore.addMarker({}, { '@type': 'Barcode', 'textPattern': '\\d+', 'encodingFormat': 'ean_13' });
+
+      assert.lengthOf(localMarkerStore.findRelevantArtifacts([{ type: 'ean_13', value: '123' }]), 1);
+      assert.lengthOf(localMarkerStore.findRelevantArtifacts([{ type: 'qr_code', value: '123' }]), 0);
+    });
+
+    it('removes markers with several formats once', () => {
+      const artifact: ARArtifact = { arContent: 'Fake URL' };
+      localMarkerStore.addMarker(artifact, { '@type': 'Barcode', 'text': '123', 'encodingFormat': 'ean_13, ean_8' });
+
+      assert.equal(localMarkerStore.removeArtifact(artifact), 1);
+      assert.lengthOf(localMarkerStore.findRelevantArtifacts([{ type: 'ean_8', value: '123' }]), 0);
+    });
+  });
+
+  describe('Text', () => {
+    it('matches printed text', () => {
+      const document = { '@type': 'TextDigitalDocument', 'text': 'SKU 12345' };
+      assert.isTrue(localMarkerStore.addText({}, document));
+
+      const results = localMarkerStore.findRelevantArtifacts([{ type: 'text', value: 'SKU 12345' }]);
+      assert.lengthOf(results, 1);
+      assert.strictEqual(results[0].target, document);
+    });
+
+    it('matches printed text with patterns', () => {
+      localMarkerStore.addText({}, { '@type': 'TextDigitalDocument', 'textPattern': 'SKU (\\d+)' });
+
+      const results = localMarkerStore.findRelevantArtifacts([
+        { type: 'text', value: 'SKU 12345' },
+        { type: 'text', value: 'Model 12345' },
+      ]);
+      assert.lengthOf(results, 1);
+      assert.deepEqual(results[0].captures, { 1: '12345' });
+    });
+
+    it('does not match barcodes with printed text', () => {
+      localMarkerStore.addText({}, { '@type': 'TextDigitalDocument', 'text': '123' });
+      localMarkerStore.addText({}, { '@type': 'TextDigitalDocument', 'textPattern': '\\d+' });
+
+      assert.lengthOf(localMarkerStore.findRelevantArtifacts([{ type: 'qr_code', value: '123' }]), 0);
+    });
+
+    it('does not match printed text with barcodes', () => {
+      localMarkerStore.addMarker({}, { '@type': 'Barcode', 'text': '123' });
+      localMarkerStore.addMarker({}, { '@type': 'Barcode', 'textPattern': '\\d+' });
+
+      assert.lengthOf(localMarkerStore.findRelevantArtifacts([{ type: 'text', value: '123' }]), 0);
+    });
+  });
+
+  describe('RemoveArtifact', () => {
+    it('removes all markers of an artifact', () => {
+      const artifact: ARArtifact = { arContent: 'Fake URL' };
+      localMarkerStore.addMarker(artifact, { '@type': 'Barcode', 'text': 'Barcode1' });
+      localMarkerStore.addMarker(artifact, { '@type': 'Barcode', 'text': 'Barcode2' });
+      localMarkerStore.addMarker({}, { '@type': 'Barcode', 'text': 'Barcode3' });
+
+      assert.equal(localMarkerStore.removeArtifact(artifact), 2);
+      const results = localMarkerStore.findRelevantArtifacts([
+        { type: 'qrcode', value: 'Barcode1' },
+        { type: 'qrcode', value: 'Barcode2' },
+        { type: 'qrcode', value: 'Barcode3' },
+      ]);
+      assert.lengthOf(results, 1);
+    });
+
+    it('does not remove markers replaced by other artifacts', () => {
+      const artifact: ARArtifact = { arContent: 'Fake URL' };
+      const replacement: ARArtifact = { arContent: 'Other URL' };
+      localMarkerStore.addMarker(artifact, { '@type': 'Barcode', 'text': 'Barcode1' });
+      localMarkerStore.addMarker(replacement, { '@type': 'Barcode', 'text': 'Barcode1' });
+
+      assert.equal(localMarkerStore.removeArtifact(artifact), 0);
+      const results = localMarkerStore.findRelevantArtifacts([{ type: 'qrcode', value: 'Barcode1' }]);
+      assert.strictEqual(results[0].artifact, replacement);
+    });
+  });
 });
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { PerceptionToolkitConfig } from '../../perception-toolkit/defs.js';
+import { DEBUG_LEVEL, log } from '../utils/logger.js';
+import { updateConfig } from './config-manager.js';
+
+interface ConfigAttribute {
+  option: keyof PerceptionToolkitConfig;
+  parse(value: string): any;
+}
+
+/*
+ * The attributes of the `<perception-toolkit>` element which set options.
+ */
+const CONFIG_ATTRIBUTES: { [attribute: string]: ConfigAttribute } = {
+  'card-container': { option: 'cardContainer', parse: findElement },
+  'detection-mode': { option: 'detectionMode', parse: (value) => value },
+  'max-cards': { option: 'maxCards', parse: Number },
+};
+
+/*
+ * The child elements whose `src` attributes list the URLs of an option.
+ */
+const CONFIG_CHILDREN: { [tagName: string]: keyof PerceptionToolkitConfig } = {
+  'artifact-source': 'artifactSources',
+  'onboarding-image': 'onboardingImages',
+};
+
+function findElement(selector: string) {
+  let element: HTMLElement | null = null;
+  try {
+    element = document.querySelector(selector);
+  } catch (e) {
+    // An invalid selector matches nothing.
+  }
+
+  if (!element) {
+    log(`No element matches the card-container "${selector}"`, DEBUG_LEVEL.WARNING, 'Config');
+    return;
+  }
+  return element;
+}
+
+function sameValue(a: any, b: any) {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => value === b[index]);
+  }
+  return a === b;
+}
+
+/*
+ * Reads every option which can be declared on the element, leaving those which
+ * are not declared undefined.
+ */
+function readConfig(element: Element): PerceptionToolkitConfig {
+  const config: PerceptionToolkitConfig = {};
+  for (const [attribute, { option, parse }] of Object.entries(CONFIG_ATTRIBUTES)) {
+    const value = element.getAttribute(attribute);
+    config[option] = value === null ? undefined : parse(value);
+  }
+
+  for (const [tagName, option] of Object.entries(CONFIG_CHILDREN)) {
+    const urls = Array.from(element.querySelectorAll(`${tagName}[src]`))
+        .map((child) => child.getAttribute('src') as string);
+    config[option] = urls.length > 0 ? urls : undefined;
+  }
+
+  // Listing onboarding images turns onboarding on.
+  config.onboarding = config.onboardingImages ? true : undefined;
+  return config;
+}
+
+/**
+ * Returns the options declared on a `<perception-toolkit>` element, by its
+ * attributes and child elements:
+ *
+ * ```html
+ * <perception-toolkit detection-mode="active" max-cards="2" card-container="#cards">
+ *   <artifact-source src="/artifacts.json"></artifact-source>
+ *   <onboarding-image src="/onboarding-1.png"></onboarding-image>
+ *   <onboarding-image src="/onboarding-2.png"></onboarding-image>
+ * </perception-toolkit>
+ * ```
+ *
+ * Options which are not declared are left out, so that they can still be set
+ * with `window.PerceptionToolkit.config`.
+ */
+export function configFromElement(element: Element): PerceptionToolkitConfig {
+  const config = readConfig(element);
+  for (const option of Object.keys(config) as Array<keyof PerceptionToolkitConfig>) {
+    if (typeof config[option] === 'undefined') {
+      delete config[option];
+    }
+  }
+  return config;
+}
+
+/**
+ * Applies changes to the options declared on an element with `updateConfig`,
+ * as its attributes and child elements change. Options which stop being
+ * declared are unset, so that their defaults apply. Returns the observer, which
+ * can be disconnected to stop following the element.
+ */
+export function observeConfigElement(element: Element): MutationObserver {
+  let declared = readConfig(element);
+  const observer = new MutationObserver(() => {
+    const config = readConfig(element);
+    const changes: PerceptionToolkitConfig = {};
+    for (const option of Object.keys(config) as Array<keyof PerceptionToolkitConfig>) {
+      if (!sameValue(config[option], declared[option])) {
+        changes[option] = config[option];
+      }
+    }
+
+    declared = config;
+    if (Object.keys(changes).length > 0) {
+      updateConfig(changes);
+    }
+  });
+
+  observer.observe(element, {
+    attributeFilter: [...Object.keys(CONFIG_ATTRIBUTES), 'src'],
+    childList: true,
+    subtree: true,
+  });
+  return observer;
+}
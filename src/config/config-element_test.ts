@@ -0,0 +1,96 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { PerceptionToolkitConfig } from '../../perception-toolkit/defs.js';
+import { configFromElement, observeConfigElement } from './config-element.js';
+import { getConfig } from './config-manager.js';
+
+function mutationsHandled() {
+  return new Promise((resolve) => setTimeout(resolve));
+}
+
+describe('ConfigElement', () => {
+  let initialConfig: PerceptionToolkitConfig;
+  let element: HTMLElement;
+  let cards: HTMLElement;
+
+  beforeEach(() => {
+    initialConfig = { ...getConfig() };
+    element = document.createElement('perception-toolkit');
+    cards = document.createElement('div');
+    cards.id = 'config-element-cards';
+    document.body.appendChild(cards);
+  });
+
+  afterEach(() => {
+    const config = getConfig();
+    for (const key of Object.keys(config) as Array<keyof PerceptionToolkitConfig>) {
+      delete config[key];
+    }
+    Object.assign(config, initialConfig);
+    cards.remove();
+  });
+
+  it('reads attributes', () => {
+    element.setAttribute('detection-mode', 'active');
+    element.setAttribute('max-cards', '2');
+    element.setAttribute('card-container', '#config-element-cards');
+
+    assert.deepEqual(configFromElement(element), {
+      cardContainer: cards,
+      detectionMode: 'active',
+      maxCards: 2,
+    });
+  });
+
+  it('reads child elements', () => {
+    element.innerHTML = `
+      <artifact-source src="/a.json"></artifact-source>
+      <artifact-source src="/b.json"></artifact-source>
+      <onboarding-image src="/onboarding.png"></onboarding-image>`;
+
+    assert.deepEqual(configFromElement(element), {
+      artifactSources: ['/a.json', '/b.json'],
+      onboarding: true,
+      onboardingImages: ['/onboarding.png'],
+    });
+  });
+
+  it('leaves out options which are not declared', () => {
+    element.setAttribute('card-container', '#missing');
+    assert.deepEqual(configFromElement(element), {});
+  });
+
+  it('applies changes', async () => {
+    const observer = observeConfigElement(element);
+    element.setAttribute('max-cards', '3');
+    element.innerHTML = '<artifact-source src="/a.json"></artifact-source>';
+    await mutationsHandled();
+
+    assert.equal(getConfig().maxCards, 3);
+    assert.deepEqual(getConfig().artifactSources, ['/a.json']);
+
+    element.removeAttribute('max-cards');
+    await mutationsHandled();
+    observer.disconnect();
+
+    assert.isUndefined(getConfig().maxCards);
+    assert.deepEqual(getConfig().artifactSources, ['/a.json']);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { PerceptionToolkit, PerceptionToolkitConfig } from '../../perception-toolkit/defs.js';
+import { configChanged, configError } from '../events.js';
+import { fire } from '../utils/fire.js';
+import { DEBUG_LEVEL, log } from '../utils/logger.js';
+import { ConfigErrorDetail, ConfigProblem, hasConfigErrors, validateConfig } from './config-schema.js';
+
+/**
+ * The detail of `configChanged` events: the options which changed, and the
+ * config as it is now.
+ */
+export interface ConfigChangedDetail {
+  changed: Array<keyof PerceptionToolkitConfig>;
+  config: PerceptionToolkitConfig;
+}
+
+/**
+ * Returns the toolkit's config, which is read from (and kept in)
+ * `window.PerceptionToolkit.config`. The same object is returned for as long
+ * as the config is only changed with `updateConfig`, so it may be kept and
+ * read again later.
+ */
+export function getConfig(): PerceptionToolkitConfig {
+  window.PerceptionToolkit = window.PerceptionToolkit || {} as PerceptionToolkit;
+  window.PerceptionToolkit.config = window.PerceptionToolkit.config || {};
+  return window.PerceptionToolkit.config;
+}
+
+/**
+ * Reports problems with the config through the logger, at the level of their
+ * severity, and with a `configError` event on the window.
+ */
+export function reportConfigProblems(problems: ConfigProblem[]) {
+  if (problems.length === 0) {
+    return;
+  }
+
+  for (const { message, severity } of problems) {
+    log(message, severity === 'error' ? DEBUG_LEVEL.ERROR : DEBUG_LEVEL.WARNING, 'Config');
+  }
+
+  const detail: ConfigErrorDetail = { problems };
+  fire(configError, window, detail);
+}
+
+/**
+ * Changes config options while the toolkit is running, and fires a
+ * `configChanged` event on the window with the options which changed. The
+ * changes are only made if none of them are in error; any problems, including
+ * warnings, are reported with `reportConfigProblems`. Returns the options which
+ * changed.
+ *
+ * ```javascript
+ * // Only detect when the user taps, to save power.
+ * updateConfig({ detectionMode: 'active' });
+ * ```
+ */
+export function updateConfig(changes: PerceptionToolkitConfig): Array<keyof PerceptionToolkitConfig> {
+  const config = getConfig();
+  const changed = (Object.keys(changes) as Array<keyof PerceptionToolkitConfig>)
+      .filter((key) => config[key] !== changes[key]);
+  if (changed.length === 0) {
+    return [];
+  }
+
+  const problems = validateConfig({ ...config, ...changes }, changed);
+  reportConfigProblems(problems);
+  if (hasConfigErrors(problems)) {
+    return [];
+  }
+
+  Object.assign(config, changes);
+  const detail: ConfigChangedDetail = { changed, config };
+  fire(configChanged, window, detail);
+  return changed;
+}
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { spy } from 'sinon';
+import { PerceptionToolkitConfig } from '../../perception-toolkit/defs.js';
+import { configChanged, configError } from '../events.js';
+import { getConfig, updateConfig } from './config-manager.js';
+
+describe('ConfigManager', () => {
+  let initialConfig: PerceptionToolkitConfig;
+
+  beforeEach(() => {
+    initialConfig = { ...getConfig() };
+  });
+
+  afterEach(() => {
+    const config = getConfig();
+    for (const key of Object.keys(config) as Array<keyof PerceptionToolkitConfig>) {
+      delete config[key];
+    }
+    Object.assign(config, initialConfig);
+  });
+
+  it('keeps the config on the global', () => {
+    assert.strictEqual(getConfig(), window.PerceptionToolkit.config);
+    assert.strictEqual(getConfig(), getConfig());
+  });
+
+  it('updates the config in place', () => {
+    const config = getConfig();
+    assert.deepEqual(updateConfig({ detectionMode: 'active', maxCards: 2 }), ['detectionMode', 'maxCards']);
+    assert.strictEqual(getConfig(), config);
+    assert.equal(config.detectionMode, 'active');
+    assert.equal(config.maxCards, 2);
+  });
+
+  it('fires change events', () => {
+    const onConfigChanged = spy();
+    window.addEventListener(configChanged, onConfigChanged);
+    updateConfig({ detectionMode: 'burst' });
+    window.removeEventListener(configChanged, onConfigChanged);
+
+    assert.isTrue(onConfigChanged.calledOnce);
+    const { detail } = onConfigChanged.firstCall.args[0] as CustomEvent;
+    assert.deepEqual(detail.changed, ['detectionMode']);
+    assert.strictEqual(detail.config, getConfig());
+  });
+
+  it('ignores options which are unchanged', () => {
+    updateConfig({ detectionMode: 'burst' });
+
+    const onConfigChanged = spy();
+    window.addEventListener(configChanged, onConfigChanged);
+    assert.lengthOf(updateConfig({ detectionMode: 'burst' }), 0);
+    window.removeEventListener(configChanged, onConfigChanged);
+    assert.isFalse(onConfigChanged.called);
+  });
+
+  it('refuses invalid changes', () => {
+    updateConfig({ maxCards: 1 });
+    assert.lengthOf(updateConfig({ maxCards: 3, detectionMode: 'pasive' } as {}), 0);
+    assert.equal(getConfig().maxCards, 1);
+  });
+
+  it('reports invalid changes', () => {
+    const onConfigError = spy();
+    window.addEventListener(configError, onConfigError);
+    updateConfig({ detectionMode: 'pasive' } as {});
+    window.removeEventListener(configError, onConfigError);
+
+    assert.isTrue(onConfigError.calledOnce);
+    const { detail } = onConfigError.firstCall.args[0] as CustomEvent;
+    assert.lengthOf(detail.problems, 1);
+    assert.equal(detail.problems[0].option, 'detectionMode');
+  });
+
+  it('makes changes which only have warnings', () => {
+    const onConfigError = spy();
+    window.addEventListener(configError, onConfigError);
+    const changed = updateConfig({ button: document.createElement('button'), buttonSelector: '#start' });
+    window.removeEventListener(configError, onConfigError);
+
+    assert.deepEqual(changed, ['button', 'buttonSelector']);
+    assert.isTrue(onConfigError.calledOnce);
+    const { detail } = onConfigError.firstCall.args[0] as CustomEvent;
+    assert.equal(detail.problems[0].severity, 'warning');
+  });
+});
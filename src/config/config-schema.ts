@@ -0,0 +1,285 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { PerceptionToolkitConfig } from '../../perception-toolkit/defs.js';
+
+/**
+ * How serious a problem with the config is. Errors are values which can't be
+ * used, and warnings are combinations which are valid but likely mistaken.
+ */
+export type ConfigSeverity = 'error' | 'warning';
+
+/**
+ * A problem with the config: the option it concerns, what is wrong, and how
+ * serious it is.
+ */
+export interface ConfigProblem {
+  option: keyof PerceptionToolkitConfig;
+  message: string;
+  severity: ConfigSeverity;
+}
+
+/**
+ * The detail of `configError` events.
+ */
+export interface ConfigErrorDetail {
+  problems: ConfigProblem[];
+}
+
+type ValueType =
+    'array' |      // Any list.
+    'boolean' |
+    'element' |    // An HTMLElement.
+    'function' |
+    'number' |
+    'object' |     // Any other object.
+    'origins' |    // A list of origins, e.g. `https://example.com`.
+    'string' |
+    'strings' |    // A list of strings.
+    'url' |        // An absolute or relative http(s) URL.
+    'urls';        // A list of such URLs.
+
+interface OptionSchema {
+  type: ValueType | ValueType[];
+  values?: string[];  // The strings which are allowed, if limited.
+  integer?: boolean;
+  min?: number;
+  max?: number;
+}
+
+interface ConfigRule {
+  options: Array<keyof PerceptionToolkitConfig>;
+  severity?: ConfigSeverity;  // Defaults to 'error'.
+  check(config: PerceptionToolkitConfig): string | undefined;
+}
+
+/*
+ * How each option may be set. Every option must be described here, so that
+ * new options are validated too.
+ */
+const CONFIG_SCHEMA: { [option in keyof Required<PerceptionToolkitConfig>]: OptionSchema } = {
+  acknowledgeUnknownItems: { type: 'boolean' },
+  adaptiveCapture: { type: 'boolean' },
+  anchorCards: { type: 'boolean' },
+  arOverlays: { type: 'boolean' },
+  artifactSources: { type: 'urls' },
+  artifactStores: { type: 'array' },
+  barcodeFormats: { type: 'strings' },
+  button: { type: 'element' },
+  buttonSelector: { type: 'string' },
+  buttonVisibilityClass: { type: 'string' },
+  cacheArtifacts: { type: 'boolean' },
+  cameraControls: { type: 'boolean' },
+  cameraFieldOfView: { type: 'number', min: 1, max: 179 },
+  cameraIntrinsics: { type: 'object' },
+  cameraResolution: { type: 'object' },
+  captureBitmaps: { type: 'boolean' },
+  captureBudget: { type: 'number', min: 0, max: 1 },
+  cardContainer: { type: 'element' },
+  cardMainEntityLabel: { type: 'string' },
+  cardShouldLaunchNewWindow: { type: 'boolean' },
+  cardUrlLabel: { type: 'string' },
+  combineDetectors: { type: 'boolean' },
+  cropToReticle: { type: 'boolean' },
+  debugLevel: { type: 'string', values: ['error', 'warning', 'info', 'verbose', 'none'] },
+  detectionMode: { type: 'string', values: ['active', 'passive', 'burst'] },
+  detectors: { type: ['string', 'object'], values: ['all', 'lazy'] },
+  highlightTargets: { type: 'boolean' },
+  hintTimeout: { type: 'number', min: 0 },
+  maxCards: { type: 'number', integer: true, min: 0 },
+  minConfidence: { type: 'number', min: 0, max: 1 },
+  minConsecutiveFrames: { type: 'number', integer: true, min: 1 },
+  onboarding: { type: 'boolean' },
+  onboardingImages: { type: 'urls' },
+  onload: { type: 'function' },
+  preferredCameraLabel: { type: 'string' },
+  recordSession: { type: ['boolean', 'object'] },
+  replaySource: { type: ['url', 'urls'] },
+  root: { type: 'string' },
+  shouldLoadArtifactsFrom: { type: ['function', 'origins'] },
+  showLoaderDuringBoot: { type: 'boolean' },
+  strictConfig: { type: 'boolean' },
+  trackGeolocation: { type: 'boolean' },
+  trackImages: { type: 'boolean' },
+};
+
+/*
+ * Rules which concern several options, and which catch options that would
+ * otherwise be silently ignored.
+ */
+const CONFIG_RULES: ConfigRule[] = [
+  {
+    check: ({ onboarding, onboardingImages }) => {
+      if (onboarding && (!onboardingImages || onboardingImages.length === 0)) {
+        return 'onboarding requires onboardingImages';
+      }
+    },
+    options: ['onboarding', 'onboardingImages']
+  },
+  {
+    check: ({ button, buttonSelector }) => {
+      if (button && buttonSelector) {
+        return 'button and buttonSelector are both set, so buttonSelector is ignored';
+      }
+    },
+    options: ['button', 'buttonSelector'],
+    severity: 'warning'
+  },
+  {
+    check: ({ anchorCards, cardContainer }) => {
+      if (anchorCards && !cardContainer) {
+        return 'anchorCards requires a cardContainer';
+      }
+    },
+    options: ['anchorCards', 'cardContainer']
+  },
+  {
+    check: ({ combineDetectors, detectors }) => {
+      const usesImages = !detectors || typeof detectors === 'string' || !!detectors.image;
+      const usesBarcodes = !detectors || typeof detectors === 'string' || detectors.barcode !== false;
+      if (combineDetectors && !(usesImages && usesBarcodes)) {
+        return 'combineDetectors requires both the barcode and image detectors';
+      }
+    },
+    options: ['combineDetectors', 'detectors']
+  },
+];
+
+function isUrl(value: any) {
+  if (typeof value !== 'string') {
+    return false;
+  }
+
+  try {
+    const { protocol } = new URL(value, document.baseURI);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch (e) {
+    return false;
+  }
+}
+
+function isOrigin(value: any) {
+  try {
+    return typeof value === 'string' && new URL(value).origin === value;
+  } catch (e) {
+    return false;
+  }
+}
+
+function hasType(value: any, type: ValueType) {
+  switch (type) {
+    case 'array': return Array.isArray(value);
+    case 'element': return value instanceof HTMLElement;
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+          !(value instanceof HTMLElement);
+    case 'origins': return Array.isArray(value) && value.every(isOrigin);
+    case 'strings': return Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+    case 'url': return isUrl(value);
+    case 'urls': return Array.isArray(value) && value.every(isUrl);
+    default: return typeof value === type;
+  }
+}
+
+const TYPE_NAMES: { [type in ValueType]: string } = {
+  array: 'a list',
+  boolean: 'true or false',
+  element: 'an element',
+  function: 'a function',
+  number: 'a number',
+  object: 'an object',
+  origins: 'a list of origins',
+  string: 'a string',
+  strings: 'a list of strings',
+  url: 'an http(s) URL',
+  urls: 'a list of http(s) URLs',
+};
+
+function validateOption(option: keyof PerceptionToolkitConfig, value: any): string | undefined {
+  const { type, values, integer, min, max } = CONFIG_SCHEMA[option];
+  const types = Array.isArray(type) ? type : [type];
+  if (!types.some((t) => hasType(value, t))) {
+    return `${option} must be ${types.map((t) => TYPE_NAMES[t]).join(' or ')}`;
+  }
+
+  if (values && typeof value === 'string' && !values.includes(value)) {
+    return `${option} must be one of ${values.map((v) => `'${v}'`).join(', ')}, not '${value}'`;
+  }
+
+  if (typeof value === 'number') {
+    if (integer && !Number.isInteger(value)) {
+      return `${option} must be a whole number`;
+    }
+
+    if ((typeof min === 'number' && value < min) || (typeof max === 'number' && value > max)) {
+      return `${option} must be ${typeof max === 'number' ? `between ${min} and ${max}` : `at least ${min}`}`;
+    }
+  }
+}
+
+/**
+ * Returns the problems with the config: options with values of the wrong type
+ * or shape, and combinations of options which conflict or would be ignored.
+ * Options which are not set are not checked.
+ *
+ * If the options which are `changing` are given, only problems which concern
+ * them are returned.
+ */
+export function validateConfig(config: PerceptionToolkitConfig,
+                               changing?: Array<keyof PerceptionToolkitConfig>): ConfigProblem[] {
+  const options = changing || Object.keys(config) as Array<keyof PerceptionToolkitConfig>;
+  const problems: ConfigProblem[] = [];
+  for (const option of options) {
+    const value = config[option];
+    if (typeof value === 'undefined' || !(option in CONFIG_SCHEMA)) {
+      continue;
+    }
+
+    const message = validateOption(option, value);
+    if (message) {
+      problems.push({ option, message, severity: 'error' });
+    }
+  }
+
+  for (const rule of CONFIG_RULES) {
+    if (!rule.options.some((option) => options.includes(option))) {
+      continue;
+    }
+
+    const message = rule.check(config);
+    if (message) {
+      problems.push({ option: rule.options[0], message, severity: rule.severity || 'error' });
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Returns whether any of the problems are errors, rather than warnings.
+ */
+export function hasConfigErrors(problems: ConfigProblem[]) {
+  return problems.some(({ severity }) => severity === 'error');
+}
+
+/**
+ * Returns the names of any options which the toolkit does not know, which are
+ * often typos. Custom detectors may read options of their own.
+ */
+export function unknownOptions(config: PerceptionToolkitConfig): string[] {
+  return Object.keys(config).filter((option) => !(option in CONFIG_SCHEMA));
+}
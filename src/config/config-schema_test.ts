@@ -0,0 +1,99 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { PerceptionToolkitConfig } from '../../perception-toolkit/defs.js';
+import { hasConfigErrors, unknownOptions, validateConfig } from './config-schema.js';
+
+function problemsWith(config: {}) {
+  return validateConfig(config as PerceptionToolkitConfig).map(({ option }) => option);
+}
+
+describe('ConfigSchema', () => {
+  it('accepts valid options', () => {
+    assert.lengthOf(validateConfig({
+      artifactSources: ['/artifacts.json', 'https://example.com/artifacts.json'],
+      cameraFieldOfView: 60,
+      detectionMode: 'passive',
+      detectors: { barcode: true },
+      maxCards: 2,
+      shouldLoadArtifactsFrom: ['https://example.com'],
+    }), 0);
+  });
+
+  it('ignores options which are not set', () => {
+    assert.lengthOf(validateConfig({ maxCards: undefined }), 0);
+  });
+
+  it('checks types', () => {
+    assert.deepEqual(problemsWith({ arOverlays: 'yes' }), ['arOverlays']);
+    assert.deepEqual(problemsWith({ maxCards: '2' }), ['maxCards']);
+    assert.deepEqual(problemsWith({ barcodeFormats: ['qr_code', 1] }), ['barcodeFormats']);
+    assert.deepEqual(problemsWith({ cardContainer: '#cards' }), ['cardContainer']);
+    assert.deepEqual(problemsWith({ shouldLoadArtifactsFrom: () => true }), []);
+  });
+
+  it('checks allowed values', () => {
+    const problems = validateConfig({ detectionMode: 'pasive' } as {});
+    assert.lengthOf(problems, 1);
+    assert.include(problems[0].message, `'pasive'`);
+    assert.deepEqual(problemsWith({ detectors: 'everything' }), ['detectors']);
+  });
+
+  it('checks numeric ranges', () => {
+    assert.deepEqual(problemsWith({ minConfidence: 1.5 }), ['minConfidence']);
+    assert.deepEqual(problemsWith({ captureBudget: -0.1 }), ['captureBudget']);
+    assert.deepEqual(problemsWith({ maxCards: 1.5 }), ['maxCards']);
+    assert.deepEqual(problemsWith({ minConsecutiveFrames: 0 }), ['minConsecutiveFrames']);
+  });
+
+  it('checks URLs and origins', () => {
+    assert.deepEqual(problemsWith({ artifactSources: ['javascript:alert(1)'] }), ['artifactSources']);
+    assert.deepEqual(problemsWith({ artifactSources: '/artifacts.json' }), ['artifactSources']);
+    assert.deepEqual(problemsWith({ shouldLoadArtifactsFrom: ['https://example.com/path'] }),
+        ['shouldLoadArtifactsFrom']);
+  });
+
+  it('checks combinations of options', () => {
+    assert.deepEqual(problemsWith({ onboarding: true }), ['onboarding']);
+    assert.deepEqual(problemsWith({ onboarding: true, onboardingImages: ['/onboarding.png'] }), []);
+    assert.deepEqual(problemsWith({ anchorCards: true }), ['anchorCards']);
+    assert.deepEqual(problemsWith({ combineDetectors: true, detectors: { barcode: true } }),
+        ['combineDetectors']);
+    assert.deepEqual(problemsWith({ combineDetectors: true, detectors: 'all' }), []);
+  });
+
+  it('reports likely mistakes as warnings', () => {
+    const problems = validateConfig({ button: document.createElement('button'), buttonSelector: '#start' });
+    assert.deepEqual(problems.map(({ option, severity }) => ({ option, severity })),
+        [{ option: 'button', severity: 'warning' }]);
+    assert.isFalse(hasConfigErrors(problems));
+    assert.isTrue(hasConfigErrors(validateConfig({ maxCards: -1 })));
+  });
+
+  it('only reports problems with changing options', () => {
+    const config = { maxCards: -1, onboarding: true } as PerceptionToolkitConfig;
+    assert.lengthOf(validateConfig(config, ['detectionMode']), 0);
+    assert.deepEqual(validateConfig(config, ['onboardingImages']).map(({ option }) => option),
+        ['onboarding']);
+  });
+
+  it('finds unknown options', () => {
+    assert.deepEqual(unknownOptions({ maxCard: 2, maxCards: 2 } as {}), ['maxCard']);
+  });
+});
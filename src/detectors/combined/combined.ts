@@ -0,0 +1,264 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DetectedBarcode } from '../../../defs/barcode.js';
+import { DetectableImage, DetectedImage } from '../../../defs/detected-image.js';
+import { DetectionFrame } from '../../../defs/frame.js';
+import { Marker } from '../../../defs/marker.js';
+import { PlanarDetection } from '../../../defs/planar-target.js';
+import { normalizeBarcodeFormat } from '../../utils/barcode-format.js';
+import { boundingBoxOf } from '../../utils/geometry.js';
+import { DEBUG_LEVEL, log } from '../../utils/logger.js';
+import { Detector, DetectorContext } from '../detector.js';
+import { barcodeToMarker } from '../marker/barcode.js';
+import { getTargetDataUrls } from '../planar-image/planar-image.js';
+
+declare global {
+  interface Window {
+    detectionWorker?: Worker;
+  }
+}
+
+interface ProcessResult {
+  barcodes: DetectedBarcode[];
+  images: PlanarDetection[];
+}
+
+export interface CombinedDetectionOptions {
+  barcodes?: boolean;  // Whether to detect barcodes (default: true).
+  scale?: number;  // How much to scale frames by before detection.
+}
+
+/**
+ * CombinedDetection runs barcode and planar image detection in a single
+ * worker, so that each frame is only sent to (and read by) one worker.
+ *
+ * `ImageBitmap`s and `VideoFrame`s are transferred to the worker, rather than
+ * copied, so can't be used again once detection has started. `ImageData` is
+ * copied. Either way, frames are downscaled in the worker before detection.
+ */
+export class CombinedDetection {
+  private readonly worker: Worker;
+  private readonly isReadyInternal: Promise<void>;
+  private readonly targets = new Map<number, string>();  // Image ids, by planar index.
+  private readonly workerMessageCallbacks = new Map<number, (data: any) => void>();
+  private messageCount = 0;
+
+  constructor(root = '') {
+    this.worker = new Worker(`${root}/lib/planar/detection_worker.js`);
+    this.isReadyInternal = new Promise((resolve, reject) => {
+      this.worker.onerror = (e) => {
+        reject(new Error(`Unable to load the detection worker: ${e.message}`));
+      };
+
+      this.worker.onmessage = (e) => {
+        /* istanbul ignore if */
+        if (e.data === 'ready') {
+          resolve();
+          return;
+        }
+
+        const { msgId, data } = e.data;
+        const callback = this.workerMessageCallbacks.get(msgId);
+        if (!callback) {
+          return;
+        }
+
+        this.workerMessageCallbacks.delete(msgId);
+        callback(data);
+      };
+    });
+
+    this.worker.postMessage(root);
+
+    // Attempt to prevent worker GC.
+    window.detectionWorker = this.worker;
+  }
+
+  get isReady() {
+    return this.isReadyInternal;
+  }
+
+  /**
+   * Detects barcodes, and the images which have been added, in a frame.
+   */
+  async detect(frame: DetectionFrame, { barcodes = true, scale }: CombinedDetectionOptions = {}):
+      Promise<{ markers: Marker[], images: DetectedImage[] }> {
+    const startTime = performance.now();
+    const result: ProcessResult | null =
+        await this.send({ type: 'process', data: frame, barcodes, images: this.targets.size > 0, scale }, frame);
+    log(`Time taken (ms): ${performance.now() - startTime}`, DEBUG_LEVEL.VERBOSE);
+
+    // The worker was terminated before it could answer.
+    if (!result) {
+      return { images: [], markers: [] };
+    }
+
+    return {
+      images: this.toImages(result.images),
+      markers: result.barcodes.map(barcodeToMarker),
+    };
+  }
+
+  /**
+   * Follows the images found by the last detection into a new frame, which
+   * must be scaled in the same way.
+   */
+  async track(frame: DetectionFrame, { scale }: CombinedDetectionOptions = {}): Promise<DetectedImage[]> {
+    if (this.targets.size === 0) {
+      return [];
+    }
+
+    return this.toImages(await this.send({ type: 'track', data: frame, scale }, frame) || []);
+  }
+
+  async addTarget(data: Uint8Array, id: string): Promise<number> {
+    const { idx } = await this.send({ type: 'add', data, id });
+    this.targets.set(idx, id);
+    log(`Target stored: ${id}, number ${idx}`, DEBUG_LEVEL.VERBOSE);
+    return idx;
+  }
+
+  async removeTarget(idx: number) {
+    await this.send({ type: 'remove', data: idx });
+    this.targets.delete(idx);
+    log(`Target removed: number ${idx}`, DEBUG_LEVEL.VERBOSE);
+  }
+
+  async clear() {
+    for (const idx of Array.from(this.targets.keys())) {
+      await this.removeTarget(idx);
+    }
+    await this.send({ type: 'reset' });
+  }
+
+  /**
+   * Terminates the worker, releasing its targets. Requests which have not been
+   * answered resolve to empty results, and the detection can't be used
+   * afterwards.
+   */
+  terminate() {
+    this.worker.terminate();
+    this.targets.clear();
+
+    const callbacks = Array.from(this.workerMessageCallbacks.values());
+    this.workerMessageCallbacks.clear();
+    for (const callback of callbacks) {
+      callback(null);
+    }
+  }
+
+  private toImages(detections: PlanarDetection[]): DetectedImage[] {
+    const images: DetectedImage[] = [];
+    for (const { id, cornerPoints, confidence } of detections) {
+      const imageId = this.targets.get(id);
+      if (imageId) {
+        images.push({ id: imageId, boundingBox: boundingBoxOf(cornerPoints), confidence, cornerPoints });
+      }
+    }
+    return images;
+  }
+
+  private send(msg: {}, frame?: DetectionFrame): Promise<any> {
+    const msgId = this.messageCount++;
+    return new Promise((resolve) => {
+      this.workerMessageCallbacks.set(msgId, resolve);
+
+      // Transfer frames which can be, rather than copying them.
+      const transfer: Transferable[] = frame && !('data' in frame) ? [frame as ImageBitmap] : [];
+      this.worker.postMessage({ ...msg, msgId }, transfer);
+    });
+  }
+}
+
+/**
+ * Creates a detector which detects both barcodes and images, in place of the
+ * built-in `barcode` and `image` detectors, using a single worker. It is used
+ * when `combineDetectors` is set in the config.
+ */
+export function createCombinedDetector({ config: { barcodeFormats, trackImages = false }, fetchBytes, root }:
+                                           DetectorContext): Detector {
+  // The planar indexes for each image target id.
+  const targetIndexes = new Map<string, number[]>();
+  const formats = barcodeFormats && barcodeFormats.map(normalizeBarcodeFormat);
+  let detection: CombinedDetection | undefined;
+  const getDetection = () => {
+    if (!detection) {
+      detection = new CombinedDetection(root);
+    }
+    return detection;
+  };
+
+  const combinedDetector: Detector = {
+    // Barcodes are detected whether or not there are any image targets.
+    needsTargets: false,
+
+    async init() {
+      await getDetection().isReady;
+    },
+
+    async detect(frame: DetectionFrame) {
+      const { markers, images } = await getDetection().detect(frame);
+      return {
+        images,
+        markers: formats ? markers.filter(({ type }) => formats.includes(normalizeBarcodeFormat(type))) : markers,
+      };
+    },
+
+    async addTarget(image: DetectableImage) {
+      const indexes: number[] = [];
+      for (const url of getTargetDataUrls(image)) {
+        log(`Loading ${url}`, DEBUG_LEVEL.VERBOSE);
+
+        try {
+          indexes.push(await getDetection().addTarget(await fetchBytes(url), image.id));
+        } catch (e) {
+          log(`Unable to load ${url}`, DEBUG_LEVEL.WARNING);
+        }
+      }
+
+      if (indexes.length === 0) {
+        return false;
+      }
+
+      targetIndexes.set(image.id, indexes);
+      return true;
+    },
+
+    async removeTarget(id: string) {
+      for (const index of targetIndexes.get(id) || []) {
+        await getDetection().removeTarget(index);
+      }
+      targetIndexes.delete(id);
+    },
+
+    async dispose() {
+      targetIndexes.clear();
+      if (detection) {
+        detection.terminate();
+        detection = undefined;
+      }
+    },
+  };
+
+  // Tracked images can be followed between captured frames.
+  if (trackImages) {
+    combinedDetector.track = async (frame: ImageData) => ({ images: await getDetection().track(frame) });
+  }
+
+  return combinedDetector;
+}
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { CombinedDetection, createCombinedDetector } from './combined.js';
+
+async function loadDataFile() {
+  const response = await fetch('/base/test-assets/lighthouse.pb');
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+async function drawImage(scale = 1) {
+  const response = await fetch('/base/test-assets/lighthouse.jpg');
+  const bitmap = await createImageBitmap(await response.blob());
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+
+  canvas.width = 640 * scale;
+  canvas.height = 480 * scale;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 100 * scale, 100 * scale, 325 * scale, 213 * scale);
+  return ctx;
+}
+
+async function loadImageAsBitmap() {
+  return createImageBitmap((await drawImage()).canvas);
+}
+
+async function loadImageAsImageData() {
+  return (await drawImage()).getImageData(0, 0, 640, 480);
+}
+
+describe('Combined Detector', () => {
+  const image = {
+    id: 'Lighthouse',
+    media: [{
+      '@type': 'MediaObject',
+      'contentUrl': '/base/test-assets/lighthouse.pb',
+      'encodingFormat': 'application/octet+pd'
+    }]
+  };
+
+  it('detects images in transferred frames', async () => {
+    const detection = new CombinedDetection('/base');
+    await detection.isReady;
+    await detection.addTarget(await loadDataFile(), 'Lighthouse');
+
+    const frame = await loadImageAsBitmap();
+    const { images, markers } = await detection.detect(frame);
+    assert.lengthOf(markers, 0);
+    assert.lengthOf(images, 1);
+    assert.equal(images[0].id, 'Lighthouse');
+
+    // The image was drawn at (100, 100).
+    const { x, y } = images[0].boundingBox!;
+    assert.approximately(x, 100, 20);
+    assert.approximately(y, 100, 20);
+
+    // The frame was transferred to the worker.
+    assert.equal(frame.width, 0);
+    await detection.clear();
+  });
+
+  it('detects images in copied frames', async () => {
+    const detector = createCombinedDetector({ config: {}, fetchBytes: loadDataFile, root: '/base' });
+    await detector.init();
+    assert.isTrue(await detector.addTarget!(image));
+
+    const { images = [] } = await detector.detect(await loadImageAsImageData());
+    assert.lengthOf(images, 1);
+    assert.equal(images[0].id, 'Lighthouse');
+    await detector.dispose();
+  });
+
+  it('downscales large copied frames', async () => {
+    const detection = new CombinedDetection('/base');
+    await detection.isReady;
+    await detection.addTarget(await loadDataFile(), 'Lighthouse');
+
+    const frame = (await drawImage(3)).getImageData(0, 0, 1920, 1440);
+    const { images } = await detection.detect(frame);
+    assert.lengthOf(images, 1);
+
+    // The image was drawn at (300, 300), and is located in the whole frame.
+    const { x, y } = images[0].boundingBox!;
+    assert.approximately(x, 300, 60);
+    assert.approximately(y, 300, 60);
+    await detection.clear();
+  });
+
+  it('only detects images while they are targets', async () => {
+    const detector = createCombinedDetector({ config: {}, fetchBytes: loadDataFile, root: '/base' });
+    await detector.init();
+    await detector.addTarget!(image);
+    await detector.removeTarget!('Lighthouse');
+
+    const { images = [] } = await detector.detect(await loadImageAsImageData());
+    assert.lengthOf(images, 0);
+    await detector.dispose();
+  });
+
+  it('ignores images without planar target data', async () => {
+    const detector = createCombinedDetector({ config: {}, fetchBytes: loadDataFile, root: '/base' });
+    assert.isFalse(await detector.addTarget!({ id: 'Other', media: [] }));
+  });
+});
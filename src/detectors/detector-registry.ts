@@ -0,0 +1,47 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DetectorFactory } from './detector.js';
+
+const factories = new Map<string, DetectorFactory>();
+
+/**
+ * Registers a detector under a name, by which it can be referred to in the
+ * `detectors` config. Registering a name again replaces its detector, which
+ * allows the built-in `barcode` and `image` detectors to be swapped out.
+ *
+ * ```javascript
+ * registerDetector('price', ({ root }) => new PriceReader(`${root}/models`));
+ * ```
+ */
+export function registerDetector(name: string, factory: DetectorFactory) {
+  factories.set(name, factory);
+}
+
+/**
+ * Returns the factory for the detector registered under a name, if any.
+ */
+export function getDetectorFactory(name: string): DetectorFactory | undefined {
+  return factories.get(name);
+}
+
+/**
+ * Returns the names of all registered detectors.
+ */
+export function getDetectorNames(): string[] {
+  return Array.from(factories.keys());
+}
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { getDetectorFactory, getDetectorNames, registerDetector } from './detector-registry.js';
+import { Detector } from './detector.js';
+
+describe('DetectorRegistry', () => {
+  function createDetector(): Detector {
+    return {
+      async init() {
+        // Nothing to load.
+      },
+
+      async detect() {
+        return { markers: [{ type: 'text', value: 'foo' }] };
+      },
+
+      async dispose() {
+        // Nothing to release.
+      },
+    };
+  }
+
+  it('registers detectors by name', () => {
+    registerDetector('registry-test', createDetector);
+    assert.equal(getDetectorFactory('registry-test'), createDetector);
+    assert.include(getDetectorNames(), 'registry-test');
+  });
+
+  it('replaces detectors registered under the same name', () => {
+    const replacement = () => createDetector();
+    registerDetector('registry-replace-test', createDetector);
+    registerDetector('registry-replace-test', replacement);
+
+    assert.equal(getDetectorFactory('registry-replace-test'), replacement);
+    assert.equal(getDetectorNames().filter((name) => name === 'registry-replace-test').length, 1);
+  });
+
+  it('returns undefined for unknown detectors', () => {
+    assert.isUndefined(getDetectorFactory('registry-unknown-test'));
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DetectableImage, DetectedImage } from '../../defs/detected-image.js';
+import { DetectionFrame } from '../../defs/frame.js';
+import { Marker } from '../../defs/marker.js';
+import { PerceptionToolkitConfig } from '../../perception-toolkit/defs.js';
+
+/**
+ * The targets found in a frame, which are added to the `PerceptionState`.
+ */
+export interface Detections {
+  markers?: Marker[];
+  images?: DetectedImage[];
+}
+
+/**
+ * What a detector is given when it is created.
+ */
+export interface DetectorContext {
+  /**
+   * The toolkit's configuration.
+   */
+  config: PerceptionToolkitConfig;
+
+  /**
+   * The location from which the toolkit is loaded.
+   */
+  root: string;
+
+  /**
+   * Fetches the bytes of a file, such as the data for a target, using the
+   * artifact cache if it is enabled.
+   */
+  fetchBytes(url: string): Promise<Uint8Array>;
+}
+
+/**
+ * A detector finds targets in captured frames. Detectors are created by the
+ * factory registered for their name (see `registerDetector`), and are used by
+ * the toolkit according to the `detectors` config.
+ */
+export interface Detector {
+  /**
+   * Whether the detector only needs to be used while it has targets, which is
+   * assumed for detectors that support `addTarget`.
+   */
+  readonly needsTargets?: boolean;
+
+  /**
+   * Prepares the detector for use, e.g. by loading any models or workers. This
+   * is called before any other method, and again if the detector is used after
+   * being disposed.
+   */
+  init(): Promise<void>;
+
+  /**
+   * Finds targets in a frame. Frames other than `ImageData` may be transferred
+   * to a worker, so each detector is given a frame of its own; detectors which
+   * need the pixels on the main thread can use `readImageData`.
+   */
+  detect(frame: DetectionFrame): Promise<Detections>;
+
+  /**
+   * Follows the targets found by the last call to `detect` into a new frame.
+   * This is optional, and is used to update targets between captured frames.
+   */
+  track?(frame: ImageData): Promise<Detections>;
+
+  /**
+   * Starts detecting an image, resolving to whether the detector is able to.
+   * Detectors which support this are only used while they have targets, unless
+   * `needsTargets` is false.
+   */
+  addTarget?(image: DetectableImage): Promise<boolean>;
+
+  /**
+   * Stops detecting an image.
+   */
+  removeTarget?(id: string): Promise<void>;
+
+  /**
+   * Releases the detector's targets and resources.
+   */
+  dispose(): Promise<void>;
+}
+
+export type DetectorFactory = (context: DetectorContext) => Detector;
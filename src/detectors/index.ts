@@ -15,5 +15,8 @@
  * limitations under the License.
  */
 
+export * from './combined/combined.js';
+export * from './detector.js';
+export * from './detector-registry.js';
 export * from './marker/barcode.js';
 export * from './planar-image/planar-image.js';
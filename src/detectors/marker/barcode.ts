@@ -21,23 +21,68 @@ declare global {
   }
 }
 
-import { BarcodeDetector } from '../../../defs/barcode.js';
+import { BarcodeDetector, DetectedBarcode } from '../../../defs/barcode.js';
+import { DetectionFrame } from '../../../defs/frame.js';
 import { Marker } from '../../../defs/marker.js';
+import { scoreQuad } from '../../utils/geometry.js';
 import { injectScript } from '../../utils/inject-script.js';
 import { DEBUG_LEVEL, log } from '../../utils/logger.js';
+import { readImageData } from '../../utils/read-image-data.js';
+import { Detector, DetectorContext } from '../detector.js';
 
-let detector: BarcodeDetector;
+interface BarcodeDetectionOptions {
+  context?: Window;
+  forceNewDetector?: boolean;
+  polyfillRequired?: boolean;
+  root?: string;
+  formats?: string[];
+}
+
+/*
+ * A BarcodeDetector, and the formats it was created for. Each `barcode`
+ * detector has a reader of its own, so that detectors with different formats
+ * do not keep replacing each other's BarcodeDetector.
+ */
+interface BarcodeReader {
+  detector?: BarcodeDetector;
+  formats?: string[];
+}
+
+// The reader used by `detectBarcodes`.
+const sharedReader: BarcodeReader = {};
 
 /**
  * Detects barcodes from image sources.
+ *
+ * If `formats` is provided only barcodes of those formats (e.g. `qr_code`) are
+ * returned. A native detector may skip the symbologies that are not used, but
+ * the polyfill's reader can't be restricted, so it still decodes every format
+ * and discards barcodes in the others.
  */
 export async function detectBarcodes(data: ImageData | ImageBitmap | HTMLCanvasElement,
-                                     {
-                                       context = window,
-                                       forceNewDetector = false,
-                                       polyfillRequired = false,
-                                       root = ''
-                                     } = {}): Promise<Marker[]> {
+                                     options: BarcodeDetectionOptions = {}): Promise<Marker[]> {
+  return readBarcodes(sharedReader, data, options);
+}
+
+/*
+ * Releases a reader's BarcodeDetector, terminating the polyfill's worker.
+ */
+function closeReader(reader: BarcodeReader) {
+  if (reader.detector && reader.detector.close) {
+    reader.detector.close();
+  }
+  reader.detector = undefined;
+  reader.formats = undefined;
+}
+
+async function readBarcodes(reader: BarcodeReader, data: ImageData | ImageBitmap | HTMLCanvasElement,
+                            {
+                              context = window,
+                              forceNewDetector = false,
+                              polyfillRequired = false,
+                              root = '',
+                              formats
+                            }: BarcodeDetectionOptions): Promise<Marker[]> {
 
   const loadPolyfill = polyfillRequired ||
       (context === window && !('BarcodeDetector' in context));
@@ -47,24 +92,23 @@ export async function detectBarcodes(data: ImageData | ImageBitmap | HTMLCanvasE
     await injectScript(`${root}/lib/polyfills/barcode-detector.js`);
   }
 
-  /* istanbul ignore else */
-  if (!detector || forceNewDetector) {
-    detector = new context.BarcodeDetector();
-  }
+  try {
+    /* istanbul ignore else */
+    if (!reader.detector || forceNewDetector || !sameFormats(formats, reader.formats)) {
+      closeReader(reader);
+      reader.detector = formats ? new context.BarcodeDetector({ formats }) : new context.BarcodeDetector();
+      reader.formats = formats;
+    }
 
-  /* istanbul ignore else */
-  if ('isReady' in detector) {
-    await detector.isReady;
-  }
+    const { detector } = reader;
+
+    /* istanbul ignore else */
+    if ('isReady' in detector) {
+      await detector.isReady;
+    }
 
-  try {
     const barcodes = await detector.detect(data);
-    return barcodes.map((barcode) => {
-      return {
-        type: barcode.format,
-        value: barcode.rawValue
-      };
-    });
+    return barcodes.map(barcodeToMarker);
   } catch (e) {
     // If the polyfill has loaded but there are still issues, exit.
     if (polyfillRequired) {
@@ -72,12 +116,67 @@ export async function detectBarcodes(data: ImageData | ImageBitmap | HTMLCanvasE
     }
 
     log(`Detection failed: ${e.message}`, DEBUG_LEVEL.WARNING);
-    return await detectBarcodes(data,
+    return await readBarcodes(reader, data,
         {
           context,
           forceNewDetector,
+          formats,
           polyfillRequired: true,
           root,
         });
   }
 }
+
+/**
+ * Converts a barcode, as detected by a BarcodeDetector, to a Marker.
+ */
+export function barcodeToMarker(barcode: DetectedBarcode): Marker {
+  const marker: Marker = {
+    type: barcode.format,
+    value: barcode.rawValue
+  };
+
+  // Native detectors return DOMRects, so copy them into plain objects.
+  if (barcode.boundingBox) {
+    const { x, y, width, height } = barcode.boundingBox;
+    marker.boundingBox = { x, y, width, height };
+  }
+  if (barcode.cornerPoints) {
+    marker.cornerPoints = barcode.cornerPoints.map(({ x, y }) => ({ x, y }));
+  }
+
+  // Decoded values are checksummed, so the confidence only reflects how
+  // plausible the outline of the barcode is.
+  marker.confidence = marker.cornerPoints ? scoreQuad(marker.cornerPoints) : 1;
+  return marker;
+}
+
+function sameFormats(a?: string[], b?: string[]) {
+  if (!a || !b) {
+    return a === b;
+  }
+  return a.length === b.length && a.every((format) => b.includes(format));
+}
+
+/**
+ * Creates the built-in `barcode` detector, which detects the `barcodeFormats`
+ * given in the config.
+ */
+export function createBarcodeDetector({ config: { barcodeFormats }, root }: DetectorContext): Detector {
+  const reader: BarcodeReader = {};
+  return {
+    async init() {
+      await readBarcodes(reader, new ImageData(640, 480), { formats: barcodeFormats, root });
+    },
+
+    async detect(frame: DetectionFrame) {
+      // BarcodeDetector reads ImageBitmaps directly, but not VideoFrames.
+      const data = 'displayWidth' in frame ? readImageData(frame) : frame;
+      return { markers: await readBarcodes(reader, data, { formats: barcodeFormats, root }) };
+    },
+
+    async dispose() {
+      closeReader(reader);
+    },
+  };
+}
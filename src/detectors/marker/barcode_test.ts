@@ -53,10 +53,57 @@ describe('BarcodeDetector', () => {
         context: barcodeSpy as any, forceNewDetector: true
     });
 
-    assert.deepEqual(barcodes, [{value: 'foo', type: 'qr_code'}]);
+    assert.deepEqual(barcodes, [{value: 'foo', type: 'qr_code', confidence: 1}]);
     assert(barcodeSpy.BarcodeDetector.called);
   });
 
+  it('passes formats to the detector', async () => {
+    const barcodeSpy = createSpy();
+    const canvas = document.createElement('canvas');
+    await detectBarcodes(canvas, {
+      context: barcodeSpy as any, forceNewDetector: true, formats: ['qr_code']
+    });
+    assert.deepEqual(barcodeSpy.BarcodeDetector.lastCall.args, [{ formats: ['qr_code'] }]);
+
+    // A new detector is created when the formats change.
+    await detectBarcodes(canvas, { context: barcodeSpy as any, formats: ['ean_13'] });
+    assert.isTrue(barcodeSpy.BarcodeDetector.calledTwice);
+    assert.deepEqual(barcodeSpy.BarcodeDetector.lastCall.args, [{ formats: ['ean_13'] }]);
+
+    await detectBarcodes(canvas, { context: barcodeSpy as any, formats: ['ean_13'] });
+    assert.isTrue(barcodeSpy.BarcodeDetector.calledTwice);
+  });
+
+  it('returns bounding boxes and corner points', async () => {
+    const boundingBox = new DOMRectReadOnly(10, 20, 30, 40);
+    const cornerPoints = [{x: 10, y: 20}, {x: 40, y: 20}, {x: 40, y: 60}, {x: 10, y: 60}];
+    const detectorStub = {
+      detect: () => Promise.resolve([{rawValue: 'foo', format: 'qr_code', boundingBox, cornerPoints}])
+    };
+    const context = { BarcodeDetector: spy(() => detectorStub) };
+    const canvas = document.createElement('canvas');
+    const barcodes = await detectBarcodes(canvas, { context: context as any, forceNewDetector: true });
+
+    assert.deepEqual(barcodes, [{
+      boundingBox: {x: 10, y: 20, width: 30, height: 40},
+      confidence: 1,
+      cornerPoints,
+      type: 'qr_code',
+      value: 'foo',
+    }]);
+  });
+
+  it('scores distorted barcodes lower', async () => {
+    const cornerPoints = [{x: 10, y: 20}, {x: 40, y: 60}, {x: 40, y: 20}, {x: 10, y: 60}];
+    const detectorStub = {
+      detect: () => Promise.resolve([{rawValue: 'foo', format: 'qr_code', cornerPoints}])
+    };
+    const context = { BarcodeDetector: spy(() => detectorStub) };
+    const canvas = document.createElement('canvas');
+    const [ barcode ] = await detectBarcodes(canvas, { context: context as any, forceNewDetector: true });
+    assert.equal(barcode.confidence, 0);
+  });
+
   it('recovers from failed detection', async () => {
     const barcodeSpy = createSpy({throws: true});
     const canvas = document.createElement('canvas');
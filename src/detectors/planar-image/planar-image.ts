@@ -17,7 +17,23 @@
  */
 
 import { DetectableImage, DetectedImage } from '../../../defs/detected-image.js';
+import { DetectionFrame } from '../../../defs/frame.js';
+import { PlanarDetection } from '../../../defs/planar-target.js';
+import { TrackedPlanarTarget } from '../../planar/planar-tracker.js';
+import { boundingBoxOf } from '../../utils/geometry.js';
 import { DEBUG_LEVEL, log } from '../../utils/logger.js';
+import { readImageData } from '../../utils/read-image-data.js';
+import { Detector as PerceptionDetector, DetectorContext } from '../detector.js';
+
+// The encoding of planar image target data.
+const TARGET_ENCODING_FORMAT = 'application/octet+pd';
+
+// How often, in ms, to run a full detection while images are being tracked, so
+// that images which come into view are found.
+const REDETECTION_RATE = 2000;
+
+// The confidence below which tracked images are detected again in full.
+const MIN_TRACKING_CONFIDENCE = 0.5;
 
 interface OutgoingWorkerMessage {
   type: string;
@@ -30,7 +46,8 @@ interface AddCallbackVals {
   id: string;
 }
 
-type ProcessCallbackValue = null | number[];
+type ProcessCallbackValue = null | PlanarDetection[];
+type TrackCallbackValue = null | TrackedPlanarTarget[];
 
 class Detector {
   private readonly targets = new Map<number, DetectedImage>();
@@ -80,14 +97,18 @@ class Detector {
       this.send({ type: 'process', data }, (processData: ProcessCallbackValue) => {
         /* istanbul ignore if */
         if (processData === null) {
-          return [];
+          resolve([]);
+          return;
         }
 
-        const matches = processData as number[];
-
         // Remap to actual DetectedImage targets (and filter out empties).
-        const detectedImages = matches.map((id) => this.targets.get(id))
-            .filter(detectedImage => !!detectedImage) as DetectedImage[];
+        const detectedImages: DetectedImage[] = [];
+        for (const { id, cornerPoints, confidence } of processData) {
+          const target = this.targets.get(id);
+          if (target) {
+            detectedImages.push({ ...target, boundingBox: boundingBoxOf(cornerPoints), confidence, cornerPoints });
+          }
+        }
 
         resolve(detectedImages);
         log(`Time taken (ms): ${performance.now() - startTime} ` +
@@ -96,6 +117,36 @@ class Detector {
     });
   }
 
+  /**
+   * Follows the images found by the last full detection into new image data,
+   * which is far cheaper than detecting them again.
+   */
+  track(data: ImageData): Promise<DetectedImage[]> {
+    if (this.targets.size === 0) {
+      return Promise.resolve([]);
+    }
+
+    return new Promise((resolve) => {
+      this.send({ type: 'track', data }, (trackData: TrackCallbackValue) => {
+        /* istanbul ignore if */
+        if (trackData === null) {
+          resolve([]);
+          return;
+        }
+
+        const trackedImages: DetectedImage[] = [];
+        for (const { id, cornerPoints, confidence } of trackData) {
+          const target = this.targets.get(id);
+          if (target) {
+            trackedImages.push({ ...target, boundingBox: boundingBoxOf(cornerPoints), confidence, cornerPoints });
+          }
+        }
+
+        resolve(trackedImages);
+      });
+    });
+  }
+
   getTarget(id: string) {
     for (const target of this.targets.values()) {
       if (target.id === id) {
@@ -105,8 +156,13 @@ class Detector {
   }
 
   addTarget(data: Uint8Array, image: DetectableImage): Promise<number> {
-    return new Promise((resolve) => {
-      this.send({ type: 'add', data, id: image.id }, (addData: AddCallbackVals) => {
+    return new Promise((resolve, reject) => {
+      this.send({ type: 'add', data, id: image.id }, (addData: AddCallbackVals | null) => {
+        if (addData === null) {
+          reject(new Error('The image detector was terminated'));
+          return;
+        }
+
         const { idx, id } = addData;
         this.targets.set(idx as number, { id });
         log(`Target stored: ${id}, number ${idx}`, DEBUG_LEVEL.VERBOSE);
@@ -139,6 +195,22 @@ class Detector {
     });
   }
 
+  /**
+   * Terminates the worker, releasing its targets. The detector can't be used
+   * afterwards.
+   */
+  terminate() {
+    this.worker.terminate();
+    this.targets.clear();
+
+    // Settle any requests which the worker will no longer answer.
+    const callbacks = Array.from(this.workerMessageCallbacks.values());
+    this.workerMessageCallbacks.clear();
+    for (const callback of callbacks) {
+      callback(null);
+    }
+  }
+
   private send(msg: OutgoingWorkerMessage, callback: (data: any) => void) {
     const makeRandId = () => {
       // Array of zeros.
@@ -167,6 +239,21 @@ export async function detectPlanarImages(data: ImageData, {root = ''} = {}) {
   return detector.detect(data);
 }
 
+/**
+ * Follows the planar images found by the last call to `detectPlanarImages`
+ * into a new frame of the same size. Each tracked image has a `confidence`,
+ * and images which can no longer be followed are omitted.
+ */
+export async function trackPlanarImages(data: ImageData, {root = ''} = {}) {
+  /* istanbul ignore if */
+  if (!detector) {
+    detector = new Detector(root);
+  }
+
+  await detector.isReady;
+  return detector.track(data);
+}
+
 export async function addDetectionTarget(data: Uint8Array,
                                          image: DetectableImage,
                                          {root = ''} = {}): Promise<number> {
@@ -209,3 +296,108 @@ export async function reset() {
 
   return detector.clear();
 }
+
+/**
+ * Returns the URLs of the planar target data of an image, i.e. those of its
+ * media which are `application/octet+pd` encoded.
+ */
+export function getTargetDataUrls(image: DetectableImage): string[] {
+  const urls = [];
+  for (const media of image.media) {
+    // If the object does not match our requirements, skip it.
+    if (!media['@type'] || media['@type'] !== 'MediaObject' ||
+        !media.contentUrl || media.encodingFormat !== TARGET_ENCODING_FORMAT) {
+      continue;
+    }
+    urls.push(media.contentUrl.toString());
+  }
+  return urls;
+}
+
+/**
+ * Creates the built-in `image` detector, which detects the image targets that
+ * have `application/octet+pd` encoded media.
+ *
+ * If `trackImages` is set in the config, images are followed from frame to
+ * frame, and only detected in full when tracking becomes unreliable, or
+ * periodically so that new images are found.
+ */
+export function createPlanarImageDetector({ config: { trackImages = false }, fetchBytes, root }:
+                                              DetectorContext): PerceptionDetector {
+  // The planar detector's indexes for each image target id.
+  const targetIndexes = new Map<string, number[]>();
+  let lastDetection = -1;
+  // Each detector has a worker of its own, so that its targets are not shared.
+  let imageDetector: Detector | undefined;
+  const getDetector = async () => {
+    if (!imageDetector) {
+      imageDetector = new Detector(root);
+    }
+
+    await imageDetector.isReady;
+    return imageDetector;
+  };
+
+  const planarImageDetector: PerceptionDetector = {
+    async init() {
+      await getDetector();
+    },
+
+    async detect(detectionFrame: DetectionFrame) {
+      const frame = readImageData(detectionFrame);
+      const now = performance.now();
+      if (trackImages && now - lastDetection < REDETECTION_RATE) {
+        const images = await (await getDetector()).track(frame);
+        if (images.length > 0 && images.every(({ confidence = 0 }) => confidence >= MIN_TRACKING_CONFIDENCE)) {
+          return { images };
+        }
+      }
+
+      lastDetection = now;
+      return { images: await (await getDetector()).detect(frame) };
+    },
+
+    async addTarget(image: DetectableImage) {
+      const indexes: number[] = [];
+      for (const url of getTargetDataUrls(image)) {
+        log(`Loading ${url}`, DEBUG_LEVEL.VERBOSE);
+
+        try {
+          indexes.push(await (await getDetector()).addTarget(await fetchBytes(url), image));
+        } catch (e) {
+          log(`Unable to load ${url}`, DEBUG_LEVEL.WARNING);
+        }
+      }
+
+      if (indexes.length === 0) {
+        return false;
+      }
+
+      targetIndexes.set(image.id, indexes);
+      return true;
+    },
+
+    async removeTarget(id: string) {
+      for (const index of targetIndexes.get(id) || []) {
+        await (await getDetector()).removeTarget(index);
+      }
+      targetIndexes.delete(id);
+    },
+
+    async dispose() {
+      targetIndexes.clear();
+      lastDetection = -1;
+      if (imageDetector) {
+        imageDetector.terminate();
+        imageDetector = undefined;
+      }
+    },
+  };
+
+  // Tracked images can be followed between captured frames.
+  if (trackImages) {
+    planarImageDetector.track = async (frame: ImageData) => ({ images: await (await getDetector()).track(frame) });
+  }
+
+  return planarImageDetector;
+}
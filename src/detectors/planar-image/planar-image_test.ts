@@ -22,7 +22,8 @@ import {
   detectPlanarImages,
   removeDetectionTarget,
   reset,
-  getTarget
+  getTarget,
+  trackPlanarImages
 } from './planar-image.js';
 
 async function loadDataFile() {
@@ -30,7 +31,7 @@ async function loadDataFile() {
   return await response.arrayBuffer();
 }
 
-async function loadImageAsImageData() {
+async function loadImageAsImageData(x = 100, y = 100) {
   const response = await fetch('/base/test-assets/lighthouse.jpg');
   const data = await response.blob();
   const bitmap = await createImageBitmap(data);
@@ -40,7 +41,7 @@ async function loadImageAsImageData() {
   canvas.width = 640;
   canvas.height = 480;
   ctx.fillRect(0, 0, 640, 480);
-  ctx.drawImage(bitmap, 100, 100, 325, 213);
+  ctx.drawImage(bitmap, x, y, 325, 213);
   return ctx.getImageData(0, 0, canvas.width, canvas.height);
 }
 
@@ -59,12 +60,37 @@ describe('Planar Image Detector', () => {
     const detections = await detectPlanarImages(await imageData, { root: '/base' });
     assert.equal(detections.length, 1);
     assert.equal(detections[0].id, 'Lighthouse');
+    assert.lengthOf(detections[0].cornerPoints!, 4);
+    assert.isAbove(detections[0].confidence!, 0.5);
+
+    // The image was drawn at (100, 100), 325 x 213.
+    const { x, y, width, height } = detections[0].boundingBox!;
+    assert.approximately(x, 100, 20);
+    assert.approximately(y, 100, 20);
+    assert.approximately(width, 325, 40);
+    assert.approximately(height, 213, 40);
     await removeDetectionTarget(id);
 
     const postRemovalDetections = await detectPlanarImages(await imageData, { root: '/base' });
     assert.equal(postRemovalDetections.length, 0);
   });
 
+  it('tracks detected images', async () => {
+    const data = await loadDataFile();
+    const src = { id: 'Lighthouse', media: [] };
+    await addDetectionTarget(new Uint8Array(data), src);
+    await detectPlanarImages(await imageData, { root: '/base' });
+
+    const tracked = await trackPlanarImages(await loadImageAsImageData(104, 98), { root: '/base' });
+    assert.equal(tracked.length, 1);
+    assert.equal(tracked[0].id, 'Lighthouse');
+    assert.isAbove(tracked[0].confidence!, 0);
+
+    const { x, y } = tracked[0].boundingBox!;
+    assert.approximately(x, 102, 20);
+    assert.approximately(y, 99, 20);
+  });
+
   it('gets targets', async () => {
     const data = await loadDataFile();
     const src = { id: 'Lighthouse', media: [] };
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CreativeWork, MediaObject } from '../../artifacts/schema/core-schema-org.js';
+import { ARContentTypes } from '../../artifacts/schema/extension-ar-artifacts.js';
+
+function urlOf(content: MediaObject): string | undefined {
+  const url = content.contentUrl || content.url;
+  return url ? url.toString() : undefined;
+}
+
+function createTemplateContent(content: MediaObject): HTMLElement | undefined {
+  const url = urlOf(content);
+  if (content.encodingFormat !== 'text/html' || !url || !url.startsWith('#')) {
+    return;
+  }
+
+  const template = document.getElementById(url.substr(1));
+  if (!(template instanceof HTMLTemplateElement)) {
+    return;
+  }
+
+  const element = document.createElement('div');
+  element.classList.add('ar-overlay-template');
+  element.appendChild(document.importNode(template.content, true));
+  return element;
+}
+
+function createImageContent(content: MediaObject): HTMLElement | undefined {
+  const url = urlOf(content);
+  if (content['@type'] !== 'ImageObject' || !url) {
+    return;
+  }
+
+  const element = document.createElement('img');
+  element.classList.add('ar-overlay-image');
+  element.src = url;
+  element.alt = content.name || '';
+  return element;
+}
+
+function createLabelContent(content: string | CreativeWork): HTMLElement | undefined {
+  const text = typeof content === 'string' ? content : content.name;
+  if (!text) {
+    return;
+  }
+
+  const element = document.createElement('div');
+  element.classList.add('ar-overlay-label');
+  element.textContent = text;
+  return element;
+}
+
+/**
+ * Creates the content of an AR overlay from an artifact's `arContent`, which is
+ * then mapped onto the detected target. In order of preference, the content is:
+ *
+ * * An HTML template: a `MediaObject` with an `encodingFormat` of `text/html`,
+ *   whose `contentUrl` (or `url`) refers to a `<template>` in the document,
+ *   e.g. `#poster-overlay`.
+ * * An image: an `ImageObject` with a `contentUrl` (or `url`).
+ * * A label: the `name` of the content, or the content itself if it is text.
+ *
+ * Returns undefined if none of the content can be overlaid.
+ *
+ * @hidden
+ */
+export function createOverlayContent(arContent?: ARContentTypes | ARContentTypes[]): HTMLElement | undefined {
+  if (!arContent) {
+    return;
+  }
+
+  const contents = (Array.isArray(arContent) ? arContent : [arContent])
+      .filter((content) => !(content instanceof URL)) as Array<string | CreativeWork>;
+  const works = contents.filter((content) => typeof content === 'object') as CreativeWork[];
+
+  for (const create of [createTemplateContent, createImageContent]) {
+    for (const content of works) {
+      const element = create(content);
+      if (element) {
+        return element;
+      }
+    }
+  }
+
+  for (const content of contents) {
+    const element = createLabelContent(content);
+    if (element) {
+      return element;
+    }
+  }
+}
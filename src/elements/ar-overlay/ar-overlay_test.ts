@@ -0,0 +1,68 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { createOverlayContent } from './ar-overlay.js';
+
+describe('AR Overlay', () => {
+  let template: HTMLTemplateElement;
+
+  beforeEach(() => {
+    template = document.createElement('template');
+    template.id = 'test-overlay';
+    template.innerHTML = '<p class="greeting">Hello</p>';
+    document.body.appendChild(template);
+  });
+
+  afterEach(() => {
+    template.remove();
+  });
+
+  it('creates template content', () => {
+    const content = createOverlayContent([
+      { '@type': 'WebPage', 'name': 'Label' },
+      { '@type': 'MediaObject', 'encodingFormat': 'text/html', 'contentUrl': '#test-overlay' },
+    ])!;
+    assert.isTrue(content.classList.contains('ar-overlay-template'));
+    assert.equal(content.querySelector('.greeting')!.textContent, 'Hello');
+  });
+
+  it('ignores missing templates', () => {
+    const content = createOverlayContent(
+        { '@type': 'MediaObject', 'encodingFormat': 'text/html', 'contentUrl': '#missing', 'name': 'Label' })!;
+    assert.isTrue(content.classList.contains('ar-overlay-label'));
+  });
+
+  it('creates image content', () => {
+    const content = createOverlayContent(
+        { '@type': 'ImageObject', 'contentUrl': '/base/test-assets/lighthouse.jpg', 'name': 'Lighthouse' });
+    assert.instanceOf(content, HTMLImageElement);
+    assert.equal((content as HTMLImageElement).alt, 'Lighthouse');
+  });
+
+  it('creates labels', () => {
+    assert.equal(createOverlayContent({ '@type': 'WebPage', 'name': 'Label' })!.textContent, 'Label');
+    assert.equal(createOverlayContent('Message')!.textContent, 'Message');
+  });
+
+  it('ignores content which cannot be overlaid', () => {
+    assert.isUndefined(createOverlayContent());
+    assert.isUndefined(createOverlayContent(new URL('https://example.com')));
+    assert.isUndefined(createOverlayContent({ '@type': 'WebPage', 'url': 'https://example.com' }));
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Event, MediaObject, Product, Recipe, Thing, VideoObject } from '../../artifacts/schema/core-schema-org.js';
+import { ARContentTypes } from '../../artifacts/schema/extension-ar-artifacts.js';
+import { CardData } from './card.js';
+
+/**
+ * Renders content of a particular `@type` for a card, either as `CardData`
+ * which the card lays out, or as an element of its own. Returning undefined
+ * leaves the content to be rendered as a plain `Thing`.
+ */
+export type CardRenderer = (content: Thing) => CardData | HTMLElement | undefined;
+
+const renderers = new Map<string, CardRenderer>();
+
+function urlOf(value: any): string | undefined {
+  if (Array.isArray(value)) {
+    return urlOf(value[0]);
+  }
+
+  if (value instanceof URL) {
+    return value.href;
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return urlOf(value.contentUrl || value.url);
+  }
+
+  return typeof value === 'string' ? value : undefined;
+}
+
+function textOf(value: any): string | undefined {
+  if (Array.isArray(value)) {
+    return textOf(value[0]);
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return textOf(value.name);
+  }
+
+  return typeof value === 'string' || typeof value === 'number' ? value.toString() : undefined;
+}
+
+function isAbsoluteUrl(value: string) {
+  return /^https?:\/\/\S+$/.test(value);
+}
+
+function joinText(...parts: Array<string | undefined>) {
+  return parts.filter((part) => !!part).join(' · ') || undefined;
+}
+
+/*
+ * Formats an ISO 8601 duration, e.g. "PT1H30M" becomes "1 hr 30 min".
+ */
+function formatDuration(duration?: string) {
+  const match = duration && duration.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/);
+  if (!match) {
+    return duration;
+  }
+
+  const [, days, hours, minutes] = match;
+  return [days && `${days} d`, hours && `${hours} hr`, minutes && `${minutes} min`]
+      .filter((part) => !!part).join(' ') || undefined;
+}
+
+function formatDate(date?: string) {
+  const time = date ? Date.parse(date) : NaN;
+  return isNaN(time) ? date : new Date(time).toLocaleString();
+}
+
+function fillTemplate(template: HTMLTemplateElement, content: Thing): HTMLElement {
+  const element = document.createElement('div');
+  element.classList.add('card-template');
+  element.appendChild(document.importNode(template.content, true));
+
+  // Elements name the property they show with `data-property`.
+  for (const field of element.querySelectorAll('[data-property]')) {
+    const value = content[field.getAttribute('data-property') as string];
+    if (field instanceof HTMLImageElement || field instanceof HTMLMediaElement) {
+      field.src = urlOf(value) || '';
+    } else if (field instanceof HTMLAnchorElement) {
+      field.href = urlOf(value) || '';
+    } else {
+      field.textContent = textOf(value) || '';
+    }
+  }
+  return element;
+}
+
+/*
+ * Renders content as its name, description and image, which is how content
+ * with no renderer is shown.
+ */
+function renderThing(content: Thing): CardData {
+  return {
+    description: content.description,
+    image: urlOf(content.image),
+    mainEntity: content.mainEntity,
+    name: content.name,
+    url: content.url,
+  };
+}
+
+function renderProduct(content: Product): CardData {
+  const offer = Array.isArray(content.offers) ? content.offers[0] : content.offers;
+  const price = offer && typeof offer.price !== 'undefined' ?
+      `${offer.price} ${offer.priceCurrency || ''}`.trim() : undefined;
+  return {
+    ...renderThing(content),
+    description: joinText(price, content.description),
+  };
+}
+
+function renderEvent(content: Event): CardData {
+  return {
+    ...renderThing(content),
+    description: joinText(formatDate(content.startDate), textOf(content.location), content.description),
+  };
+}
+
+function renderRecipe(content: Recipe): CardData {
+  return {
+    ...renderThing(content),
+    description: joinText(formatDuration(content.totalTime || content.cookTime), textOf(content.recipeYield),
+        content.description),
+  };
+}
+
+function renderVideo(content: VideoObject): HTMLElement | undefined {
+  const url = urlOf(content.contentUrl);
+  if (!url) {
+    return;
+  }
+
+  const video = document.createElement('video');
+  video.classList.add('card-video');
+  video.src = url;
+  video.poster = urlOf(content.thumbnailUrl) || '';
+  video.title = content.name || '';
+  video.controls = true;
+  video.setAttribute('playsinline', '');
+  return video;
+}
+
+/*
+ * 3D models are shown with `<model-viewer>`, if the page has loaded it.
+ */
+function renderModel(content: MediaObject): HTMLElement | undefined {
+  const url = urlOf(content.contentUrl);
+  if (!url || !customElements.get('model-viewer')) {
+    return;
+  }
+
+  const viewer = document.createElement('model-viewer');
+  viewer.classList.add('card-model');
+  viewer.setAttribute('src', url);
+  viewer.setAttribute('alt', content.name || '');
+  viewer.setAttribute('camera-controls', '');
+  viewer.setAttribute('auto-rotate', '');
+  return viewer;
+}
+
+/**
+ * Registers how cards show content of a schema.org `@type`, replacing any
+ * renderer for the type (including the defaults for `Product`, `Event`,
+ * `Recipe`, `VideoObject` and `3DModel`). The renderer may be:
+ *
+ * * A function, which returns `CardData` or an element.
+ * * A `<template>`, which is cloned. Elements within it which have a
+ *   `data-property` attribute show that property of the content: images,
+ *   video and audio as their `src`, links as their `href`, and anything else
+ *   as text.
+ * * The tag name of a custom element, which is created with its `src` set to
+ *   the content.
+ *
+ * ```javascript
+ * registerCardRenderer('Book', document.querySelector('#book-card'));
+ * registerCardRenderer('Movie', 'movie-card');
+ * ```
+ */
+export function registerCardRenderer(type: string, renderer: CardRenderer | HTMLTemplateElement | string) {
+  if (renderer instanceof HTMLTemplateElement) {
+    renderers.set(type, (content) => fillTemplate(renderer, content));
+  } else if (typeof renderer === 'string') {
+    renderers.set(type, (content) => Object.assign(document.createElement(renderer), { src: content }));
+  } else {
+    renderers.set(type, renderer);
+  }
+}
+
+/**
+ * Returns the renderer registered for a type, if any.
+ */
+export function getCardRenderer(type: string): CardRenderer | undefined {
+  return renderers.get(type);
+}
+
+/**
+ * Returns the content of an artifact's `arContent` which should each be shown
+ * on a card of their own: every `Thing`, and text. Bare URLs become links to
+ * the page they refer to.
+ *
+ * @hidden
+ */
+export function cardContents(arContent?: ARContentTypes | ARContentTypes[]): Array<string | Thing> {
+  if (!arContent) {
+    return [];
+  }
+
+  const contents: Array<string | Thing> = [];
+  for (const content of Array.isArray(arContent) ? arContent : [arContent]) {
+    if (content instanceof URL || (typeof content === 'string' && isAbsoluteUrl(content))) {
+      const url = new URL(content.toString());
+      contents.push({ '@type': 'WebPage', 'name': url.host, 'url': url.href });
+    } else if ((typeof content === 'string' && content.trim()) ||
+        (typeof content === 'object' && content !== null)) {
+      contents.push(content);
+    }
+  }
+  return contents;
+}
+
+/**
+ * Renders content for a card with the renderer for its `@type`, falling back
+ * to its name, description and image.
+ *
+ * @hidden
+ */
+export function renderCardContent(content: string | Thing): string | CardData | HTMLElement {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  const renderer = content['@type'] ? renderers.get(content['@type']) : undefined;
+  return (renderer && renderer(content)) || renderThing(content);
+}
+
+registerCardRenderer('Product', renderProduct);
+registerCardRenderer('Event', renderEvent);
+registerCardRenderer('Recipe', renderRecipe);
+registerCardRenderer('VideoObject', renderVideo);
+registerCardRenderer('3DModel', renderModel);
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { Thing } from '../../artifacts/schema/core-schema-org.js';
+import { cardContents, getCardRenderer, registerCardRenderer, renderCardContent } from './card-renderers.js';
+import { CardData } from './card.js';
+
+describe('CardRenderers', () => {
+  it('finds the content for cards', () => {
+    const work = { '@type': 'CreativeWork', 'name': 'Work' };
+    assert.deepEqual(cardContents([work, 'Some text', '', work]), [work, 'Some text', work]);
+    assert.deepEqual(cardContents(undefined), []);
+  });
+
+  it('turns bare URLs into links', () => {
+    assert.deepEqual(cardContents('https://example.com/page'), [
+      { '@type': 'WebPage', 'name': 'example.com', 'url': 'https://example.com/page' }
+    ]);
+    assert.deepEqual(cardContents(new URL('https://example.com/')), [
+      { '@type': 'WebPage', 'name': 'example.com', 'url': 'https://example.com/' }
+    ]);
+  });
+
+  it('renders things without a renderer', () => {
+    const data = renderCardContent({
+      '@type': 'Book',
+      'image': { '@type': 'ImageObject', 'contentUrl': '/cover.jpg' },
+      'name': 'A book',
+      'url': '/book',
+    }) as CardData;
+
+    assert.equal(data.name, 'A book');
+    assert.equal(data.image, '/cover.jpg');
+    assert.equal(data.url, '/book');
+  });
+
+  it('renders text as it is', () => {
+    assert.equal(renderCardContent('Some text'), 'Some text');
+  });
+
+  it('renders products with their price', () => {
+    const data = renderCardContent({
+      '@type': 'Product',
+      'description': 'A chair',
+      'name': 'Chair',
+      'offers': { '@type': 'Offer', 'price': 49.99, 'priceCurrency': 'USD' },
+    }) as CardData;
+
+    assert.equal(data.name, 'Chair');
+    assert.equal(data.description, '49.99 USD · A chair');
+  });
+
+  it('renders recipes with their time', () => {
+    const data = renderCardContent({ '@type': 'Recipe', 'name': 'Soup', 'totalTime': 'PT1H30M' }) as CardData;
+    assert.equal(data.description, '1 hr 30 min');
+  });
+
+  it('renders videos', () => {
+    const video = renderCardContent({
+      '@type': 'VideoObject',
+      'contentUrl': 'https://example.com/video.mp4',
+      'name': 'Video',
+    }) as HTMLVideoElement;
+
+    assert.instanceOf(video, HTMLVideoElement);
+    assert.equal(video.src, 'https://example.com/video.mp4');
+  });
+
+  it('renders 3D models as things without model-viewer', () => {
+    const data = renderCardContent({ '@type': '3DModel', 'contentUrl': '/model.glb', 'name': 'Model' });
+    assert.equal((data as CardData).name, 'Model');
+  });
+
+  it('registers renderers', () => {
+    const renderer = (content: Thing) => ({ name: `Custom ${content.name}` });
+    registerCardRenderer('Custom', renderer);
+
+    assert.equal(getCardRenderer('Custom'), renderer);
+    assert.deepEqual(renderCardContent({ '@type': 'Custom', 'name': 'thing' }), { name: 'Custom thing' });
+  });
+
+  it('registers templates', () => {
+    const template = document.createElement('template');
+    template.innerHTML = '<h2 data-property="name"></h2><img data-property="image">';
+    registerCardRenderer('Template', template);
+
+    const element = renderCardContent({
+      '@type': 'Template',
+      'image': 'https://example.com/image.jpg',
+      'name': 'Templated',
+    }) as HTMLElement;
+
+    assert.equal(element.querySelector('h2')!.textContent, 'Templated');
+    assert.equal(element.querySelector('img')!.src, 'https://example.com/image.jpg');
+  });
+
+  it('registers elements', () => {
+    registerCardRenderer('Element', 'custom-card');
+
+    const content = { '@type': 'Element', 'name': 'Element' };
+    const element = renderCardContent(content) as HTMLElement & { src: Thing };
+    assert.equal(element.tagName, 'CUSTOM-CARD');
+    assert.equal(element.src, content);
+  });
+});
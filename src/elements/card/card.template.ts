@@ -117,6 +117,14 @@ slot {
 #image.top-margin {
   margin-top: var(--baseline);
 }
+
+#container > .card-video,
+#container > .card-model {
+  display: block;
+  min-width: 300px;
+  min-height: 210px;
+  background-color: #111;
+}
 `;
 
 // tslint:enable:max-line-length
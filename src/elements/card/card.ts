@@ -96,6 +96,9 @@ export interface CardData {
  * // Or iframe some content in. By default the card supports same-origin
  * // content.
  * card.src = new URL('http://example.com');
+ *
+ * // Or show an element.
+ * card.src = document.createElement('video');
  * ```
  */
 export class Card extends HTMLElement {
@@ -118,7 +121,7 @@ export class Card extends HTMLElement {
    */
   sandboxAttribute: string = 'allow-same-origin';
 
-  private srcInternal: string | URL | CardData = '';
+  private srcInternal: string | URL | CardData | HTMLElement = '';
   private widthInternal: number | undefined;
   private heightInternal: number | undefined;
   private root = this.attachShadow({ mode: 'open' });
@@ -131,13 +134,14 @@ export class Card extends HTMLElement {
 
   /**
    * Gets & sets the src for the card. If the src is a URL the content is
-   * `iframe`'d in using a sandbox that disallows
+   * `iframe`'d in using a sandbox that disallows scripts. Elements, such as
+   * those created by card renderers, are shown as they are.
    */
   get src() {
     return this.srcInternal;
   }
 
-  set src(src: string | URL | CardData) {
+  set src(src: string | URL | CardData | HTMLElement) {
     this.srcInternal = src;
     this.render();
   }
@@ -215,7 +219,10 @@ export class Card extends HTMLElement {
     }
 
     container.classList.remove('padded');
-    if (this.srcIsString(this.src)) {
+    if (this.srcIsElement(this.src)) {
+      container.innerHTML = '';
+      container.appendChild(this.src);
+    } else if (this.srcIsString(this.src)) {
       container.textContent = this.src;
       container.classList.add('padded');
     } else if (this.srcIsCardData(this.src)) {
@@ -276,15 +283,19 @@ export class Card extends HTMLElement {
     }
   }
 
-  private srcIsString(msg: string | URL | CardData): msg is string {
+  private srcIsElement(msg: string | URL | CardData | HTMLElement): msg is HTMLElement {
+    return msg instanceof HTMLElement;
+  }
+
+  private srcIsString(msg: string | URL | CardData | HTMLElement): msg is string {
     return typeof msg === 'string';
   }
 
-  private srcIsCardData(msg: string | URL | CardData): msg is CardData {
+  private srcIsCardData(msg: string | URL | CardData | HTMLElement): msg is CardData {
     return typeof msg === 'object' && typeof (msg as URL).href === 'undefined';
   }
 
-  private srcIsUrl(msg: string | URL | CardData): msg is URL {
+  private srcIsUrl(msg: string | URL | CardData | HTMLElement): msg is URL {
     return typeof msg === 'object' && typeof (msg as URL).href !== 'undefined';
   }
 
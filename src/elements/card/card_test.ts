@@ -155,6 +155,14 @@ describe('Card', () => {
     assert.isNotNull(card.shadowRoot!.querySelector('iframe'));
   });
 
+  it('shows elements', async () => {
+    const card = new Card();
+    const video = document.createElement('video');
+    card.src = video;
+    document.body.appendChild(card);
+    assert.equal(card.shadowRoot!.querySelector('video'), video);
+  });
+
   it('handles undefined content', async () => {
     const card = new Card();
     card.src = undefined as string;
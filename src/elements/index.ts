@@ -16,8 +16,10 @@
  */
 
 export * from './action-button/action-button.js';
+export * from './card/card-renderers.js';
 export * from './card/card.js';
 export * from './dot-loader/dot-loader.js';
 export * from './no-support-card/no-support-card.js';
 export * from './onboarding-card/onboarding-card.js';
+export * from './stream-capture/capture-scheduler.js';
 export * from './stream-capture/stream-capture.js';
@@ -18,10 +18,14 @@
 import { DetectedImage } from '../../../defs/detected-image.js';
 import { Marker } from '../../../defs/marker.js';
 import { ArtifactDealer, ProbableTargets } from '../../../src/artifacts/artifact-dealer.js';
+import { ArtifactCache } from '../../artifacts/artifact-cache.js';
+import { ArtifactDiagnostic } from '../../artifacts/artifact-diagnostics.js';
 import { ArtifactLoader } from '../../artifacts/artifact-loader.js';
 import { ARArtifact } from '../../artifacts/schema/extension-ar-artifacts.js';
 import { ArtifactStore, PerceptionResult, PerceptionState } from '../../artifacts/stores/artifact-store.js';
 import { LocalArtifactStore } from '../../artifacts/stores/local-artifact-store.js';
+import { artifactDiagnostics, artifactsChanged } from '../../events.js';
+import { fire } from '../../utils/fire.js';
 import { generateMarkerId } from '../../utils/generate-marker-id.js';
 
 // TODO: Move this to config manager
@@ -36,6 +40,16 @@ export interface PerceptionStateChangeResponse extends ProbableTargets {
   newTargets: Array<Marker | DetectedImage>;
 }
 
+/**
+ * The detail of `artifactsChanged` events. `lost` contains the previously found
+ * results which are no longer valid, and which will not be reported as lost again.
+ */
+export interface ArtifactsChangedDetail {
+  added: ARArtifact[];
+  removed: ARArtifact[];
+  lost: PerceptionResult[];
+}
+
 /**
  * @hidden
  *
@@ -48,30 +62,54 @@ export interface PerceptionStateChangeResponse extends ProbableTargets {
  * * Automatically loads Artifacts from embedding Document on init.
  * * Attempts to index Pages when Markers are URLs.
  * * Makes sure to only index content from supported domains/URLs.
+ * * Fires `artifactDiagnostics` events for content which could not be fully understood.
+ * * Fires `artifactsChanged` events when Artifacts (or ArtifactStores) are added or removed.
  */
 export class MeaningMaker {
+  /**
+   * The minimum confidence (0-1) a detected target must have to be seen. Targets which do not report a confidence are
+   * treated as certain. This is used to suppress false positives, e.g. from reflective surfaces.
+   */
+  minConfidence = 0;
+
+  /**
+   * The number of consecutive updates in which a target must be detected before it is seen. This is used so we do
+   * not spuriously find targets which are only detected in a single frame capture.
+   */
+  minConsecutiveFrames = 1;
+
   // TODO: this should probably a set # of frames, i.e. N * ms-between-captures-in-passive-mode
   private _lastSeenTimeBuffer = 2000; // ms
 
-  private readonly artloader = new ArtifactLoader();
+  private readonly artloader: ArtifactLoader;
   private readonly artstore = new LocalArtifactStore();
   private readonly artdealer = new ArtifactDealer();
   private prevPerceptionResults = new Set<PerceptionResult>();
+  private prevGeo?: PerceptionState['geo'];
   private artifactsForUrl = new Map<string, ARArtifact[]>();
   private lastSeenMarkers = new Map<string, { marker: Marker, timestamp: number }>();
   private lastSeenImages = new Map<string, { image: DetectedImage, timestamp: number }>();
+  private detectionStreaks = new Map<string, number>();
 
-  constructor() {
-    this.addArtifactStore(this.artstore);
+  /**
+   * @param eventTarget The target on which `artifactDiagnostics` and `artifactsChanged` events are fired.
+   * @param cache If provided, loaded artifacts are persisted in (and served from) this cache.
+   */
+  constructor(private readonly eventTarget: HTMLElement | Window = window, cache?: ArtifactCache) {
+    this.artloader = new ArtifactLoader(cache);
+    this.artdealer.addArtifactStore(this.artstore);
   }
 
   /**
    * Load artifact content for initial set.
    */
   async init() {
-    const artifacts = await this.artloader.fromElement(document, document.URL);
+    const diagnostics: ArtifactDiagnostic[] = [];
+    const artifacts = await this.artloader.fromElement(document, document.URL, diagnostics);
     this.artifactsForUrl.set(document.URL, artifacts);
     this.saveArtifacts(artifacts);
+    this.reportDiagnostics(document.URL, diagnostics);
+    await this.reportArtifactsChanged(artifacts, []);
   }
 
   /**
@@ -90,11 +128,50 @@ export class MeaningMaker {
     return this._lastSeenTimeBuffer;
   }
 
+  /**
+   * Sets the cache in which artifacts loaded from now on are persisted, or `undefined` to stop caching them.
+   */
+  set artifactCache(cache: ArtifactCache | undefined) {
+    this.artloader.cache = cache;
+  }
+
   /**
    * Add another ArtifactStore to the ArtifactDealer.
    */
-  addArtifactStore(store: ArtifactStore) {
-    this.artdealer.addArtifactStore(store);
+  async addArtifactStore(store: ArtifactStore) {
+    await this.artdealer.addArtifactStore(store);
+    await this.reportArtifactsChanged([], []);
+  }
+
+  /**
+   * Remove an ArtifactStore from the ArtifactDealer. Results which were found
+   * through it are retracted.
+   */
+  async removeArtifactStore(store: ArtifactStore) {
+    const removed = await this.artdealer.removeArtifactStore(store);
+    if (removed) {
+      await this.reportArtifactsChanged([], []);
+    }
+    return removed;
+  }
+
+  /**
+   * Remove an Artifact, so that it is no longer found. Results which were found
+   * for it are retracted.
+   */
+  async removeArtifact(artifact: ARArtifact) {
+    let removed = this.artstore.removeArtifact(artifact) > 0;
+    for (const [url, artifacts] of this.artifactsForUrl) {
+      if (artifacts.includes(artifact)) {
+        this.artifactsForUrl.set(url, artifacts.filter((a) => a !== artifact));
+        removed = true;
+      }
+    }
+
+    if (removed) {
+      await this.reportArtifactsChanged([], [artifact]);
+    }
+    return removed;
   }
 
   /**
@@ -108,9 +185,45 @@ export class MeaningMaker {
       return this.artifactsForUrl.get(url.toString()) as ARArtifact[];
     }
 
-    const artifacts = await this.artloader.fromUrl(url);
+    return this.reloadArtifactsFromUrl(url);
+  }
+
+  /**
+   * Load artifact content from Url, unconditionally, replacing any Artifacts which were previously loaded from it.
+   *
+   * This allows long-running experiences to pick up changes to content. Results which were found for the
+   * previous Artifacts are retracted.
+   */
+  async reloadArtifactsFromUrl(url: URL): Promise<ARArtifact[]> {
+    const diagnostics: ArtifactDiagnostic[] = [];
+    const artifacts = await this.artloader.fromUrl(url, diagnostics);
+
+    const previousArtifacts = this.artifactsForUrl.get(url.toString()) || [];
+    for (const artifact of previousArtifacts) {
+      this.artstore.removeArtifact(artifact);
+    }
+
     this.saveArtifacts(artifacts);
     this.artifactsForUrl.set(url.toString(), artifacts);
+    this.reportDiagnostics(url.toString(), diagnostics);
+    await this.reportArtifactsChanged(artifacts, previousArtifacts);
+    return artifacts;
+  }
+
+  /**
+   * Remove the Artifacts which were loaded from Url, so that they are no longer found. Results which were found for
+   * them are retracted.
+   */
+  async unloadArtifactsFromUrl(url: URL): Promise<ARArtifact[]> {
+    const artifacts = this.artifactsForUrl.get(url.toString()) || [];
+    this.artifactsForUrl.delete(url.toString());
+    for (const artifact of artifacts) {
+      this.artstore.removeArtifact(artifact);
+    }
+
+    if (artifacts.length > 0) {
+      await this.reportArtifactsChanged([], artifacts);
+    }
     return artifacts;
   }
 
@@ -139,6 +252,36 @@ export class MeaningMaker {
     return this.loadArtifactsFromUrl(url);
   }
 
+  /*
+   * Returns the targets which are worthy of detection at this moment, without updating the perception state.
+   */
+  async predictPerceptionTargets(state: PerceptionState = {}): Promise<ProbableTargets> {
+    return this.artdealer.predictPerceptionTargets(state);
+  }
+
+  /*
+   * Returns the detected marker or image which triggers each result for the given targets, so that results can be
+   * located within the frame. Results which are not triggered by a single detected target (e.g. geo results) are not
+   * included.
+   */
+  async locateResults(state: PerceptionState): Promise<Map<PerceptionResult, Marker | DetectedImage>> {
+    const untriggered = new Set(await this.artdealer.getPerceptionResults({}));
+    const detections: Array<[PerceptionState, Marker | DetectedImage]> = [
+      ...(state.markers || []).map((marker): [PerceptionState, Marker] => [{ markers: [marker] }, marker]),
+      ...(state.images || []).map((image): [PerceptionState, DetectedImage] => [{ images: [image] }, image]),
+    ];
+
+    const ret = new Map<PerceptionResult, Marker | DetectedImage>();
+    for (const [request, target] of detections) {
+      for (const result of await this.artdealer.getPerceptionResults(request)) {
+        if (!untriggered.has(result) && !ret.has(result)) {
+          ret.set(result, target);
+        }
+      }
+    }
+    return ret;
+  }
+
   /*
    * Returns the full set of potential images which are worthy of detection at this moment.
    * Each DetectableImage has one unique id, and also a list of potential Media which encodes it.
@@ -146,18 +289,47 @@ export class MeaningMaker {
    */
   async updatePerceptionState(request: PerceptionStateChangeRequest): Promise<PerceptionStateChangeResponse>  {
     const now = performance.now();
-    const newTargets = this.updateLastSeenTimes(request, now);
+    const trustedRequest = this.filterUntrustedTargets(request);
+    const newTargets = this.updateLastSeenTimes(trustedRequest, now);
     this.removeStaleTargets(now);
 
-    await this.tryIndexUrlMarkers(request);
+    await this.tryIndexUrlMarkers(trustedRequest);
 
     return {
       newTargets,
-      ...await this.computeLostFoundResults(request),
+      ...await this.computeLostFoundResults(trustedRequest),
       ...await this.artdealer.predictPerceptionTargets(request)
     };
   }
 
+  /**
+   * Removes the targets which cannot be trusted yet: those below the minimum confidence, and those which have not
+   * been seen before and are yet to be detected in enough consecutive updates.
+   */
+  private filterUntrustedTargets(request: PerceptionStateChangeRequest): PerceptionStateChangeRequest {
+    const streaks = new Map<string, number>();
+    const isTrusted = (key: string, confidence = 1, seen: boolean) => {
+      if (confidence < this.minConfidence) {
+        return false;
+      }
+
+      const streak = (this.detectionStreaks.get(key) || 0) + 1;
+      streaks.set(key, streak);
+      return seen || streak >= this.minConsecutiveFrames;
+    };
+
+    const markers = (request.markers || []).filter((marker) => {
+      const markerId = generateMarkerId(marker);
+      return isTrusted(`marker:${markerId}`, marker.confidence, this.lastSeenMarkers.has(markerId));
+    });
+    const images = (request.images || []).filter((image) =>
+        isTrusted(`image:${image.id}`, image.confidence, this.lastSeenImages.has(image.id)));
+
+    // Any update in which a target is not detected breaks its streak.
+    this.detectionStreaks = streaks;
+    return { ...request, images, markers };
+  }
+
   /**
    * Update lastSeen times for all targets which have been reported to be seen again.
    * Returns the list of brand new targets.
@@ -174,7 +346,7 @@ export class MeaningMaker {
     }
     for (const image of request.images || []) {
       const imageId = image.id;
-      if (!this.lastSeenMarkers.has(imageId)) {
+      if (!this.lastSeenImages.has(imageId)) {
         firstSeenTargets.push(image);
       }
       this.lastSeenImages.set(imageId, { image, timestamp });
@@ -232,14 +404,8 @@ export class MeaningMaker {
    * computes a diff.
    */
   private async computeLostFoundResults(request: PerceptionStateChangeRequest) {
-    // Perception state includes all the markers/images we have seen recently.
-    const state: PerceptionState = {
-      markers: Array.from(this.lastSeenMarkers.values(), ({ marker }) => marker),
-      geo: request.geo,
-      images: Array.from(this.lastSeenImages.values(), ({ image }) => image)
-    };
-
-    const nearbyResults = await this.artdealer.getPerceptionResults(state);
+    this.prevGeo = request.geo;
+    const nearbyResults = await this.artdealer.getPerceptionResults(this.currentPerceptionState());
     const uniqueNearbyResults = new Set(nearbyResults);
 
     // Diff with previous list to compute new/old artifacts.
@@ -255,9 +421,48 @@ export class MeaningMaker {
     return { lost, found };
   }
 
+  /**
+   * Perception state includes all the markers/images we have seen recently.
+   */
+  private currentPerceptionState(): PerceptionState {
+    return {
+      markers: Array.from(this.lastSeenMarkers.values(), ({ marker }) => marker),
+      geo: this.prevGeo,
+      images: Array.from(this.lastSeenImages.values(), ({ image }) => image)
+    };
+  }
+
+  /**
+   * After Artifacts have been removed, retract any previous results which can no longer be found.
+   *
+   * Unlike `computeLostFoundResults`, new results are not reported here, but on the next perception state change.
+   */
+  private async retractLostResults() {
+    const nearbyResults = new Set(await this.artdealer.getPerceptionResults(this.currentPerceptionState()));
+    const lost = [...this.prevPerceptionResults].filter(a => !nearbyResults.has(a));
+    for (const result of lost) {
+      this.prevPerceptionResults.delete(result);
+    }
+    return lost;
+  }
+
+  private async reportArtifactsChanged(added: ARArtifact[], removed: ARArtifact[]) {
+    const lost = await this.retractLostResults();
+    const detail: ArtifactsChangedDetail = { added, removed, lost };
+    fire(artifactsChanged, this.eventTarget, detail);
+  }
+
   private saveArtifacts(artifacts: ARArtifact[]) {
     for (const artifact of artifacts) {
       this.artstore.addArtifact(artifact);
     }
   }
+
+  private reportDiagnostics(url: string, diagnostics: ArtifactDiagnostic[]) {
+    if (diagnostics.length === 0) {
+      return;
+    }
+
+    fire(artifactDiagnostics, this.eventTarget, { url, diagnostics });
+  }
 }
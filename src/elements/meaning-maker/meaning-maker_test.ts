@@ -17,6 +17,9 @@
 
 const { assert } = chai;
 
+import { spy } from 'sinon';
+import { LocalArtifactStore } from '../../artifacts/stores/local-artifact-store.js';
+import { artifactDiagnostics, artifactsChanged } from '../../events.js';
 import { MeaningMaker } from './meaning-maker.js';
 
 async function initMM() {
@@ -46,6 +49,33 @@ describe('Meaning Maker', () => {
     }
   });
 
+  it('fires diagnostics for invalid artifacts', async () => {
+    const target = document.createElement('div');
+    const meaningMaker = new MeaningMaker(target);
+    const onDiagnostics = spy();
+    target.addEventListener(artifactDiagnostics, onDiagnostics);
+
+    const url = new URL('/base/test-assets/test-invalid.html', window.location.href);
+    const artifacts = await meaningMaker.loadArtifactsFromUrl(url);
+    assert.lengthOf(artifacts, 1);
+    assert.isTrue(onDiagnostics.calledOnce);
+
+    const { detail } = onDiagnostics.firstCall.args[0] as CustomEvent;
+    assert.equal(detail.url, url.toString());
+    assert.lengthOf(detail.diagnostics, 2);
+  });
+
+  it('does not fire diagnostics for valid artifacts', async () => {
+    const target = document.createElement('div');
+    const meaningMaker = new MeaningMaker(target);
+    const onDiagnostics = spy();
+    target.addEventListener(artifactDiagnostics, onDiagnostics);
+
+    const url = new URL('/base/test-assets/test-barcode.html', window.location.href);
+    await meaningMaker.loadArtifactsFromUrl(url);
+    assert.isFalse(onDiagnostics.called);
+  });
+
   it('loads from supported origins', async () => {
     const meaningMaker = await initMM();
 
@@ -137,6 +167,166 @@ describe('Meaning Maker', () => {
     assert.lengthOf(lostResponse.lost, 1);
   });
 
+  it('reports new images once', async () => {
+    const meaningMaker = await initMM();
+    meaningMaker.lastSeenTimeBuffer = 10000;
+    const url = new URL('/base/test-assets/test-image.html', window.location.href);
+    await meaningMaker.loadArtifactsFromUrl(url);
+
+    const detectedImage = { id: 'Lighthouse' };
+    const firstResponse = await meaningMaker.updatePerceptionState({ images: [ detectedImage ] });
+    assert.deepEqual(firstResponse.newTargets, [ detectedImage ]);
+
+    const secondResponse = await meaningMaker.updatePerceptionState({ images: [ detectedImage ] });
+    assert.lengthOf(secondResponse.newTargets, 0);
+  });
+
+  it('ignores targets below the minimum confidence', async () => {
+    const meaningMaker = await initMM();
+    meaningMaker.minConfidence = 0.5;
+    const url = new URL('/base/test-assets/test-barcode.html', window.location.href);
+    await meaningMaker.loadArtifactsFromUrl(url);
+
+    const marker = { type: 'qr_code', value: '1234567890', confidence: 0.2 };
+    const ignoredResponse = await meaningMaker.updatePerceptionState({ markers: [ marker ] });
+    assert.lengthOf(ignoredResponse.newTargets, 0);
+    assert.lengthOf(ignoredResponse.found, 0);
+
+    const foundResponse = await meaningMaker.updatePerceptionState({ markers: [ { ...marker, confidence: 0.8 } ] });
+    assert.lengthOf(foundResponse.found, 1);
+  });
+
+  it('requires targets to be detected in consecutive frames', async () => {
+    const meaningMaker = await initMM();
+    meaningMaker.minConsecutiveFrames = 2;
+    const url = new URL('/base/test-assets/test-barcode.html', window.location.href);
+    await meaningMaker.loadArtifactsFromUrl(url);
+
+    const marker = { type: 'qr_code', value: '1234567890' };
+    assert.lengthOf((await meaningMaker.updatePerceptionState({ markers: [ marker ] })).found, 0);
+
+    // A frame without the marker breaks the streak.
+    await meaningMaker.updatePerceptionState({});
+    assert.lengthOf((await meaningMaker.updatePerceptionState({ markers: [ marker ] })).found, 0);
+
+    const foundResponse = await meaningMaker.updatePerceptionState({ markers: [ marker ] });
+    assert.lengthOf(foundResponse.found, 1);
+    assert.lengthOf(foundResponse.newTargets, 1);
+  });
+
+  it('retracts results for removed artifacts', async () => {
+    const target = document.createElement('div');
+    const meaningMaker = new MeaningMaker(target);
+    meaningMaker.lastSeenTimeBuffer = 0;
+    const url = new URL('/base/test-assets/test-barcode.html', window.location.href);
+    const [ artifact ] = await meaningMaker.loadArtifactsFromUrl(url);
+
+    const marker = { type: 'qr_code', value: '1234567890' };
+    const foundResponse = await meaningMaker.updatePerceptionState({ markers: [ marker ] });
+    assert.lengthOf(foundResponse.found, 1);
+
+    const onArtifactsChanged = spy();
+    target.addEventListener(artifactsChanged, onArtifactsChanged);
+    assert.isTrue(await meaningMaker.removeArtifact(artifact));
+    assert.isFalse(await meaningMaker.removeArtifact(artifact));
+
+    assert.isTrue(onArtifactsChanged.calledOnce);
+    const { detail } = onArtifactsChanged.firstCall.args[0] as CustomEvent;
+    assert.deepEqual(detail.removed, [artifact]);
+    assert.lengthOf(detail.lost, 1);
+    assert.strictEqual(detail.lost[0], foundResponse.found[0]);
+
+    // Retracted results are not reported as lost again.
+    const response = await meaningMaker.updatePerceptionState({ markers: [ marker ] });
+    assert.lengthOf(response.found, 0);
+    assert.lengthOf(response.lost, 0);
+  });
+
+  it('retracts results for removed stores', async () => {
+    const meaningMaker = await initMM();
+    const store = new LocalArtifactStore();
+    store.addArtifact({ arTarget: { '@type': 'Barcode', 'text': 'Barcode1' }, arContent: 'Fake URL' });
+    await meaningMaker.addArtifactStore(store);
+
+    const marker = { type: 'qr_code', value: 'Barcode1' };
+    const foundResponse = await meaningMaker.updatePerceptionState({ markers: [ marker ] });
+    assert.lengthOf(foundResponse.found, 1);
+
+    assert.isTrue(await meaningMaker.removeArtifactStore(store));
+    const response = await meaningMaker.updatePerceptionState({ markers: [ marker ] });
+    assert.lengthOf(response.found, 0);
+    assert.lengthOf(response.lost, 0);
+  });
+
+  it('reloads artifacts from URLs', async () => {
+    const target = document.createElement('div');
+    const meaningMaker = new MeaningMaker(target);
+    const url = new URL('/base/test-assets/test-barcode.html', window.location.href);
+    const [ artifact ] = await meaningMaker.loadArtifactsFromUrl(url);
+
+    const onArtifactsChanged = spy();
+    target.addEventListener(artifactsChanged, onArtifactsChanged);
+    const reloaded = await meaningMaker.reloadArtifactsFromUrl(url);
+    assert.lengthOf(reloaded, 1);
+    assert.notStrictEqual(reloaded[0], artifact);
+    assert.strictEqual((await meaningMaker.loadArtifactsFromUrl(url))[0], reloaded[0]);
+
+    const { detail } = onArtifactsChanged.firstCall.args[0] as CustomEvent;
+    assert.deepEqual(detail.added, reloaded);
+    assert.deepEqual(detail.removed, [artifact]);
+
+    // Only the reloaded artifact is found.
+    const response = await meaningMaker.updatePerceptionState({
+      markers: [{ type: 'qr_code', value: '1234567890' }]
+    });
+    assert.lengthOf(response.found, 1);
+    assert.strictEqual(response.found[0].artifact, reloaded[0]);
+  });
+
+  it('unloads artifacts from URLs', async () => {
+    const target = document.createElement('div');
+    const meaningMaker = new MeaningMaker(target);
+    const url = new URL('/base/test-assets/test-barcode.html', window.location.href);
+    const [ artifact ] = await meaningMaker.loadArtifactsFromUrl(url);
+
+    const onArtifactsChanged = spy();
+    target.addEventListener(artifactsChanged, onArtifactsChanged);
+    assert.deepEqual(await meaningMaker.unloadArtifactsFromUrl(url), [artifact]);
+    assert.lengthOf(await meaningMaker.unloadArtifactsFromUrl(url), 0);
+
+    assert.isTrue(onArtifactsChanged.calledOnce);
+    const { detail } = onArtifactsChanged.firstCall.args[0] as CustomEvent;
+    assert.deepEqual(detail.removed, [artifact]);
+
+    const response = await meaningMaker.updatePerceptionState({
+      markers: [{ type: 'qr_code', value: '1234567890' }]
+    });
+    assert.lengthOf(response.found, 0);
+  });
+
+  it('locates results by the targets which triggered them', async () => {
+    const meaningMaker = await initMM();
+    const store = new LocalArtifactStore();
+    const artifact = { arTarget: { '@type': 'Barcode', 'text': 'Barcode1' }, arContent: 'Fake URL' };
+    store.addArtifact(artifact);
+    store.addArtifact({
+      arTarget: { '@type': 'GeoCoordinates', 'latitude': 1, 'longitude': 1, 'geoRadius': 100 },
+      arContent: 'Fake URL'
+    });
+    await meaningMaker.addArtifactStore(store);
+
+    const marker = { type: 'qr_code', value: 'Barcode1', boundingBox: { x: 1, y: 2, width: 3, height: 4 } };
+    const state = { markers: [ marker, { type: 'qr_code', value: 'Unknown' } ], geo: { latitude: 1, longitude: 1 } };
+    const { found } = await meaningMaker.updatePerceptionState(state);
+    assert.lengthOf(found, 2);
+
+    const locations = await meaningMaker.locateResults(state);
+    assert.equal(locations.size, 1);
+    const [ [ result, target ] ] = Array.from(locations);
+    assert.strictEqual(result.artifact, artifact);
+    assert.strictEqual(target, marker);
+  });
+
   it.skip('loads markers dynamically', async () => {
     const meaningMaker = await initMM();
     const url = new URL('/base/test-assets/test-dynamic.html', window.location.href);
@@ -17,6 +17,7 @@
 
 import { html, styles } from './perception-toolkit.template.js';
 
+import { BoundingBox, TargetGeometry } from '../../../defs/geometry.js';
 import { Marker } from '../../../defs/marker.js';
 import {
   PerceptionToolkitConfig,
@@ -24,25 +25,41 @@ import {
   PerceptionToolkitEvents,
   PerceptionToolkitFunctions,
 } from '../../../perception-toolkit/defs.js';
-import { ProbableTargets } from '../../artifacts/artifact-dealer.js';
-import { ArtifactStore } from '../../artifacts/stores/artifact-store.js';
-import { detectBarcodes } from '../../detectors/marker/barcode.js';
-import { addDetectionTarget, detectPlanarImages, getTarget, reset } from '../../detectors/planar-image/planar-image.js';
-import { cameraAccessDenied, captureClosed, captureFrame, markerDetect, perceivedResults } from '../../events.js';
+import { CreativeWork, GeoCoordinates } from '../../artifacts/schema/core-schema-org.js';
+import { PerceptionResult } from '../../artifacts/stores/artifact-store.js';
+import { ConfigChangedDetail, getConfig } from '../../config/config-manager.js';
+import {
+  artifactsChanged,
+  cameraAccessDenied,
+  cameraChange,
+  captureClosed,
+  captureFrame,
+  configChanged,
+  markerDetect,
+  perceivedResults
+} from '../../events.js';
+import { SessionRecorder, SessionRecording } from '../../recording/session-recorder.js';
+import { replaySession, SessionReplay } from '../../recording/session-replay.js';
+import { PerceptionSession } from '../../session/perception-session.js';
+import { cameraConstraints, findCameraByLabel, listCameras } from '../../utils/camera.js';
+import { clamp } from '../../utils/clamp.js';
 import { observeConnectivityChanges, unobserveConnectivityChanges} from '../../utils/connectivity-changed.js';
 import { supportsEnvironmentCamera } from '../../utils/environment-camera.js';
+import { fillCaptures } from '../../utils/fill-captures.js';
 import { fire } from '../../utils/fire.js';
-import { flat } from '../../utils/flat.js';
+import { geolocation } from '../../utils/geolocation-async.js';
 import { DEBUG_LEVEL, log } from '../../utils/logger.js';
 import { vibrate } from '../../utils/vibrate.js';
 import { ActionButton } from '../action-button/action-button.js';
-import { Card, CardData } from '../card/card.js';
+import { createOverlayContent } from '../ar-overlay/ar-overlay.js';
+import { cardContents, renderCardContent } from '../card/card-renderers.js';
+import { Card } from '../card/card.js';
 import { DotLoader } from '../dot-loader/dot-loader.js';
-import { MeaningMaker, PerceptionStateChangeResponse } from '../meaning-maker/meaning-maker.js';
+import { ArtifactsChangedDetail, PerceptionStateChangeResponse } from '../meaning-maker/meaning-maker.js';
 import { OnboardingCard } from '../onboarding-card/onboarding-card.js';
 import { hideOverlay, showOverlay } from '../overlay/overlay.js';
-import { StreamCapture } from '../stream-capture/stream-capture.js';
-import { DetectedImage } from '../../../defs/detected-image.js';
+import { CaptureSchedule, CaptureScheduler } from '../stream-capture/capture-scheduler.js';
+import { AROverlay, StreamCapture } from '../stream-capture/stream-capture.js';
 
 window.PerceptionToolkit = window.PerceptionToolkit || {
   Elements: {} as PerceptionToolkitElements,
@@ -51,20 +68,72 @@ window.PerceptionToolkit = window.PerceptionToolkit || {
   config: {} as PerceptionToolkitConfig,
 };
 
-const {
-  acknowledgeUnknownItems = true,
-  artifactSources = [],
-  artifactStores = [],
-  cardContainer,
-  cardUrlLabel = 'View Details',
-  cardMainEntityLabel = 'Launch',
-  cardShouldLaunchNewWindow = false,
-  detectionMode = 'passive',
-  detectors = 'lazy',
-  hintTimeout = 10000,
-  maxCards = 1,
-  root = ''
-} = window.PerceptionToolkit.config;
+/*
+ * Returns the current config, with the defaults of any options which are not
+ * set. This is read again whenever the config changes.
+ */
+function toolkitConfig() {
+  const {
+    acknowledgeUnknownItems = true,
+    adaptiveCapture = false,
+    anchorCards = false,
+    arOverlays = false,
+    cacheArtifacts = false,
+    cameraControls = true,
+    cameraResolution,
+    captureBitmaps = false,
+    captureBudget,
+    cardContainer,
+    cardUrlLabel = 'View Details',
+    cardMainEntityLabel = 'Launch',
+    cardShouldLaunchNewWindow = false,
+    cropToReticle = false,
+    detectionMode = 'passive',
+    highlightTargets = false,
+    hintTimeout = 10000,
+    maxCards = 1,
+    preferredCameraLabel,
+    recordSession = false,
+    replaySource,
+    trackGeolocation = false
+  } = getConfig();
+
+  return {
+    acknowledgeUnknownItems,
+    adaptiveCapture,
+    anchorCards,
+    arOverlays,
+    cacheArtifacts,
+    cameraControls,
+    cameraResolution,
+    captureBitmaps,
+    captureBudget,
+    cardContainer,
+    cardMainEntityLabel,
+    cardShouldLaunchNewWindow,
+    cardUrlLabel,
+    cropToReticle,
+    detectionMode,
+    highlightTargets,
+    hintTimeout,
+    maxCards,
+    preferredCameraLabel,
+    recordSession,
+    replaySource,
+    trackGeolocation
+  };
+}
+
+// How often, in ms, to refresh the user's location when it is being tracked.
+const GEOLOCATION_RATE = 5000;
+
+// The gap, in px, between an anchored card and the target it is anchored to.
+const CARD_ANCHOR_GAP = 12;
+
+// The fraction of time which detection may use in each mode, by default.
+// Burst mode captures as often as frames can be processed, so may use more.
+const PASSIVE_CAPTURE_BUDGET = 0.25;
+const BURST_CAPTURE_BUDGET = 0.5;
 
 /**
  * Perception Toolkit
@@ -76,37 +145,49 @@ export class PerceptionToolkit extends HTMLElement {
    */
   static defaultTagName = 'perception-toolkit';
 
-  private static get STREAM_OPTS() {
-    return {
-      video: {
-        facingMode: 'environment'
-      }
-    };
-  }
-
   private readonly root = this.attachShadow({ mode: 'open' });
-  private readonly meaningMaker = new MeaningMaker();
+  // The config, which is read again when it changes.
+  private config = toolkitConfig();
+  // Finds targets in captured frames, and the results for them.
+  private readonly session = new PerceptionSession(getConfig(), this);
   private readonly onVisibilityChangeBound = this.onVisibilityChange.bind(this);
   private readonly onMarkerFoundBound = this.onMarkerFound.bind(this);
   private readonly onCaptureFrameBound = this.onCaptureFrame.bind(this);
   private readonly onCloseBound = this.onClose.bind(this);
-  private readonly startupDetections: Array<Promise<Array<{}>>> = [];
-  private readonly detectorsToUse = {
-    barcode: true,
-    image: false
-  };
+  private readonly onCameraChangeBound = this.onCameraChange.bind(this);
+  private readonly onArtifactsChangedBound = this.onArtifactsChanged.bind(this);
+  private readonly onConfigChangedBound = this.onConfigChanged.bind(this);
+  private readonly onActiveCaptureBound = this.onActiveCapture.bind(this);
+  private readonly followTargetsBound = this.followTargets.bind(this);
+  // Adapts how often, and at what scale, frames are captured in passive and burst modes.
+  private captureScheduler = this.createCaptureScheduler();
+  // The cards created for found results, which are anchored when `anchorCards` is set.
+  private readonly cardsForResults = new Map<PerceptionResult, Card>();
+  // The overlays of found results (or null if they have none) when `arOverlays` is set.
+  private readonly overlaysForResults = new Map<PerceptionResult, AROverlay | null>();
+  private overlayCount = 0;
+  // The results triggered by each image in view, which follow it while it is tracked.
+  private readonly resultsForImages = new Map<string, PerceptionResult[]>();
+  private isFollowingTargets = false;
+  // Whether targets are being followed at the display frame rate.
+  private isWatchingTargets = false;
+  // Incremented whenever the detection mode stops, which ends any burst.
+  private captureModeId = 0;
   private capture!: StreamCapture;
   private stream!: MediaStream;
+  // The camera chosen by the user or config, if any.
+  private deviceId: string | undefined;
+  private sessionRecorder: SessionRecorder | undefined;
+  private finishedRecording: Promise<SessionRecording> | undefined;
+  private replay: SessionReplay | undefined;
   private isRequestingNewStream = false;
   private isProcessingFrame = false;
+  private isDetecting = false;
   private hintTimeoutId = -1;
-
-  /* istanbul ignore next */
-  constructor() {
-    super();
-
-    this.initializeDetectors();
-  }
+  private geo: GeoCoordinates = {};
+  private geolocationEnabled = this.config.trackGeolocation;
+  private isRequestingGeolocation = false;
+  private lastGeolocationUpdate = -1;
 
   /**
    * @ignore Only public because it's a Custom Element.
@@ -128,16 +209,51 @@ export class PerceptionToolkit extends HTMLElement {
   }
 
   async start() {
-    await this.meaningMaker.init();
-    await this.addArtifactStores();
-    await this.loadArtifactSources();
+    // Pick up any changes made to the config since the last experience.
+    this.config = toolkitConfig();
+    const { recordSession, trackGeolocation } = this.config;
+    this.sessionRecorder = recordSession ? new SessionRecorder(recordSession === true ? {} : recordSession) : undefined;
+    this.geolocationEnabled = trackGeolocation;
+    this.captureScheduler = this.createCaptureScheduler();
+
+    await this.session.init();
     await this.onboardingComplete();
     await this.beginDetection();
 
-    observeConnectivityChanges();
+    observeConnectivityChanges({ canWorkOffline: this.config.cacheArtifacts });
+  }
+
+  /**
+   * Reloads the artifacts from a URL, replacing (and retracting the results of)
+   * any which were previously loaded from it.
+   */
+  async reloadArtifactsFromUrl(url: string) {
+    return this.session.reloadArtifactsFromUrl(url);
+  }
+
+  /**
+   * Returns the capture interval and scale chosen by the adaptive scheduler,
+   * and the measurements they were chosen from, for debugging.
+   */
+  getCaptureSchedule(): CaptureSchedule {
+    return this.captureScheduler.schedule;
+  }
+
+  /**
+   * Returns the session recorded so far, if `recordSession` is set. Recorded
+   * video is only included once the experience has stopped.
+   */
+  async getSessionRecording(): Promise<SessionRecording | undefined> {
+    if (!this.sessionRecorder) {
+      return;
+    }
+
+    return this.isDetecting ? this.sessionRecorder.getRecording() : this.finishedRecording;
   }
 
   stop() {
+    this.isDetecting = false;
+
     // Stop and hide the capture.
     this.capture.classList.remove('active');
     this.capture.stop();
@@ -145,9 +261,23 @@ export class PerceptionToolkit extends HTMLElement {
     unobserveConnectivityChanges();
     hideOverlay();
     clearTimeout(this.hintTimeoutId);
+    this.stopCaptureMode();
+    this.captureScheduler.stop();
 
-    // Reset the planar image detector.
-    reset();
+    if (this.replay) {
+      this.replay.stop();
+      this.replay = undefined;
+    }
+
+    if (this.sessionRecorder) {
+      this.finishedRecording = this.sessionRecorder.stop();
+    }
+
+    // Release the detectors' targets. They are initialized again if reused.
+    this.session.stop();
+    this.cardsForResults.clear();
+    this.overlaysForResults.clear();
+    this.resultsForImages.clear();
 
     const onboarding = document.querySelector(OnboardingCard.defaultTagName);
     if (onboarding) {
@@ -161,90 +291,22 @@ export class PerceptionToolkit extends HTMLElement {
 
   private addEventListeners() {
     window.addEventListener('visibilitychange', this.onVisibilityChangeBound);
+    window.addEventListener(configChanged, this.onConfigChangedBound);
     this.addEventListener(captureFrame, this.onCaptureFrameBound);
     this.addEventListener(captureClosed, this.onCloseBound);
+    this.addEventListener(cameraChange, this.onCameraChangeBound);
     this.addEventListener(markerDetect, this.onMarkerFoundBound);
+    this.addEventListener(artifactsChanged, this.onArtifactsChangedBound);
   }
 
   private removeEventListeners() {
     window.removeEventListener('visibilitychange', this.onVisibilityChangeBound);
+    window.removeEventListener(configChanged, this.onConfigChangedBound);
     this.removeEventListener(captureFrame, this.onCaptureFrameBound);
     this.removeEventListener(captureClosed, this.onCloseBound);
+    this.removeEventListener(cameraChange, this.onCameraChangeBound);
     this.removeEventListener(markerDetect, this.onMarkerFoundBound);
-  }
-
-  private initializeDetectors() {
-    const label = 'Perception Toolkit';
-    const attemptData = new ImageData(640, 480);
-    if (!detectors || detectors === 'lazy') {
-      log('Loading detectors (lazy)', DEBUG_LEVEL.INFO, label);
-      this.startupDetections.push(detectBarcodes(attemptData, { root }));
-      return;
-    }
-
-    // Load all detectors.
-    if (detectors === 'all') {
-      log('Loading detectors (all)', DEBUG_LEVEL.INFO, label);
-
-      this.startupDetections.push(detectBarcodes(attemptData, { root }));
-      this.startupDetections.push(detectPlanarImages(attemptData, { root }));
-      this.detectorsToUse.barcode = true;
-      this.detectorsToUse.image = true;
-      return;
-    }
-
-    // Work on a case-by-case basis instead.
-    for (const [detectorName, detector] of Object.entries(detectors)) {
-      if (detector === 'lazy' || !detector) {
-        log(`Loading ${detectorName} (lazy)`, DEBUG_LEVEL.INFO, label);
-        continue;
-      }
-
-      log(`Loading ${detectorName} (full)`, DEBUG_LEVEL.INFO, label);
-      switch (detectorName) {
-        case 'barcode':
-          this.startupDetections.push(detectBarcodes(attemptData, { root }));
-          this.detectorsToUse.barcode = true;
-          break;
-
-        case 'image':
-          this.startupDetections.push(detectPlanarImages(attemptData, { root }));
-          this.detectorsToUse.image = true;
-          break;
-      }
-    }
-  }
-
-  private async addArtifactStores() {
-    if (!artifactStores) {
-      return;
-    }
-    let stores: ArtifactStore | ArtifactStore[] = artifactStores;
-    if (!Array.isArray(stores)) {
-      stores = [artifactStores as unknown as ArtifactStore];
-    }
-
-    for (const store of stores) {
-      this.meaningMaker.addArtifactStore(store);
-    }
-  }
-
-  private async loadArtifactSources() {
-    if (!artifactSources) {
-      return;
-    }
-
-    // TODO: Move this to a config manager.
-    let sources: string | string[] = artifactSources;
-    if (!Array.isArray(sources)) {
-      sources = [artifactSources as unknown as string];
-    }
-
-    const load = sources.map((url) => {
-      return this.meaningMaker.loadArtifactsFromUrl(new URL(url, document.URL));
-    });
-
-    await Promise.all(load);
+    this.removeEventListener(artifactsChanged, this.onArtifactsChangedBound);
   }
 
   private async onboardingComplete() {
@@ -267,15 +329,14 @@ export class PerceptionToolkit extends HTMLElement {
       // Stream.
       await this.initializeStreamCapture();
 
-      // Detectors.
+      // Detectors, and their image targets.
       const overlayInit = { id: 'pt.detectors', small: true };
       showOverlay('Initializing detectors...', overlayInit);
-      await Promise.all(this.startupDetections);
+      await this.session.start();
       hideOverlay(overlayInit);
+      this.isDetecting = true;
 
-      // Sets up MM initial context.
-      const nextFrameContext = await this.meaningMaker.updatePerceptionState({});
-      await this.prepareForNextFrame(nextFrameContext);
+      this.followTargetsIfShown();
 
       this.hideLoaderIfNeeded();
     } catch (e) {
@@ -283,51 +344,6 @@ export class PerceptionToolkit extends HTMLElement {
     }
   }
 
-  private async prepareForNextFrame(nextFrameContext: ProbableTargets) {
-    // Prep Image Targets
-    if ((this.detectorsToUse.image || detectors === 'lazy' || detectors === 'all')
-        && nextFrameContext.detectableImages.length > 0) {
-      const overlayInit = { id: 'pt.imagetargets', small: true };
-      showOverlay('Obtaining image targets...', overlayInit);
-
-      // Enable detection for any targets.
-      let imageCount = 0;
-      for (const image of nextFrameContext.detectableImages) {
-        for (const media of image.media) {
-          // If the object does not match our requirements, bail.
-          if (!media['@type'] || media['@type'] !== 'MediaObject' ||
-              !media.contentUrl || !media.encodingFormat ||
-              media.encodingFormat !== 'application/octet+pd') {
-            continue;
-          }
-
-          const url = media.contentUrl.toString();
-          log(`Loading ${url}`, DEBUG_LEVEL.VERBOSE);
-
-          // Obtain a Uint8Array for the file.
-          try {
-            const bytes = await fetch(url, { credentials: 'include' })
-                .then(r => r.arrayBuffer())
-                .then(b => new Uint8Array(b));
-
-            // Switch on detection.
-            log(`Adding detection target: ${image.id}`);
-            addDetectionTarget(bytes, image);
-            imageCount++;
-          } catch (e) {
-            log(`Unable to load ${url}`, DEBUG_LEVEL.WARNING);
-          }
-        }
-      }
-
-      hideOverlay(overlayInit);
-      log(`${imageCount} target(s) added`, DEBUG_LEVEL.INFO);
-
-      // Declare the detector ready to use.
-      this.detectorsToUse.image = true;
-    }
-  }
-
   private hideLoaderIfNeeded() {
     const loader = document.querySelector(DotLoader.defaultTagName);
     if (!loader) {
@@ -338,17 +354,41 @@ export class PerceptionToolkit extends HTMLElement {
   }
 
   private async initializeStreamCapture() {
+    const {
+      cameraControls,
+      captureBitmaps,
+      cropToReticle,
+      detectionMode,
+      hintTimeout,
+      preferredCameraLabel,
+      replaySource
+    } = this.config;
     log(`Starting detection: ${detectionMode}`, DEBUG_LEVEL.INFO,
         'Perception Toolkit');
 
-    // Attempt to get access to the user's camera.
+    // Attempt to get access to the user's camera, unless a session is replayed.
     try {
-      this.stream =
-          await navigator.mediaDevices.getUserMedia(PerceptionToolkit.STREAM_OPTS);
+      this.stream = await this.requestStream();
+
+      // Camera labels are only available once access has been granted, so
+      // switch to the preferred camera afterwards.
+      const cameras = replaySource ? [] : await listCameras();
+      const preferredCamera = preferredCameraLabel ? findCameraByLabel(cameras, preferredCameraLabel) : undefined;
+      if (preferredCamera && preferredCamera.deviceId !== this.streamDeviceId()) {
+        this.stopStream();
+        this.deviceId = preferredCamera.deviceId;
+        this.stream = await this.requestStream();
+      }
+
+      if (this.sessionRecorder) {
+        this.sessionRecorder.start(this.stream);
+      }
 
-      const devices = await navigator.mediaDevices.enumerateDevices();
-      const hasEnvCamera = await supportsEnvironmentCamera(devices);
-      this.capture.flipped = !hasEnvCamera;
+      this.capture.cameras = cameras;
+      this.capture.showCameraControls = cameraControls && !replaySource;
+      this.capture.flipped = !replaySource && await this.shouldFlipStream();
+      this.capture.captureBitmap = captureBitmaps;
+      this.capture.cropToReticle = cropToReticle;
       this.capture.classList.add('active');
       this.capture.start(this.stream);
       this.configureCaptureMode();
@@ -357,39 +397,99 @@ export class PerceptionToolkit extends HTMLElement {
         showOverlay('Make sure the marker is inside the box.');
       }, hintTimeout) as unknown as number;
     } catch (e) {
+      if (replaySource) {
+        log(`Unable to replay session: ${e.message}`, DEBUG_LEVEL.ERROR, 'Replay');
+        return;
+      }
+
       // User has denied or there are no cameras.
       fire(cameraAccessDenied, window);
     }
   }
 
+  /**
+   * Starts capturing frames as the detection mode requires, stopping whichever
+   * mode was in use before.
+   */
   private configureCaptureMode() {
-    // Helper function for the different modes.
-    const captureAndEmit = async () => {
-      const imgData = await this.capture.captureFrame();
-      fire(captureFrame, this.capture, {imgData, detectionMode});
-    };
+    this.stopCaptureMode();
 
+    const { adaptiveCapture, detectionMode } = this.config;
     switch (detectionMode) {
       case 'active':
-        this.capture.addEventListener('click', async () => {
-          this.capture.paused = true;
-          showOverlay('Processing...');
-          await captureAndEmit();
-        });
+        this.capture.addEventListener('click', this.onActiveCaptureBound);
         break;
 
       case 'burst':
-        const burst = async () => {
-          await captureAndEmit();
+        // Capture once the last frame has been processed, and (if adaptive)
+        // once the scheduled interval has passed.
+        const captureModeId = this.captureModeId;
+        let lastCapture = -1;
+        const burst = async (now: number) => {
+          if (captureModeId !== this.captureModeId) {
+            return;
+          }
+
+          const interval = this.config.adaptiveCapture ? this.captureScheduler.schedule.interval : 0;
+          if (!this.isProcessingFrame && now - lastCapture >= interval) {
+            lastCapture = now;
+            await this.captureAndFire();
+          }
           requestAnimationFrame(burst);
         };
         requestAnimationFrame(burst);
         break;
 
       default:  // passive
-        this.capture.captureRate = 400;
+        this.capture.captureRate = adaptiveCapture ? this.captureScheduler.schedule.interval : 400;
         break;
     }
+
+    if (adaptiveCapture && detectionMode !== 'active') {
+      this.captureScheduler.start();
+    }
+  }
+
+  private stopCaptureMode() {
+    this.captureModeId++;
+    this.capture.removeEventListener('click', this.onActiveCaptureBound);
+    this.capture.captureRate = 0;
+  }
+
+  private async onActiveCapture() {
+    this.capture.paused = true;
+    showOverlay('Processing...');
+    await this.captureAndFire();
+  }
+
+  private async captureAndFire() {
+    const imgData = await this.capture.captureFrame();
+    const region = this.capture.getCaptureRegion();
+    fire(captureFrame, this.capture, {imgData, region, detectionMode: this.config.detectionMode});
+  }
+
+  private createCaptureScheduler() {
+    const { captureBudget, detectionMode } = this.config;
+    return new CaptureScheduler({
+      budget: typeof captureBudget === 'number' ? captureBudget :
+          detectionMode === 'burst' ? BURST_CAPTURE_BUDGET : PASSIVE_CAPTURE_BUDGET,
+      minInterval: detectionMode === 'burst' ? 0 : undefined,
+    });
+  }
+
+  /**
+   * Applies the adaptive scheduler's latest interval and scale to the capture.
+   */
+  private applyCaptureSchedule() {
+    if (!this.config.adaptiveCapture || this.config.detectionMode === 'active') {
+      return;
+    }
+
+    const { interval, scale } = this.captureScheduler.schedule;
+    if (this.config.detectionMode !== 'burst') {
+      this.capture.captureRate = interval;
+    }
+    this.capture.captureScale = scale;
   }
 
   private async onVisibilityChange() {
@@ -404,8 +504,7 @@ export class PerceptionToolkit extends HTMLElement {
 
     // Block multiple requests for a new stream.
     this.isRequestingNewStream = true;
-    this.stream =
-        await navigator.mediaDevices.getUserMedia(PerceptionToolkit.STREAM_OPTS);
+    this.stream = await this.requestStream();
     this.isRequestingNewStream = false;
 
     // Bail if the document is hidden again.
@@ -418,32 +517,118 @@ export class PerceptionToolkit extends HTMLElement {
     this.capture.start(this.stream);
   }
 
+  /**
+   * Restarts the capture with the camera which the user chose.
+   */
+  private async onCameraChange(evt: Event) {
+    if (this.isRequestingNewStream) {
+      return;
+    }
+
+    const { deviceId } = (evt as CustomEvent<{deviceId: string}>).detail;
+    this.isRequestingNewStream = true;
+    try {
+      // Some devices can only open one camera at a time.
+      this.capture.stop();
+      this.deviceId = deviceId;
+      this.stream = await this.requestStream();
+      this.capture.flipped = await this.shouldFlipStream();
+      this.capture.start(this.stream);
+    } catch (e) {
+      log(`Unable to switch camera: ${e.message}`, DEBUG_LEVEL.ERROR, 'Camera');
+    }
+    this.isRequestingNewStream = false;
+  }
+
+  private async requestStream() {
+    const { cameraResolution, replaySource } = this.config;
+    if (!replaySource) {
+      return navigator.mediaDevices.getUserMedia(cameraConstraints({ ...cameraResolution, deviceId: this.deviceId }));
+    }
+
+    // A replay is given as a list of images, or the URL of a recording.
+    if (this.replay) {
+      this.replay.stop();
+    }
+
+    const source = typeof replaySource === 'string' ?
+        await (await fetch(replaySource)).json() as SessionRecording :
+        replaySource;
+    const replay = await replaySession(source);
+    replay.finished.then(() => log('Replay finished', DEBUG_LEVEL.INFO, 'Replay'));
+    this.replay = replay;
+    return replay.stream;
+  }
+
+  private streamDeviceId() {
+    const [ track ] = this.stream.getVideoTracks();
+    return track ? track.getSettings().deviceId : undefined;
+  }
+
+  private stopStream() {
+    for (const track of this.stream.getTracks()) {
+      track.stop();
+    }
+  }
+
+  /**
+   * Whether to mirror the stream, which is only done for user-facing cameras.
+   * Where the camera does not report which way it faces, the stream is mirrored
+   * if the device has no environment-facing camera.
+   */
+  private async shouldFlipStream() {
+    const [ track ] = this.stream.getVideoTracks();
+    const facingMode = track ? track.getSettings().facingMode : undefined;
+    if (facingMode) {
+      return facingMode === 'user';
+    }
+
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return !await supportsEnvironmentCamera(devices);
+  }
+
   private async onCaptureFrame(evt: Event) {
     // Lock until the frame has been processed.
     if (this.isProcessingFrame) {
       return;
     }
     this.isProcessingFrame = true;
-    const frameEvt = evt as CustomEvent<{imgData: ImageData}>;
-    const { imgData } = frameEvt.detail;
-
-    // Only use detectors that we explicitly ask to run.
-    // This is set in the config, under `detectors`.
-    const [ detectedMarkers, detectedImages ]  = await Promise.all([
-      this.detectorsToUse.barcode ? detectBarcodes(imgData, { root }) : [],
-      this.detectorsToUse.image ? detectPlanarImages(imgData, { root }) : [],
-    ]);
-
-    const response = await this.meaningMaker.updatePerceptionState({
-      markers: detectedMarkers,
-      geo: {},
-      images: detectedImages,
-      shouldLoadArtifactsFrom: window.PerceptionToolkit.config.shouldLoadArtifactsFrom
-    });
+    const frameEvt = evt as CustomEvent<{imgData: ImageData | ImageBitmap, region?: BoundingBox}>;
+    const { imgData, region } = frameEvt.detail;
+
+    // Refresh the location in the background; detection uses the last known.
+    this.updateGeolocation();
+
+    // Frames are recorded before any detector can transfer them to a worker.
+    const recordedFrame = this.sessionRecorder && this.sessionRecorder.recordFrame(imgData, region);
+
+    // Find the targets in the frame, and locate them on screen.
+    const layout = this.capture.getFrameLayout();
+    const scale = this.capture.getFrameScale();
+    const response = await this.session.processFrame(imgData, { geo: this.geo, layout, region, scale });
+    for (const { name, latency } of response.detectors) {
+      this.captureScheduler.recordLatency(name, latency);
+    }
+    this.applyCaptureSchedule();
 
-    // Vibrate if we have at least 1 new target -- even if we don't have content for it.
+    if (this.sessionRecorder && recordedFrame) {
+      for (const { name, detections } of response.detectors) {
+        this.sessionRecorder.recordDetections(recordedFrame, name, detections);
+      }
+      this.sessionRecorder.recordResponse(recordedFrame, response);
+    }
+
+    const { markers: detectedMarkers, images: detectedImages } = response;
+    if (this.config.highlightTargets) {
+      this.capture.highlightTargets([...detectedMarkers, ...detectedImages]);
+    }
+
+    // Vibrate if we have at least 1 new target -- even if we don't have content for it,
+    // unless it is printed text.
     if (response.newTargets.length > 0) {
-      vibrate(200);
+      if (response.found.length > 0 || response.newTargets.some((target) => (target as Marker).type !== 'text')) {
+        vibrate(200);
+      }
 
       for (const target of response.newTargets) {
         log(target, DEBUG_LEVEL.INFO, 'Detect');
@@ -463,6 +648,32 @@ export class PerceptionToolkit extends HTMLElement {
       if (!markerChangeEvt.defaultPrevented) {
         this.updateContentDisplay(response);
       }
+
+      this.forgetResults(response.lost);
+    }
+
+    if (this.config.anchorCards || this.config.arOverlays) {
+      const locations = await this.session.locateResults({
+        images: detectedImages,
+        markers: detectedMarkers
+      });
+
+      if (this.config.anchorCards) {
+        this.anchorCardsToTargets(locations);
+      }
+
+      if (this.config.arOverlays) {
+        this.updateOverlays(locations);
+      }
+
+      // Remember which results each image triggered, so they can follow it.
+      this.resultsForImages.clear();
+      for (const [result, target] of locations) {
+        const image = detectedImages.find((detectedImage) => detectedImage === target);
+        if (image) {
+          this.resultsForImages.set(image.id, [...(this.resultsForImages.get(image.id) || []), result]);
+        }
+      }
     }
 
     // See if we have any "unknown" markers
@@ -480,6 +691,161 @@ export class PerceptionToolkit extends HTMLElement {
     this.isProcessingFrame = false;
   }
 
+  /**
+   * Follows the targets in view at the display frame rate, between captured
+   * frames, so that highlights, anchored cards and overlays move with them.
+   * Only detectors which can track their targets are followed.
+   */
+  private async followTargets() {
+    if (!this.isDetecting) {
+      this.isWatchingTargets = false;
+      return;
+    }
+
+    requestAnimationFrame(this.followTargetsBound);
+    if (!this.session.hasTrackedTargets || this.isProcessingFrame || this.isFollowingTargets) {
+      return;
+    }
+
+    const frame = this.capture.readFrame();
+    const layout = this.capture.getFrameLayout();
+    const region = this.capture.getCaptureRegion();
+    if (!frame || !layout) {
+      return;
+    }
+
+    this.isFollowingTargets = true;
+    const scale = this.capture.getFrameScale();
+    const followed = await this.session.followTargets(frame, { layout, region, scale });
+    this.isFollowingTargets = false;
+
+    // Bail if detection stopped, or a captured frame was processed, meanwhile.
+    if (!followed || !this.isDetecting || this.isProcessingFrame) {
+      return;
+    }
+
+    const { markers = [], images = [] } = followed;
+    if (this.config.highlightTargets) {
+      this.capture.highlightTargets([...markers, ...images]);
+    }
+
+    const locations = new Map<PerceptionResult, TargetGeometry>();
+    for (const image of images) {
+      for (const result of this.resultsForImages.get(image.id) || []) {
+        locations.set(result, image);
+      }
+    }
+
+    if (this.config.anchorCards) {
+      this.anchorCardsToTargets(locations);
+    }
+
+    if (this.config.arOverlays) {
+      this.updateOverlays(locations);
+    }
+  }
+
+  private async updateGeolocation() {
+    const now = performance.now();
+    if (!this.geolocationEnabled || this.isRequestingGeolocation ||
+        now - this.lastGeolocationUpdate < GEOLOCATION_RATE) {
+      return;
+    }
+
+    this.isRequestingGeolocation = true;
+    try {
+      const { latitude, longitude } = await geolocation();
+      this.geo = { latitude, longitude };
+    } catch (e) {
+      log(`Unable to obtain location: ${e.message}`, DEBUG_LEVEL.WARNING,
+          'Geolocation');
+
+      // Stop asking if the user has explicitly denied access.
+      if (e.code === e.PERMISSION_DENIED) {
+        this.geolocationEnabled = false;
+      }
+    }
+
+    this.lastGeolocationUpdate = performance.now();
+    this.isRequestingGeolocation = false;
+  }
+
+  /**
+   * Starts following tracked targets between frames, unless they already are.
+   * Tracked targets only need following if they are shown.
+   */
+  private followTargetsIfShown() {
+    const { anchorCards, arOverlays, highlightTargets } = this.config;
+    if (this.isWatchingTargets || !this.session.canTrack || !(highlightTargets || anchorCards || arOverlays)) {
+      return;
+    }
+
+    this.isWatchingTargets = true;
+    requestAnimationFrame(this.followTargetsBound);
+  }
+
+  /**
+   * Applies changes to the config. Changes to the detection mode take effect
+   * immediately, and artifact sources and detectors are reloaded as needed.
+   */
+  private async onConfigChanged(evt: Event) {
+    const { changed } = (evt as CustomEvent<ConfigChangedDetail>).detail;
+    this.config = toolkitConfig();
+
+    const sessionChanges: string[] = ['cacheArtifacts', 'minConfidence', 'minConsecutiveFrames'];
+    if (changed.some((key) => sessionChanges.includes(key))) {
+      this.session.applyOptions();
+    }
+
+    if (changed.includes('artifactSources')) {
+      await this.session.loadArtifactSources();
+    }
+
+    if (changed.includes('detectors') || changed.includes('combineDetectors')) {
+      const previousDetectors = this.session.detectorNames;
+      await this.session.reloadDetectors();
+      for (const name of previousDetectors) {
+        if (!this.session.detectorNames.includes(name)) {
+          this.captureScheduler.forgetDetector(name);
+        }
+      }
+    }
+
+    if (!this.isDetecting) {
+      return;
+    }
+
+    const captureChanges: string[] = ['adaptiveCapture', 'captureBudget', 'detectionMode'];
+    if (changed.some((key) => captureChanges.includes(key))) {
+      log(`Changing detection: ${this.config.detectionMode}`, DEBUG_LEVEL.INFO, 'Perception Toolkit');
+      this.captureScheduler.stop();
+      this.captureScheduler = this.createCaptureScheduler();
+      this.capture.paused = false;
+      hideOverlay();
+      this.configureCaptureMode();
+    }
+
+    this.followTargetsIfShown();
+  }
+
+  /**
+   * Keeps the image targets in step with the artifacts, and retracts any results
+   * which are no longer valid.
+   */
+  private async onArtifactsChanged(evt: Event) {
+    if (!this.isDetecting) {
+      return;
+    }
+
+    const { lost } = (evt as CustomEvent<ArtifactsChangedDetail>).detail;
+    if (lost.length > 0) {
+      fire(perceivedResults, this, { found: [], lost });
+      this.forgetResults(lost);
+    }
+
+    await this.session.updateTargets();
+  }
+
   private async onMarkerFound(evt: Event) {
     // TODO: may be able to move this code into onCaptureFrame and remove this event.
     clearTimeout(this.hintTimeoutId);
@@ -487,7 +853,7 @@ export class PerceptionToolkit extends HTMLElement {
   }
 
   private updateContentDisplay(contentDiff: PerceptionStateChangeResponse) {
-    if (!cardContainer) {
+    if (!this.config.cardContainer) {
       log(`No card container provided, but event's default was not prevented`,
           DEBUG_LEVEL.ERROR);
       return;
@@ -497,13 +863,103 @@ export class PerceptionToolkit extends HTMLElement {
     this.createCardsForFoundItems(contentDiff);
   }
 
+  /**
+   * Stops anchoring cards, and overlaying content, for results which have been
+   * lost.
+   */
+  private forgetResults(lost: PerceptionResult[]) {
+    for (const result of lost) {
+      this.cardsForResults.delete(result);
+      this.overlaysForResults.delete(result);
+    }
+
+    for (const [id, results] of this.resultsForImages) {
+      this.resultsForImages.set(id, results.filter((result) => !lost.includes(result)));
+    }
+
+    if (this.config.arOverlays) {
+      this.capture.updateOverlays(this.currentOverlays());
+    }
+  }
+
+  /**
+   * Positions the cards of found results beside the targets which triggered
+   * them. Cards whose targets are not in the current frame stay where they are.
+   */
+  private anchorCardsToTargets(locations: Map<PerceptionResult, TargetGeometry>) {
+    for (const [result, card] of this.cardsForResults) {
+      if (!card.isConnected) {
+        this.cardsForResults.delete(result);
+        continue;
+      }
+
+      const target = locations.get(result);
+      if (!target || !target.screenBoundingBox) {
+        continue;
+      }
+
+      // Place the card to the right of the target, keeping it on screen.
+      const { x, y, width } = target.screenBoundingBox;
+      const left = clamp(x + width + CARD_ANCHOR_GAP, 0, window.innerWidth - card.offsetWidth);
+      const top = clamp(y, 0, window.innerHeight - card.offsetHeight);
+      card.classList.add('anchored');
+      card.style.position = 'fixed';
+      card.style.left = `${Math.round(left)}px`;
+      card.style.top = `${Math.round(top)}px`;
+    }
+  }
+
+  /**
+   * Overlays the content of found results onto the targets which triggered
+   * them. Overlays whose targets are not in the current frame stay where they
+   * are until the result is lost.
+   */
+  private updateOverlays(locations: Map<PerceptionResult, TargetGeometry>) {
+    for (const [result, { boundingBox, cornerPoints }] of locations) {
+      const points = cornerPoints || (boundingBox && [
+        { x: boundingBox.x, y: boundingBox.y },
+        { x: boundingBox.x + boundingBox.width, y: boundingBox.y },
+        { x: boundingBox.x + boundingBox.width, y: boundingBox.y + boundingBox.height },
+        { x: boundingBox.x, y: boundingBox.y + boundingBox.height },
+      ]);
+      if (!points) {
+        continue;
+      }
+
+      const overlay = this.overlaysForResults.get(result);
+      if (overlay) {
+        overlay.cornerPoints = points;
+        continue;
+      }
+
+      // Only try to create the content once per result.
+      if (overlay === null) {
+        continue;
+      }
+
+      const { artifact: { arContent }, captures } = result;
+      const content = createOverlayContent(captures ? fillCaptures(arContent, captures) : arContent);
+      this.overlaysForResults.set(result, content ?
+          { id: `overlay-${this.overlayCount++}`, content, cornerPoints: points } : null);
+    }
+
+    this.capture.updateOverlays(this.currentOverlays());
+  }
+
+  private currentOverlays() {
+    return Array.from(this.overlaysForResults.values())
+        .filter((overlay) => overlay !== null) as AROverlay[];
+  }
+
   private handleUnknownItems(targets: Marker[]) {
+    const { acknowledgeUnknownItems, cardContainer, maxCards } = this.config;
     if (!cardContainer ||  // No card container.
         !acknowledgeUnknownItems) {// The config says to ignore unknowns.
       return;
     }
 
-    for (const target of targets) {
+    // Printed text is everywhere, so only unknown barcodes are acknowledged.
+    for (const target of targets.filter(({ type }) => type !== 'text')) {
       // Prevent too many cards from showing.
       if (cardContainer.childNodes.length >= maxCards) {
         break;
@@ -520,6 +976,7 @@ export class PerceptionToolkit extends HTMLElement {
 
   // Remove 'unknown item' cards if there is now a found item.
   private removeUnknownItemsIfFound(contentDiff: PerceptionStateChangeResponse) {
+    const { cardContainer } = this.config;
     if (!cardContainer || contentDiff.found.length === 0) {
       return;
     }
@@ -531,43 +988,63 @@ export class PerceptionToolkit extends HTMLElement {
   }
 
   private createCardsForFoundItems(contentDiff: PerceptionStateChangeResponse) {
+    const {
+      anchorCards,
+      cardContainer,
+      cardMainEntityLabel,
+      cardShouldLaunchNewWindow,
+      cardUrlLabel,
+      maxCards
+    } = this.config;
     if (!cardContainer) {
       return;
     }
 
-    // Create a card for every found marker.
-    for (const { artifact: { arContent } } of contentDiff.found) {
-      // Prevent too many from showing.
-      if (cardContainer.childNodes.length >= maxCards) {
-        break;
-      }
+    // Create a card for every found marker, and every piece of its content.
+    for (const result of contentDiff.found) {
+      const { artifact: { arContent }, captures } = result;
+      // Content for pattern-matched targets may refer to the captured groups.
+      const contents = cardContents(captures ? fillCaptures(arContent, captures) : arContent);
 
-      const cardContent = arContent as CardData;
-      const card = new Card();
-      card.src = cardContent;
-      cardContainer.appendChild(card);
+      for (const content of contents) {
+        // Prevent too many from showing.
+        if (cardContainer.childNodes.length >= maxCards) {
+          return;
+        }
 
-      // Action Button: View Details.
-      if (typeof cardContent.url !== 'undefined') {
-        const viewDetails = createActionButton({
-          label: cardUrlLabel || 'View Details',
-          newWindow: cardShouldLaunchNewWindow,
-          url: cardContent.url,
-        });
+        const card = new Card();
+        card.src = renderCardContent(content);
+        cardContainer.appendChild(card);
+        if (anchorCards && !this.cardsForResults.has(result)) {
+          this.cardsForResults.set(result, card);
+        }
 
-        card.appendChild(viewDetails);
-      }
+        if (typeof content === 'string') {
+          continue;
+        }
 
-      // Action Button: Launch.
-      if (typeof cardContent.mainEntity !== 'undefined' &&
-          typeof cardContent.mainEntity.url !== 'undefined') {
-        const launch = createActionButton({
-          label: cardMainEntityLabel || 'Launch',
-          newWindow: cardShouldLaunchNewWindow,
-          url: cardContent.mainEntity.url,
-        });
+        // Action Button: View Details.
+        if (typeof content.url !== 'undefined') {
+          const viewDetails = createActionButton({
+            label: cardUrlLabel || 'View Details',
+            newWindow: cardShouldLaunchNewWindow,
+            url: content.url,
+          });
 
-        card.appendChild(launch);
+          card.appendChild(viewDetails);
+        }
+
+        // Action Button: Launch.
+        const { mainEntity } = content as CreativeWork;
+        if (typeof mainEntity !== 'undefined' && typeof mainEntity.url !== 'undefined') {
+          const launch = createActionButton({
+            label: cardMainEntityLabel || 'Launch',
+            newWindow: cardShouldLaunchNewWindow,
+            url: mainEntity.url,
+          });
+
+          card.appendChild(launch);
+        }
       }
     }
   }
@@ -0,0 +1,289 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { clamp } from '../../utils/clamp.js';
+import { DEBUG_LEVEL, log } from '../../utils/logger.js';
+
+/**
+ * The states reported by the Compute Pressure API, from least to most
+ * pressured.
+ */
+export type PressureState = 'nominal' | 'fair' | 'serious' | 'critical';
+
+interface BatteryManager extends EventTarget {
+  readonly charging: boolean;
+  readonly level: number;
+}
+
+interface PressureRecord {
+  readonly state: PressureState;
+}
+
+interface PressureObserver {
+  observe(source: 'cpu'): Promise<void>;
+  disconnect(): void;
+}
+
+declare global {
+  interface Navigator {
+    getBattery?(): Promise<BatteryManager>;
+  }
+
+  interface Window {
+    PressureObserver?: new (callback: (records: PressureRecord[]) => void) => PressureObserver;
+  }
+}
+
+/**
+ * The current capture settings chosen by a [[CaptureScheduler]], and what they
+ * were chosen from.
+ */
+export interface CaptureSchedule {
+  interval: number;  // ms between captured frames.
+  scale: number;  // The capture scale.
+  frameCost: number;  // The estimated ms of detection per captured frame.
+  budget: number;  // The fraction of time which detection may use, given the hints.
+  latencies: { [detector: string]: number };  // Smoothed ms per detection, by detector.
+  batteryLow: boolean;
+  pressure?: PressureState;
+}
+
+export interface CaptureSchedulerOptions {
+  budget?: number;  // The fraction of time which detection may use (default: 0.25).
+  interval?: number;  // The initial interval, in ms (default: 400).
+  minInterval?: number;  // (default: 100)
+  maxInterval?: number;  // (default: 800)
+  minScale?: number;  // (default: 0.25)
+  maxScale?: number;  // (default: 1)
+}
+
+// How much each new latency measurement contributes to the smoothed latency.
+const LATENCY_SMOOTHING = 0.3;
+
+// The factor by which the capture scale is stepped up or down.
+const SCALE_STEP = 0.8;
+
+// The number of measurements to wait for after changing scale, so that the
+// latencies reflect the new scale before it is changed again.
+const SCALE_SETTLE_FRAMES = 5;
+
+// The battery level, while discharging, below which the budget is reduced.
+const LOW_BATTERY_LEVEL = 0.2;
+
+// How much of the budget remains on a low battery, or under CPU pressure.
+const LOW_BATTERY_FACTOR = 0.5;
+const PRESSURE_FACTORS: { [state in PressureState]: number } = {
+  critical: 0.25,
+  fair: 1,
+  nominal: 1,
+  serious: 0.5,
+};
+
+/**
+ * CaptureScheduler adapts how often, and at what scale, frames are captured
+ * so that detection stays within a CPU budget. The budget is the fraction of
+ * time spent detecting, and is reduced when the battery is low or the CPU is
+ * under pressure, where the device reports it.
+ *
+ * The interval between frames follows the measured cost of detecting a frame.
+ * If the cost is too high even at the longest interval the scale is reduced,
+ * and it is raised again once the cost would comfortably allow it.
+ *
+ * ```javascript
+ * const scheduler = new CaptureScheduler({ budget: 0.25 });
+ * scheduler.start();
+ *
+ * // After each detection.
+ * scheduler.recordLatency('barcode', duration);
+ * const { interval, scale } = scheduler.schedule;
+ * ```
+ */
+export class CaptureScheduler {
+  private readonly budget: number;
+  private readonly minInterval: number;
+  private readonly maxInterval: number;
+  private readonly minScale: number;
+  private readonly maxScale: number;
+  private readonly latencies = new Map<string, number>();
+  private interval: number;
+  private scale: number;
+  private framesSinceScaleChange = 0;
+  private batteryLow = false;
+  private pressure: PressureState | undefined;
+  private battery: BatteryManager | undefined;
+  private pressureObserver: PressureObserver | undefined;
+  private readonly onBatteryChangeBound = this.onBatteryChange.bind(this);
+
+  constructor({
+    budget = 0.25,
+    interval = 400,
+    minInterval = 100,
+    maxInterval = 800,
+    minScale = 0.25,
+    maxScale = 1
+  }: CaptureSchedulerOptions = {}) {
+    this.budget = budget;
+    this.minInterval = minInterval;
+    this.maxInterval = Math.max(minInterval, maxInterval);
+    this.minScale = minScale;
+    this.maxScale = Math.max(minScale, maxScale);
+    this.interval = clamp(interval, this.minInterval, this.maxInterval);
+    this.scale = this.maxScale;
+  }
+
+  /**
+   * The current capture settings, for use and for debugging.
+   */
+  get schedule(): CaptureSchedule {
+    const latencies: { [detector: string]: number } = {};
+    for (const [detector, latency] of this.latencies) {
+      latencies[detector] = latency;
+    }
+
+    return {
+      batteryLow: this.batteryLow,
+      budget: this.currentBudget(),
+      frameCost: this.frameCost(),
+      interval: this.interval,
+      latencies,
+      pressure: this.pressure,
+      scale: this.scale,
+    };
+  }
+
+  /**
+   * Starts following the battery and CPU pressure, where they are reported.
+   */
+  async start() {
+    if (window.PressureObserver && !this.pressureObserver) {
+      try {
+        this.pressureObserver = new window.PressureObserver((records) => {
+          if (records.length > 0) {
+            this.setPressure(records[records.length - 1].state);
+          }
+        });
+        await this.pressureObserver.observe('cpu');
+      } catch (e) {
+        log(`Unable to observe CPU pressure: ${e.message}`, DEBUG_LEVEL.VERBOSE, 'Capture');
+      }
+    }
+
+    if (navigator.getBattery && !this.battery) {
+      try {
+        this.battery = await navigator.getBattery();
+        this.battery.addEventListener('chargingchange', this.onBatteryChangeBound);
+        this.battery.addEventListener('levelchange', this.onBatteryChangeBound);
+        this.onBatteryChange();
+      } catch (e) {
+        log(`Unable to read the battery: ${e.message}`, DEBUG_LEVEL.VERBOSE, 'Capture');
+      }
+    }
+  }
+
+  /**
+   * Stops following the battery and CPU pressure.
+   */
+  stop() {
+    if (this.pressureObserver) {
+      this.pressureObserver.disconnect();
+      this.pressureObserver = undefined;
+    }
+
+    if (this.battery) {
+      this.battery.removeEventListener('chargingchange', this.onBatteryChangeBound);
+      this.battery.removeEventListener('levelchange', this.onBatteryChangeBound);
+      this.battery = undefined;
+    }
+  }
+
+  /**
+   * Records how long, in ms, a detector took to detect a captured frame, and
+   * adapts the schedule to it.
+   */
+  recordLatency(detector: string, duration: number) {
+    const latency = this.latencies.get(detector);
+    this.latencies.set(detector, typeof latency === 'undefined' ? duration :
+        latency + (duration - latency) * LATENCY_SMOOTHING);
+
+    this.framesSinceScaleChange++;
+    this.update();
+  }
+
+  /**
+   * Forgets the latency of a detector which is no longer used.
+   */
+  forgetDetector(detector: string) {
+    this.latencies.delete(detector);
+    this.update();
+  }
+
+  setBatteryLow(batteryLow: boolean) {
+    this.batteryLow = batteryLow;
+    this.update();
+  }
+
+  setPressure(pressure: PressureState) {
+    this.pressure = pressure;
+    this.update();
+  }
+
+  private onBatteryChange() {
+    if (this.battery) {
+      this.setBatteryLow(!this.battery.charging && this.battery.level <= LOW_BATTERY_LEVEL);
+    }
+  }
+
+  private currentBudget() {
+    const pressureFactor = this.pressure ? PRESSURE_FACTORS[this.pressure] : 1;
+    return this.budget * pressureFactor * (this.batteryLow ? LOW_BATTERY_FACTOR : 1);
+  }
+
+  private frameCost() {
+    let cost = 0;
+    for (const latency of this.latencies.values()) {
+      cost += latency;
+    }
+    return cost;
+  }
+
+  private update() {
+    if (this.latencies.size === 0) {
+      return;
+    }
+
+    const cost = this.frameCost();
+    const budget = this.currentBudget();
+    const interval = cost / budget;
+    const { scale } = this;
+    if (this.framesSinceScaleChange >= SCALE_SETTLE_FRAMES) {
+      // The cost of detection is roughly proportional to the number of pixels.
+      const costAtLargerScale = cost / (SCALE_STEP * SCALE_STEP);
+      if (interval > this.maxInterval && scale > this.minScale) {
+        this.scale = Math.max(this.minScale, scale * SCALE_STEP);
+      } else if (costAtLargerScale / budget < this.maxInterval / 2 && scale < this.maxScale) {
+        this.scale = Math.min(this.maxScale, scale / SCALE_STEP);
+      }
+    }
+
+    if (this.scale !== scale) {
+      this.framesSinceScaleChange = 0;
+      log(`Capture scale: ${this.scale.toFixed(2)}`, DEBUG_LEVEL.VERBOSE, 'Capture');
+    }
+
+    this.interval = Math.round(clamp(interval, this.minInterval, this.maxInterval));
+  }
+}
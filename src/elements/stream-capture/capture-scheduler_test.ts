@@ -0,0 +1,108 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { CaptureScheduler } from './capture-scheduler.js';
+
+describe('CaptureScheduler', () => {
+  it('starts with the initial interval and full scale', () => {
+    const { interval, scale, frameCost } = new CaptureScheduler({ interval: 300 }).schedule;
+    assert.equal(interval, 300);
+    assert.equal(scale, 1);
+    assert.equal(frameCost, 0);
+  });
+
+  it('spaces frames to keep detection within the budget', () => {
+    const scheduler = new CaptureScheduler({ budget: 0.25 });
+    scheduler.recordLatency('barcode', 30);
+    scheduler.recordLatency('image', 20);
+
+    const { interval, frameCost, latencies } = scheduler.schedule;
+    assert.equal(frameCost, 50);
+    assert.equal(interval, 200);
+    assert.deepEqual(latencies, { barcode: 30, image: 20 });
+  });
+
+  it('smooths latencies', () => {
+    const scheduler = new CaptureScheduler();
+    scheduler.recordLatency('barcode', 40);
+    scheduler.recordLatency('barcode', 140);
+    assert.approximately(scheduler.schedule.latencies.barcode, 70, 0.001);
+  });
+
+  it('keeps the interval within bounds', () => {
+    const scheduler = new CaptureScheduler({ minInterval: 100, maxInterval: 800 });
+    scheduler.recordLatency('barcode', 1);
+    assert.equal(scheduler.schedule.interval, 100);
+
+    scheduler.forgetDetector('barcode');
+    scheduler.recordLatency('image', 1000);
+    assert.equal(scheduler.schedule.interval, 800);
+  });
+
+  it('reduces the scale when detection is too slow', () => {
+    const scheduler = new CaptureScheduler({ budget: 0.25, maxInterval: 800, minScale: 0.5 });
+    for (let i = 0; i < 5; i++) {
+      scheduler.recordLatency('image', 400);
+    }
+    assert.approximately(scheduler.schedule.scale, 0.8, 0.001);
+
+    // The scale only changes again once the latencies have settled.
+    scheduler.recordLatency('image', 400);
+    assert.approximately(scheduler.schedule.scale, 0.8, 0.001);
+
+    for (let i = 0; i < 20; i++) {
+      scheduler.recordLatency('image', 400);
+    }
+    assert.equal(scheduler.schedule.scale, 0.5);
+  });
+
+  it('raises the scale when detection is fast enough', () => {
+    const scheduler = new CaptureScheduler({ budget: 0.25, maxInterval: 800 });
+    for (let i = 0; i < 5; i++) {
+      scheduler.recordLatency('image', 400);
+    }
+    assert.isBelow(scheduler.schedule.scale, 1);
+
+    for (let i = 0; i < 20; i++) {
+      scheduler.recordLatency('image', 10);
+    }
+    assert.equal(scheduler.schedule.scale, 1);
+  });
+
+  it('reduces the budget on a low battery', () => {
+    const scheduler = new CaptureScheduler({ budget: 0.25 });
+    scheduler.recordLatency('barcode', 50);
+    scheduler.setBatteryLow(true);
+
+    const { batteryLow, budget, interval } = scheduler.schedule;
+    assert.isTrue(batteryLow);
+    assert.equal(budget, 0.125);
+    assert.equal(interval, 400);
+  });
+
+  it('reduces the budget under CPU pressure', () => {
+    const scheduler = new CaptureScheduler({ budget: 0.25 });
+    scheduler.setPressure('fair');
+    assert.equal(scheduler.schedule.budget, 0.25);
+
+    scheduler.setPressure('critical');
+    assert.equal(scheduler.schedule.pressure, 'critical');
+    assert.equal(scheduler.schedule.budget, 0.0625);
+  });
+});
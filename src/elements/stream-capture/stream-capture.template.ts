@@ -41,6 +41,52 @@ canvas {
   background: #111;
 }
 
+#highlights {
+  position: absolute;
+  background: none;
+  pointer-events: none;
+}
+
+#overlays {
+  position: absolute;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100%;
+  overflow: hidden;
+  pointer-events: none;
+}
+
+.ar-overlay {
+  position: absolute;
+  top: 0;
+  left: 0;
+  transform-origin: 0 0;
+  display: flex;
+  overflow: hidden;
+}
+
+.ar-overlay > * {
+  flex: 1;
+  min-width: 0;
+}
+
+.ar-overlay-image {
+  object-fit: contain;
+}
+
+.ar-overlay-label {
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  padding: var(--baseline);
+  background: rgba(0, 0, 0, 0.6);
+  color: #FFF;
+  font-family: Arial, Helvetica, sans-serif;
+  font-size: calc(var(--baseline) * 3);
+  text-align: center;
+}
+
 #reticle {
   width: 100%;
   height: 100%;
@@ -71,6 +117,55 @@ canvas {
   cursor: pointer;
 }
 
+#camera-controls {
+  display: flex;
+  align-items: center;
+  position: absolute;
+  top: 8px;
+  right: calc(var(--baseline) * 3 + 16px);
+}
+
+#camera-controls [hidden] {
+  display: none;
+}
+
+#camera-controls button {
+  width: calc(var(--baseline) * 3);
+  height: calc(var(--baseline) * 3);
+  margin-left: 8px;
+  background-color: #FFF;
+  background-position: center center;
+  background-repeat: no-repeat;
+  font-size: 0;
+  border: none;
+  border-radius: 50%;
+  cursor: pointer;
+}
+
+#camera-controls button[aria-pressed="true"] {
+  background-color: #FFD54F;
+}
+
+#switch-camera {
+  background-image: url(data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmci` +
+  `IHdpZHRoPSIyNCIgaGVpZ2h0PSIyNCIgdmlld0JveD0iMCAwIDI0IDI0Ij48cGF0aCBkPSJN` +
+  `MjAgNGgtMy4xN0wxNSAySDlMNy4xNyA0SDRjLTEuMSAwLTIgLjktMiAydjEyYzAgMS4xLjkg` +
+  `MiAyIDJoMTZjMS4xIDAgMi0uOSAyLTJWNmMwLTEuMS0uOS0yLTItMnptLTUgMTEuNVYxM0g5` +
+  `djIuNUw1LjUgMTIgOSA4LjVWMTFoNlY4LjVsMy41IDMuNS0zLjUgMy41eiIvPjxwYXRoIGQ9` +
+  `Ik0wIDBoMjR2MjRIMHoiIGZpbGw9Im5vbmUiLz48L3N2Zz4=);
+}
+
+#torch {
+  background-image: url(data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmci` +
+  `IHdpZHRoPSIyNCIgaGVpZ2h0PSIyNCIgdmlld0JveD0iMCAwIDI0IDI0Ij48cGF0aCBkPSJN` +
+  `NyAydjExaDN2OWw3LTEyaC00bDQtOHoiLz48cGF0aCBkPSJNMCAwaDI0djI0SDB6IiBmaWxs` +
+  `PSJub25lIi8+PC9zdmc+);
+}
+
+#zoom {
+  width: calc(var(--baseline) * 8);
+}
+
 .overlay {
   position: absolute;
   bottom: 50px;
@@ -107,5 +202,10 @@ export const html = `<svg id="reticle" viewBox="0 0 133 100"
   <rect id="reticle-box" width="133" height="100" x="0" y="0"
       fill="rgba(0,0,0,0.4)" mask="url(#reticle-cut-out)" />
 </svg>
+<div id="camera-controls">
+  <input id="zoom" type="range" aria-label="Zoom" hidden>
+  <button id="torch" aria-pressed="false" hidden>Torch</button>
+  <button id="switch-camera" hidden>Switch camera</button>
+</div>
 <button id="close">Close</button>
 `;
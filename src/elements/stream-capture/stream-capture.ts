@@ -15,11 +15,46 @@
  * limitations under the License.
  */
 
-import { captureClosed, captureFrame, captureStarted, captureStopped } from '../../events.js';
+import '../../../defs/frame.js';
+import { BoundingBox, Point2D, TargetGeometry } from '../../../defs/geometry.js';
+import { cameraChange, captureClosed, captureFrame, captureStarted, captureStopped } from '../../events.js';
+import {
+  applyCameraSettings,
+  CameraCapabilities,
+  getCameraCapabilities,
+  getCameraSettings
+} from '../../utils/camera.js';
 import { clamp } from '../../utils/clamp.js';
 import { fire } from '../../utils/fire.js';
+import { boundingBoxOf, FrameLayout, screenToFrame, withScreenGeometry } from '../../utils/geometry.js';
+import { computeHomography, toMatrix3d } from '../../utils/homography.js';
 import { html, styles } from './stream-capture.template.js';
 
+/**
+ * Content to overlay onto a target detected in the stream.
+ */
+export interface AROverlay {
+  id: string;
+  content: HTMLElement;
+  cornerPoints: Point2D[];  // In pixels of the captured frame, clockwise from the top-left.
+}
+
+interface OverlayState {
+  element: HTMLElement;
+  width: number;
+  height: number;
+  target: Point2D[];
+  current: Point2D[];
+}
+
+// The width, in px, at which overlay content is laid out before being mapped
+// onto its target.
+const OVERLAY_WIDTH = 300;
+
+function distance(a: Point2D, b: Point2D) {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
 /**
  * Provides an element that abstracts the capture of stream frames. For example,
  * given a `getUserMedia` video stream, this will -- if desired -- capture an
@@ -57,7 +92,8 @@ export class StreamCapture extends HTMLElement {
 
   /**
    * The sample scale, intended to go between `0` and `1` (though clamped only
-   * to `0` in case you wish to sample at a larger scale).
+   * to `0` in case you wish to sample at a larger scale). It can be changed
+   * while capturing, which resizes the frames from the next animation frame.
    */
   captureScale = 1;
 
@@ -74,6 +110,20 @@ export class StreamCapture extends HTMLElement {
    */
   capturePng = false;
 
+  /**
+   * Whether to capture an `ImageBitmap` instead of `ImageData`. Bitmaps are
+   * created from the video without reading its pixels on the main thread, and
+   * can be transferred to a worker. Whoever receives one should `close` it.
+   */
+  captureBitmap = false;
+
+  /**
+   * Whether to only capture the part of the frame inside the reticle box,
+   * rather than the whole frame. The captured region is given by
+   * `getCaptureRegion`. This has no effect on PNG captures.
+   */
+  cropToReticle = false;
+
   /**
    * Whether to flip the stream's image.
    */
@@ -84,12 +134,41 @@ export class StreamCapture extends HTMLElement {
    */
   paused = false;
 
+  /**
+   * The color of the outlines drawn by `highlightTargets`.
+   */
+  highlightColor = 'rgba(255, 255, 255, 0.8)';
+
+  /**
+   * How much overlays lag behind the latest position of their targets, between
+   * `0` (no smoothing) and `1`. Overlays move towards their targets on every
+   * animation frame, so they move smoothly between captured frames.
+   */
+  overlaySmoothing = 0.7;
+
+  /**
+   * The cameras which the user can switch between, e.g. from `listCameras`.
+   * Choosing another camera fires a `cameraChange` event with its `deviceId`;
+   * the new stream should then be started in its place.
+   */
+  cameras: MediaDeviceInfo[] = [];
+
+  /**
+   * Whether to show controls for switching camera, the torch and zoom, where
+   * the camera supports them.
+   */
+  showCameraControls = true;
+
   private video: HTMLVideoElement | undefined;
   private stream: MediaStream | undefined;
   private canvas: HTMLCanvasElement | undefined;
   private ctx: CanvasRenderingContext2D | null | undefined;
+  private highlights: HTMLCanvasElement | undefined;
+  private overlayLayer: HTMLElement | undefined;
+  private readonly overlays = new Map<string, OverlayState>();
   private root = this.attachShadow({ mode: 'open' });
   private lastCapture = -1;
+  private torch = false;
 
   /* istanbul ignore next */
   constructor() {
@@ -99,11 +178,26 @@ export class StreamCapture extends HTMLElement {
     this.root.addEventListener('click', (evt) => {
       const clicked =
         evt.path ? evt.path[0] : evt.composedPath()[0] as HTMLElement;
-      if (clicked.id !== 'close') {
-        return;
+      switch (clicked.id) {
+        case 'close':
+          fire(captureClosed, this);
+          break;
+
+        case 'switch-camera':
+          this.switchCamera();
+          break;
+
+        case 'torch':
+          this.setTorch(!this.torch);
+          break;
       }
+    });
 
-      fire(captureClosed, this);
+    this.root.addEventListener('input', (evt) => {
+      const input = evt.composedPath()[0] as HTMLInputElement;
+      if (input.id === 'zoom') {
+        this.setZoom(Number(input.value));
+      }
     });
   }
 
@@ -125,19 +219,26 @@ export class StreamCapture extends HTMLElement {
     this.stream = stream;
     this.initElementsIfNecessary();
 
-    const scale = clamp(this.captureScale, 0);
     const video = this.video!;
     const update = (now: number) => {
-      if (!this.video || !this.ctx) {
+      if (!this.video || !this.ctx || !this.canvas) {
         return;
       }
 
       if (!this.paused) {
-        this.ctx.drawImage(this.video, 0, 0,
-            this.video.videoWidth * scale,
-            this.video.videoHeight * scale);
+        const scale = clamp(this.captureScale, 0);
+        const width = Math.floor(this.video.videoWidth * scale);
+        const height = Math.floor(this.video.videoHeight * scale);
+        if (this.canvas.width !== width || this.canvas.height !== height) {
+          this.canvas.width = width;
+          this.canvas.height = height;
+        }
+
+        this.ctx.drawImage(this.video, 0, 0, width, height);
       }
 
+      this.renderOverlays();
+
       if (this.captureRate !== 0 && now - this.lastCapture > this.captureRate) {
         this.lastCapture = now;
         this.captureFrame();
@@ -184,6 +285,7 @@ export class StreamCapture extends HTMLElement {
         this.canvas.style.zIndex = '-1';
       }
 
+      this.updateCameraControls();
       requestAnimationFrame((now) => {
         update(now);
         fire(captureStarted, this);
@@ -194,18 +296,17 @@ export class StreamCapture extends HTMLElement {
   /**
    * Manually captures a frame. Intended to be used when `captureRate` is `0`.
    */
-  async captureFrame(): Promise<ImageData | HTMLImageElement> {
+  async captureFrame(): Promise<ImageData | HTMLImageElement | ImageBitmap> {
     /* istanbul ignore if */
     if (!this.ctx || !this.canvas) {
       throw new Error('Unable to capture frame');
     }
 
-    return new Promise((resolve) => {
-      const canvas = this.canvas!;
-      const ctx = this.ctx!;
-      let imgData: ImageData | HTMLImageElement;
-      if (this.capturePng) {
-        imgData = new Image();
+    const canvas = this.canvas;
+    const ctx = this.ctx;
+    if (this.capturePng) {
+      return new Promise((resolve) => {
+        const imgData = new Image();
         imgData.src = canvas.toDataURL('image/png');
         imgData.onload = () => {
           if (this.captureRate !== 0) {
@@ -214,15 +315,264 @@ export class StreamCapture extends HTMLElement {
 
           resolve(imgData);
         };
-      } else {
-        imgData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        if (this.captureRate !== 0) {
-          fire(captureFrame, this, {imgData});
+      });
+    }
+
+    const region = this.getCaptureRegion()!;
+    const imgData = this.captureBitmap ?
+        await this.createFrameBitmap(region) :
+        ctx.getImageData(region.x, region.y, region.width, region.height);
+    if (this.captureRate !== 0) {
+      fire(captureFrame, this, {imgData, region});
+    }
+
+    return imgData;
+  }
+
+  /**
+   * Reads the current frame without firing a `captureFrame` event, e.g. to
+   * follow targets between captured frames. Only the capture region is read.
+   */
+  readFrame(): ImageData | undefined {
+    const region = this.getCaptureRegion();
+    if (!this.ctx || !region || region.width === 0 || region.height === 0) {
+      return;
+    }
+
+    return this.ctx.getImageData(region.x, region.y, region.width, region.height);
+  }
+
+  /**
+   * Returns the part of the frame which is captured, in frame pixels. This is
+   * the whole frame, unless `cropToReticle` is set.
+   */
+  getCaptureRegion(): BoundingBox | undefined {
+    if (!this.canvas) {
+      return;
+    }
+
+    const frame = { x: 0, y: 0, width: this.canvas.width, height: this.canvas.height };
+    const layout = this.getFrameLayout();
+    const reticle = this.root.querySelector('#reticle') as SVGSVGElement | null;
+    const reticleBox = this.root.querySelector('#reticle-cut-out-inner') as SVGRectElement | null;
+    if (!this.cropToReticle || !layout || !reticle || !reticleBox) {
+      return frame;
+    }
+
+    // The reticle is scaled to fit the element, and centered, by its viewBox.
+    const { left, top, width, height } = reticle.getBoundingClientRect();
+    if (width === 0 || height === 0) {
+      return frame;
+    }
+
+    const viewBox = reticle.viewBox.baseVal;
+    const scale = Math.min(width / viewBox.width, height / viewBox.height);
+    const toScreen = (x: number, y: number) => ({
+      x: left + (width - viewBox.width * scale) / 2 + x * scale,
+      y: top + (height - viewBox.height * scale) / 2 + y * scale,
+    });
+
+    const boxX = reticleBox.x.baseVal.value;
+    const boxY = reticleBox.y.baseVal.value;
+    const box = boundingBoxOf([
+      screenToFrame(toScreen(boxX, boxY), layout),
+      screenToFrame(toScreen(boxX + reticleBox.width.baseVal.value, boxY + reticleBox.height.baseVal.value), layout),
+    ]);
+
+    // Keep the region within the frame, on whole pixels.
+    const x = Math.round(clamp(box.x, 0, frame.width));
+    const y = Math.round(clamp(box.y, 0, frame.height));
+    const region = {
+      height: Math.round(clamp(box.y + box.height, 0, frame.height)) - y,
+      width: Math.round(clamp(box.x + box.width, 0, frame.width)) - x,
+      x,
+      y,
+    };
+
+    return region.width > 0 && region.height > 0 ? region : frame;
+  }
+
+  /**
+   * Returns how captured frames are laid out on screen, which allows positions
+   * in a frame to be converted to positions on screen. The frame dimensions
+   * already account for the `captureScale`.
+   */
+  getFrameLayout(): FrameLayout | undefined {
+    if (!this.canvas || this.canvas.width === 0 || this.canvas.height === 0) {
+      return;
+    }
+
+    const { left, top, width, height } = this.canvas.getBoundingClientRect();
+    return {
+      displayRect: { x: left, y: top, width, height },
+      flipped: this.flipped,
+      frameHeight: this.canvas.height,
+      frameWidth: this.canvas.width,
+    };
+  }
+
+  /**
+   * Returns the scale of captured frames relative to the stream's video, which
+   * is the `captureScale` they were captured at.
+   */
+  getFrameScale(): number {
+    if (!this.canvas || !this.video || this.video.videoWidth === 0) {
+      return 1;
+    }
+
+    return this.canvas.width / this.video.videoWidth;
+  }
+
+  /**
+   * Outlines targets which have been detected in a captured frame, using their
+   * frame geometry. The outlines are drawn over the stream rather than into it,
+   * so they do not appear in captured frames. Pass an empty list to clear them.
+   */
+  highlightTargets(targets: TargetGeometry[]) {
+    if (!this.canvas) {
+      return;
+    }
+
+    const canvas = this.canvas;
+    const highlights = this.initHighlightsIfNecessary();
+    const ctx = highlights.getContext('2d');
+    /* istanbul ignore if */
+    if (!ctx) {
+      return;
+    }
+
+    // Match the capture canvas, so that both use the same coordinates.
+    if (highlights.width !== canvas.width || highlights.height !== canvas.height) {
+      highlights.width = canvas.width;
+      highlights.height = canvas.height;
+    }
+    highlights.style.left = `${canvas.offsetLeft}px`;
+    highlights.style.top = `${canvas.offsetTop}px`;
+    highlights.style.width = `${canvas.offsetWidth}px`;
+    highlights.style.height = `${canvas.offsetHeight}px`;
+    highlights.style.transform = canvas.style.transform;
+
+    ctx.clearRect(0, 0, highlights.width, highlights.height);
+    ctx.strokeStyle = this.highlightColor;
+    ctx.lineWidth = Math.max(2, Math.round(highlights.width / 200));
+    ctx.lineJoin = 'round';
+
+    for (const { boundingBox, cornerPoints } of targets) {
+      if (cornerPoints && cornerPoints.length > 1) {
+        ctx.beginPath();
+        ctx.moveTo(cornerPoints[0].x, cornerPoints[0].y);
+        for (const { x, y } of cornerPoints.slice(1)) {
+          ctx.lineTo(x, y);
         }
+        ctx.closePath();
+        ctx.stroke();
+      } else if (boundingBox) {
+        ctx.strokeRect(boundingBox.x, boundingBox.y, boundingBox.width, boundingBox.height);
+      }
+    }
+  }
 
-        resolve(imgData);
+  /**
+   * Sets the content to overlay onto targets detected in the stream. Each
+   * overlay is laid out, then perspective-mapped onto the quad given by its
+   * corner points. Overlays are identified by their `id`, so that they move
+   * smoothly from one update to the next; overlays which are not included are
+   * removed.
+   */
+  updateOverlays(overlays: AROverlay[]) {
+    const ids = new Set(overlays.map(({ id }) => id));
+    for (const [id, { element }] of this.overlays) {
+      if (!ids.has(id)) {
+        element.remove();
+        this.overlays.delete(id);
       }
-    });
+    }
+
+    for (const { id, content, cornerPoints } of overlays) {
+      if (cornerPoints.length !== 4) {
+        continue;
+      }
+
+      const overlay = this.overlays.get(id);
+      if (overlay) {
+        overlay.target = cornerPoints;
+        continue;
+      }
+
+      // Lay the content out with the same aspect ratio as the target.
+      const [ topLeft, topRight, , bottomLeft ] = cornerPoints;
+      const aspectRatio = distance(topLeft, bottomLeft) / distance(topLeft, topRight);
+      if (!Number.isFinite(aspectRatio) || aspectRatio === 0) {
+        continue;
+      }
+
+      const width = OVERLAY_WIDTH;
+      const height = Math.round(OVERLAY_WIDTH * aspectRatio);
+      const element = document.createElement('div');
+      element.classList.add('ar-overlay');
+      element.style.width = `${width}px`;
+      element.style.height = `${height}px`;
+      element.appendChild(content);
+      this.initOverlayLayerIfNecessary().appendChild(element);
+      this.overlays.set(id, { element, width, height, target: cornerPoints, current: cornerPoints });
+    }
+
+    this.renderOverlays();
+  }
+
+  /**
+   * Returns the torch and zoom support of the camera being captured.
+   */
+  getCameraCapabilities(): CameraCapabilities {
+    const track = this.videoTrack();
+    return track ? getCameraCapabilities(track) : { torch: false };
+  }
+
+  /**
+   * Turns the camera's torch on or off, resolving to whether it was changed.
+   */
+  async setTorch(torch: boolean): Promise<boolean> {
+    const track = this.videoTrack();
+    if (!track || !getCameraCapabilities(track).torch || !await applyCameraSettings(track, { torch })) {
+      return false;
+    }
+
+    this.torch = torch;
+    const button = this.root.querySelector('#torch');
+    if (button) {
+      button.setAttribute('aria-pressed', torch.toString());
+    }
+    return true;
+  }
+
+  /**
+   * Zooms the camera, within the range given by `getCameraCapabilities`,
+   * resolving to whether it was changed.
+   */
+  async setZoom(zoom: number): Promise<boolean> {
+    const track = this.videoTrack();
+    const range = track && getCameraCapabilities(track).zoom;
+    if (!track || !range) {
+      return false;
+    }
+
+    return applyCameraSettings(track, { zoom: clamp(zoom, range.min, range.max) });
+  }
+
+  /**
+   * Asks for the next of the `cameras` to be used, by firing a `cameraChange`
+   * event with its `deviceId`.
+   */
+  switchCamera() {
+    if (this.cameras.length < 2) {
+      return;
+    }
+
+    const track = this.videoTrack();
+    const { deviceId = '' } = track ? track.getSettings() : {};
+    const index = this.cameras.findIndex((camera) => camera.deviceId === deviceId);
+    const { deviceId: nextDeviceId } = this.cameras[(index + 1) % this.cameras.length];
+    fire(cameraChange, this, { deviceId: nextDeviceId });
   }
 
   /**
@@ -241,14 +591,80 @@ export class StreamCapture extends HTMLElement {
     this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
     this.canvas.remove();
 
+    if (this.highlights) {
+      this.highlights.remove();
+      this.highlights = undefined;
+    }
+
+    if (this.overlayLayer) {
+      this.overlayLayer.remove();
+      this.overlayLayer = undefined;
+    }
+    this.overlays.clear();
+
     this.video = undefined;
     this.stream = undefined;
     this.canvas = undefined;
     this.ctx = undefined;
 
+    // The torch goes out with the stream.
+    this.torch = false;
+    this.updateCameraControls();
+
     fire(captureStopped, this);
   }
 
+  /*
+   * Creates a bitmap of a region of the frame. This is taken from the video
+   * directly, unless the frame is paused, in which case the canvas holds it.
+   */
+  private createFrameBitmap({ x, y, width, height }: BoundingBox): Promise<ImageBitmap> {
+    const scale = clamp(this.captureScale, 0);
+    if (this.paused || !this.video || scale === 0) {
+      return createImageBitmap(this.canvas!, x, y, width, height);
+    }
+
+    return createImageBitmap(this.video, x / scale, y / scale, width / scale, height / scale, {
+      resizeHeight: height,
+      resizeQuality: 'low',
+      resizeWidth: width,
+    });
+  }
+
+  private videoTrack(): MediaStreamTrack | undefined {
+    return this.stream ? this.stream.getVideoTracks()[0] : undefined;
+  }
+
+  /*
+   * Shows the controls which are supported by the camera being captured, and
+   * hides the rest.
+   */
+  private updateCameraControls() {
+    const switchCamera = this.root.querySelector('#switch-camera') as HTMLElement | null;
+    const torch = this.root.querySelector('#torch') as HTMLElement | null;
+    const zoom = this.root.querySelector('#zoom') as HTMLInputElement | null;
+    /* istanbul ignore if */
+    if (!switchCamera || !torch || !zoom) {
+      return;
+    }
+
+    const track = this.videoTrack();
+    const capabilities = this.getCameraCapabilities();
+    switchCamera.hidden = !this.showCameraControls || !track || this.cameras.length < 2;
+    torch.hidden = !this.showCameraControls || !capabilities.torch;
+    torch.setAttribute('aria-pressed', this.torch.toString());
+    zoom.hidden = !this.showCameraControls || !capabilities.zoom;
+
+    if (track && capabilities.zoom) {
+      const { min, max, step } = capabilities.zoom;
+      const { zoom: value = min } = getCameraSettings(track);
+      zoom.min = min.toString();
+      zoom.max = max.toString();
+      zoom.step = step.toString();
+      zoom.value = value.toString();
+    }
+  }
+
   private setReticleOrientation(vertical: boolean) {
     const reticle = this.root.querySelector('#reticle') as HTMLElement;
     /* istanbul ignore if */
@@ -278,6 +694,72 @@ export class StreamCapture extends HTMLElement {
     reticle.style.opacity = '1';
   }
 
+  /*
+   * Moves each overlay towards its target, and maps it onto the screen.
+   */
+  private renderOverlays() {
+    if (!this.canvas || this.overlays.size === 0) {
+      return;
+    }
+
+    const canvas = this.canvas;
+    const layout: FrameLayout = {
+      displayRect: {
+        height: canvas.offsetHeight,
+        width: canvas.offsetWidth,
+        x: canvas.offsetLeft,
+        y: canvas.offsetTop,
+      },
+      flipped: this.flipped,
+      frameHeight: canvas.height,
+      frameWidth: canvas.width,
+    };
+
+    const step = 1 - clamp(this.overlaySmoothing, 0, 1);
+    for (const overlay of this.overlays.values()) {
+      const { element, width, height, target } = overlay;
+      overlay.current = overlay.current.map(({ x, y }, index) => ({
+        x: x + (target[index].x - x) * step,
+        y: y + (target[index].y - y) * step,
+      }));
+
+      const geometry: TargetGeometry = { cornerPoints: overlay.current };
+      const { screenCornerPoints = [] } = withScreenGeometry(geometry, layout);
+      const homography = computeHomography([
+        { x: 0, y: 0 },
+        { x: width, y: 0 },
+        { x: width, y: height },
+        { x: 0, y: height },
+      ], screenCornerPoints);
+
+      // Degenerate quads cannot be mapped onto.
+      element.style.visibility = homography ? '' : 'hidden';
+      if (homography) {
+        element.style.transform = toMatrix3d(homography);
+      }
+    }
+  }
+
+  private initOverlayLayerIfNecessary() {
+    if (!this.overlayLayer) {
+      this.overlayLayer = document.createElement('div');
+      this.overlayLayer.id = 'overlays';
+      this.root.appendChild(this.overlayLayer);
+    }
+
+    return this.overlayLayer;
+  }
+
+  private initHighlightsIfNecessary() {
+    if (!this.highlights) {
+      this.highlights = document.createElement('canvas');
+      this.highlights.id = 'highlights';
+      this.root.appendChild(this.highlights);
+    }
+
+    return this.highlights;
+  }
+
   private initElementsIfNecessary() {
     /* istanbul ignore else */
     if (!this.canvas) {
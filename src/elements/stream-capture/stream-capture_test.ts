@@ -23,7 +23,9 @@ declare global {
 
 const { assert } = chai;
 
-import { captureFrame, captureStarted, captureStopped } from '../../events.js';
+import { BoundingBox } from '../../../defs/geometry.js';
+import { cameraChange, captureFrame, captureStarted, captureStopped } from '../../events.js';
+import { doubleRaf } from '../../utils/double-raf.js';
 import { isImageData } from '../../utils/is-image-data.js';
 import { StreamCapture } from './stream-capture.js';
 customElements.define(StreamCapture.defaultTagName, StreamCapture);
@@ -112,23 +114,85 @@ describe('StreamCapture', function() {
       if (isImageData(imgData)) {
         assert.fail('Expected PNG data');
       } else {
-        assert.equal(imgData.tagName, 'IMG');
+        assert.equal((imgData as HTMLImageElement).tagName, 'IMG');
       }
       done();
     });
   });
 
+  it('captures bitmaps', (done) => {
+    capture.captureScale = 0.5;
+    capture.captureBitmap = true;
+    capture.start(stream);
+
+    capture.addEventListener(captureStarted, async () => {
+      const imgData = await capture.captureFrame();
+      assert.instanceOf(imgData, ImageBitmap);
+      assert.equal(imgData.width, width * 0.5);
+      assert.equal(imgData.height, height * 0.5);
+
+      // The bitmap holds the same pixels as the stream.
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d')!;
+      ctx.drawImage(imgData as ImageBitmap, 0, 0);
+      assert.isAbove(ctx.getImageData(0, 0, 1, 1).data[0], 250);
+      (imgData as ImageBitmap).close();
+      done();
+    });
+  });
+
+  it('resizes frames when the scale changes', (done) => {
+    capture.start(stream);
+
+    capture.addEventListener(captureStarted, async () => {
+      capture.captureScale = 0.5;
+      await doubleRaf();
+
+      const imgData = await capture.captureFrame();
+      assert.equal(imgData.width, width * 0.5);
+      assert.equal(imgData.height, height * 0.5);
+      done();
+    });
+  });
+
+  it('crops captures to the reticle', (done) => {
+    capture.style.width = '400px';
+    capture.style.height = '400px';
+    capture.cropToReticle = true;
+    capture.start(stream);
+    document.body.appendChild(capture);
+
+    capture.addEventListener(captureStarted, async () => {
+      const region = capture.getCaptureRegion()!;
+      assert.isAbove(region.x, 0);
+      assert.isAbove(region.y, 0);
+      assert.isBelow(region.x + region.width, width);
+      assert.isBelow(region.y + region.height, height);
+
+      const imgData = await capture.captureFrame();
+      assert.equal(imgData.width, region.width);
+      assert.equal(imgData.height, region.height);
+      assert.equal(capture.readFrame()!.width, region.width);
+
+      capture.cropToReticle = false;
+      assert.deepEqual(capture.getCaptureRegion(), { x: 0, y: 0, width, height });
+      capture.remove();
+      done();
+    });
+  });
+
   it('emits imageData frame events', (done) => {
     capture.start(stream);
     capture.captureRate = 100;
 
     capture.addEventListener(captureFrame, (evt) => {
-      const { detail } = evt as CustomEvent<{imgData: ImageData}>;
-      const { imgData } = detail;
+      const { detail } = evt as CustomEvent<{imgData: ImageData, region: BoundingBox}>;
+      const { imgData, region } = detail;
 
       assert.equal(imgData.width, width * capture.captureScale);
       assert.equal(imgData.height, height * capture.captureScale);
       assert.isAbove(imgData.data[0], 250);
+      assert.deepEqual(region, { x: 0, y: 0, width: imgData.width, height: imgData.height });
 
       done();
     });
@@ -150,6 +214,119 @@ describe('StreamCapture', function() {
     });
   });
 
+  it('reads frames without emitting events', (done) => {
+    capture.start(stream);
+
+    capture.addEventListener(captureFrame, () => assert.fail('Unexpected frame event'));
+    capture.addEventListener(captureStarted, () => {
+      const imgData = capture.readFrame()!;
+      assert.equal(imgData.width, width * capture.captureScale);
+      assert.equal(imgData.height, height * capture.captureScale);
+      assert.isAbove(imgData.data[0], 250);
+      done();
+    });
+  });
+
+  it('describes the frame layout', (done) => {
+    capture.captureScale = 0.5;
+    capture.flipped = true;
+    capture.start(stream);
+
+    capture.addEventListener(captureStarted, () => {
+      const layout = capture.getFrameLayout()!;
+      assert.equal(layout.frameWidth, width * 0.5);
+      assert.equal(layout.frameHeight, height * 0.5);
+      assert.isTrue(layout.flipped);
+      done();
+    });
+  });
+
+  it('highlights targets without altering captured frames', (done) => {
+    capture.start(stream);
+
+    capture.addEventListener(captureStarted, async () => {
+      capture.highlightColor = '#0F0';
+      capture.highlightTargets([{ boundingBox: { x: 0, y: 0, width: 20, height: 20 } }]);
+
+      const highlights = capture.shadowRoot!.querySelector('#highlights') as HTMLCanvasElement;
+      assert.isNotNull(highlights);
+      assert.equal(highlights.width, width);
+      const [ r, g, b ] = highlights.getContext('2d')!.getImageData(0, 0, 1, 1).data;
+      assert.deepEqual([ r, g, b ], [ 0, 255, 0 ]);
+
+      // The frame is still pink where the outline was drawn.
+      const imgData = await capture.captureFrame() as ImageData;
+      assert.isBelow(imgData.data[1], 5);
+
+      capture.stop();
+      assert.isNull(capture.shadowRoot!.querySelector('#highlights'));
+      done();
+    });
+  });
+
+  it('maps overlays onto targets', (done) => {
+    capture.overlaySmoothing = 0;
+    capture.start(stream);
+    document.body.appendChild(capture);
+
+    capture.addEventListener(captureStarted, () => {
+      const content = document.createElement('span');
+      const cornerPoints = [{ x: 10, y: 10 }, { x: 110, y: 20 }, { x: 100, y: 70 }, { x: 20, y: 60 }];
+      capture.updateOverlays([{ id: 'poster', content, cornerPoints }]);
+
+      const overlay = content.parentElement!;
+      assert.isTrue(overlay.classList.contains('ar-overlay'));
+      assert.match(overlay.style.transform as string, /^matrix3d\(/);
+
+      // Overlays are reused while their target is detected, and removed after.
+      const transform = overlay.style.transform;
+      const moved = cornerPoints.map(({ x, y }) => ({ x: x + 5, y }));
+      capture.updateOverlays([{ id: 'poster', content, cornerPoints: moved }]);
+      assert.strictEqual(content.parentElement, overlay);
+      assert.notEqual(overlay.style.transform, transform);
+
+      capture.updateOverlays([]);
+      assert.isFalse(overlay.isConnected);
+      capture.remove();
+      done();
+    });
+  });
+
+  it('switches between cameras', (done) => {
+    capture.cameras = [
+      { deviceId: 'front', label: 'Front Camera' },
+      { deviceId: 'back', label: 'Back Camera' },
+    ] as MediaDeviceInfo[];
+    capture.start(stream);
+
+    capture.addEventListener(captureStarted, () => {
+      const button = capture.shadowRoot!.querySelector('#switch-camera') as HTMLButtonElement;
+      assert.isFalse(button.hidden);
+
+      capture.addEventListener(cameraChange, (evt) => {
+        const { deviceId } = (evt as CustomEvent<{deviceId: string}>).detail;
+        assert.equal(deviceId, 'front');
+        done();
+      });
+      button.click();
+    });
+  });
+
+  it('hides camera controls which are not supported', (done) => {
+    capture.start(stream);
+
+    capture.addEventListener(captureStarted, async () => {
+      const root = capture.shadowRoot!;
+      assert.isTrue((root.querySelector('#switch-camera') as HTMLElement).hidden);
+      assert.isTrue((root.querySelector('#torch') as HTMLElement).hidden);
+      assert.isTrue((root.querySelector('#zoom') as HTMLElement).hidden);
+      assert.deepEqual(capture.getCameraCapabilities(), { torch: false });
+      assert.isFalse(await capture.setTorch(true));
+      assert.isFalse(await capture.setZoom(2));
+      done();
+    });
+  });
+
   it('throws if started twice', () => {
     capture.start(stream);
     assert.throws(() => {
@@ -43,6 +43,30 @@ export const captureStopped = 'pt.capturestopped';
  */
 export const captureClosed = 'pt.captureclosed';
 
+/**
+ * The name for camera change events, which are fired when the user chooses
+ * another camera. Exposed through bootstrap.
+ *
+ * @hidden
+ */
+export const cameraChange = 'pt.camerachange';
+
+/**
+ * The name for config change events, which are fired when `updateConfig`
+ * changes the config. Exposed through bootstrap.
+ *
+ * @hidden
+ */
+export const configChanged = 'pt.configchanged';
+
+/**
+ * The name for config error events, which are fired when problems are found
+ * with the config. Exposed through bootstrap.
+ *
+ * @hidden
+ */
+export const configError = 'pt.configerror';
+
 /**
  * Exposed through bootstrap.
  * @hidden
@@ -60,3 +84,15 @@ export const cameraAccessDenied = 'pt.cameraaccessdenied';
  * @hidden
  */
 export const perceivedResults = 'pt.perceivedresults';
+
+/**
+ * Exposed through bootstrap.
+ * @hidden
+ */
+export const artifactDiagnostics = 'pt.artifactdiagnostics';
+
+/**
+ * Exposed through bootstrap.
+ * @hidden
+ */
+export const artifactsChanged = 'pt.artifactschanged';
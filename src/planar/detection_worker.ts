@@ -0,0 +1,252 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview A worker which runs both barcode and planar image detection on
+ * each frame it is sent. Frames are read (and downscaled) once, and shared by
+ * the detectors, rather than being copied to a worker for each.
+ */
+
+import { BarcodeWasmModule, DetectedBarcode } from '../../defs/barcode.js';
+import { DetectionFrame } from '../../defs/frame.js';
+import { Point2D } from '../../defs/geometry.js';
+import { PlanarDetection, PlanarQuad, PlanarTargetWasmModule } from '../../defs/planar-target.js';
+import { Pixels, readBarcodesInQuadtree } from '../polyfill/barcode-quadtree.js';
+import { scoreQuad } from '../utils/geometry.js';
+import { DEBUG_LEVEL, enableLogLevel, log } from '../utils/logger.js';
+import { Module } from './planar-defs.js';
+import { PlanarTargetDetector } from './planar-detector.js';
+import { PlanarTracker } from './planar-tracker.js';
+
+declare global {
+  function importScripts(...urls: string[]): void;
+  function ModuleFactory(seed: {}): PlanarTargetWasmModule;
+}
+
+enableLogLevel(DEBUG_LEVEL.WARNING);
+
+// Frames are downscaled so that their longest side is at most this many pixels,
+// unless a scale is given, as the detectors gain little from larger frames.
+const MAX_FRAME_SIZE = 960;
+
+const START_INDEX = 1000;
+let addCount = START_INDEX;
+let pathPrefix = '';
+let planarDetector: Promise<PlanarTargetDetector> | undefined;
+let canvas: OffscreenCanvas | undefined;
+let sourceCanvas: OffscreenCanvas | undefined;
+const tracker = new PlanarTracker();
+
+function getBarcodeModule() {
+  return (self as any).Module as BarcodeWasmModule;
+}
+
+/*
+ * Loads the planar image detector, the first time it is needed. Its module is
+ * created by a factory, so it does not clash with the barcode reader's global
+ * `Module`.
+ */
+function loadPlanarDetector() {
+  if (!planarDetector) {
+    planarDetector = new Promise((resolve) => {
+      importScripts(`${pathPrefix}/lib/planar/planar-target-detector.js`);
+
+      let detector: PlanarTargetDetector;
+      const module = ModuleFactory({
+        locateFile(url: string) {
+          if (url.endsWith('.wasm')) {
+            return `${pathPrefix}/third_party/planar-image/${url}`;
+          }
+
+          return url;
+        },
+
+        onRuntimeInitialized() {
+          // Run a fake image here to boot the graph.
+          detector.process(new ImageData(1, 1), Date.now());
+          resolve(detector);
+        }
+      }) as unknown as Module;
+      detector = new PlanarTargetDetector(module);
+    });
+  }
+  return planarDetector;
+}
+
+function isImageData(frame: DetectionFrame): frame is ImageData {
+  return 'data' in frame;
+}
+
+/*
+ * Reads the pixels of a frame, downscaling it first. Transferred frames are
+ * closed once read.
+ */
+function readFrame(frame: DetectionFrame, scale?: number): { data: ImageData, scale: number } {
+  const frameWidth = 'displayWidth' in frame ? frame.displayWidth : frame.width;
+  const frameHeight = 'displayHeight' in frame ? frame.displayHeight : frame.height;
+  if (typeof scale === 'undefined') {
+    scale = Math.min(1, MAX_FRAME_SIZE / Math.max(frameWidth, frameHeight));
+  }
+
+  if (isImageData(frame) && scale === 1) {
+    return { data: frame, scale };
+  }
+
+  const width = Math.round(frameWidth * scale);
+  const height = Math.round(frameHeight * scale);
+  if (!canvas || canvas.width !== width || canvas.height !== height) {
+    canvas = new OffscreenCanvas(width, height);
+  }
+
+  const ctx = canvas.getContext('2d')!;
+  if (isImageData(frame)) {
+    // ImageData can only be put into a canvas unscaled, so it is drawn from a
+    // canvas of its own.
+    if (!sourceCanvas || sourceCanvas.width !== frameWidth || sourceCanvas.height !== frameHeight) {
+      sourceCanvas = new OffscreenCanvas(frameWidth, frameHeight);
+    }
+    sourceCanvas.getContext('2d')!.putImageData(frame, 0, 0);
+    ctx.drawImage(sourceCanvas, 0, 0, width, height);
+  } else {
+    ctx.drawImage(frame, 0, 0, width, height);
+    frame.close();
+  }
+  return { data: ctx.getImageData(0, 0, width, height), scale };
+}
+
+function unscalePoints(points: Point2D[], scale: number) {
+  return points.map(({ x, y }) => ({ x: x / scale, y: y / scale }));
+}
+
+function readBarcode(pixels: Pixels) {
+  const result = getBarcodeModule().readBarcodeFromPng(pixels.data, pixels.width, pixels.height);
+  if (result.text && result.format) {
+    return { rawValue: result.text, format: result.format.toLowerCase() };
+  }
+}
+
+function detectBarcodes(data: ImageData, scale: number): DetectedBarcode[] {
+  // The reader only returns one barcode at a time, so read the frame in tiles
+  // to find all of them.
+  return readBarcodesInQuadtree(data, readBarcode).map(({ rawValue, format, boundingBox, cornerPoints }) => ({
+    boundingBox: boundingBox && {
+      height: boundingBox.height / scale,
+      width: boundingBox.width / scale,
+      x: boundingBox.x / scale,
+      y: boundingBox.y / scale,
+    },
+    cornerPoints: cornerPoints && unscalePoints(cornerPoints, scale),
+    format,
+    rawValue,
+  }));
+}
+
+async function detectImages(data: ImageData, scale: number): Promise<PlanarDetection[]> {
+  const detector = await loadPlanarDetector();
+  const processResult = detector.process(data, Date.now());
+  const detections: PlanarDetection[] = [];
+  for (let r = 0; r < processResult.size(); r++) {
+    const { id, x1, y1, x2, y2, x3, y3, x4, y4 } = processResult.get(r) as PlanarQuad;
+    const cornerPoints = [{ x: x1, y: y1 }, { x: x2, y: y2 }, { x: x3, y: y3 }, { x: x4, y: y4 }];
+    detections.push({ confidence: scoreQuad(cornerPoints, data), cornerPoints, id });
+  }
+
+  // Follow the detected targets until the next full detection.
+  tracker.start(data, detections);
+  return detections.map((detection) => ({ ...detection, cornerPoints: unscalePoints(detection.cornerPoints, scale) }));
+}
+
+self.onmessage = async (e: MessageEvent) => {
+  // Initializing.
+  if (typeof e.data === 'string') {
+    pathPrefix = e.data;
+    (self as any).Module = {
+      locateFile(url: string) {
+        if (url.endsWith('.wasm')) {
+          return `${pathPrefix}/third_party/zxing/${url}`;
+        }
+
+        return url;
+      },
+
+      onRuntimeInitialized() {
+        (self as any).postMessage('ready');
+      }
+    } as BarcodeWasmModule;  // Cast as WasmModule because the import will augment.
+
+    if ('importScripts' in self) {
+      // Import the emscripten'd file that loads the wasm.
+      importScripts(`${pathPrefix}/third_party/zxing/zxing_reader.js`);
+    }
+    return;
+  }
+
+  const host = (self as any);
+  const { type, data, id, msgId, barcodes, images } = e.data;
+
+  switch (type) {
+    // Detect barcodes and/or images in a frame.
+    case 'process':
+      try {
+        const frame = readFrame(data, e.data.scale);
+        host.postMessage({
+          data: {
+            barcodes: barcodes ? detectBarcodes(frame.data, frame.scale) : [],
+            images: images ? await detectImages(frame.data, frame.scale) : [],
+          },
+          msgId,
+        });
+      } catch (e) {
+        log(e.message, DEBUG_LEVEL.ERROR);
+        host.postMessage({ msgId, data: { barcodes: [], images: [] } });
+      }
+      break;
+
+    // Follow the images found by the last detection into a new frame.
+    case 'track':
+      try {
+        const frame = readFrame(data, e.data.scale);
+        const tracked = tracker.track(frame.data).map((target) =>
+            ({ ...target, cornerPoints: unscalePoints(target.cornerPoints, frame.scale) }));
+        host.postMessage({ msgId, data: tracked });
+      } catch (e) {
+        log(e.message, DEBUG_LEVEL.ERROR);
+        host.postMessage({ msgId, data: [] });
+      }
+      break;
+
+    // Add an image target.
+    case 'add':
+      const idx = addCount++;
+      (await loadPlanarDetector()).addDetectionWithId(idx, data);
+      host.postMessage({ msgId, data: { idx, id } });
+      break;
+
+    // Remove an image target.
+    case 'remove':
+      (await loadPlanarDetector()).cancelDetection(data);
+      tracker.remove(data);
+      host.postMessage({ msgId, data });
+      break;
+
+    case 'reset':
+      addCount = START_INDEX;
+      tracker.clear();
+      host.postMessage({ msgId });
+      break;
+  }
+};
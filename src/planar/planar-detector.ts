@@ -33,15 +33,21 @@ declare global {
  * detections.
  */
 export class PlanarTargetDetector {
+  private readonly module: Module;
   private pixelsPtr: number | null;
   private pixelsSize: number;
   private hasLoaded = false;
 
-  constructor() {
+  /**
+   * Detects using the global `Module`, unless another (e.g. one created by the
+   * `ModuleFactory` in a worker which also hosts other WASM modules) is given.
+   */
+  constructor(module = Module) {
+    this.module = module;
     this.pixelsPtr = null;
     this.pixelsSize = 0;
 
-    Module.preRun.push(() => {
+    this.module.preRun.push(() => {
       this.hasLoaded = true;
     });
   }
@@ -73,9 +79,9 @@ export class PlanarTargetDetector {
     if (this.pixelsSize !== size) {
       /* istanbul ignore if */
       if (this.pixelsPtr) {
-        Module._free(this.pixelsPtr);
+        this.module._free(this.pixelsPtr);
       }
-      this.pixelsPtr = Module._malloc(size);
+      this.pixelsPtr = this.module._malloc(size);
       this.pixelsSize = size;
     }
 
@@ -84,10 +90,10 @@ export class PlanarTargetDetector {
       throw new Error('Unable to reserve pixel pointer with malloc');
     }
 
-    Module.HEAPU8.set(imageData.data, this.pixelsPtr);
+    this.module.HEAPU8.set(imageData.data, this.pixelsPtr);
 
     const wasmHeapWriterByteCount = 24;  // 4 ints and 1 ll (timestamp)
-    const frameDataWriter = new WasmHeapWriter(wasmHeapWriterByteCount);
+    const frameDataWriter = new WasmHeapWriter(wasmHeapWriterByteCount, this.module);
     // Order matters here, and must follow the C++ layout in FrameData struct.
     // We add one more int here for proper padding for timestamp.
     frameDataWriter.writeInt32(0);  // padding.
@@ -103,8 +109,8 @@ export class PlanarTargetDetector {
     }
 
     // We use embind version so we can tap more easily into std::vector
-    const outputVec = Module.process(frameDataPtr);
-    Module._free(frameDataPtr);
+    const outputVec = this.module.process(frameDataPtr);
+    this.module._free(frameDataPtr);
     return outputVec;
   }
 
@@ -131,7 +137,7 @@ export class PlanarTargetDetector {
       return;
     }
     const size = detectorIndexData.length;
-    const indexPtr = Module._malloc(size);
+    const indexPtr = this.module._malloc(size);
 
     /* istanbul ignore if */
     if (indexPtr === null) {
@@ -139,9 +145,9 @@ export class PlanarTargetDetector {
       return;
     }
 
-    Module.HEAPU8.set(detectorIndexData, indexPtr);
-    Module._addObjectIndexWithId(objectId, size, indexPtr);
-    Module._free(indexPtr);
+    this.module.HEAPU8.set(detectorIndexData, indexPtr);
+    this.module._addObjectIndexWithId(objectId, size, indexPtr);
+    this.module._free(indexPtr);
   }
 
   /**
@@ -172,6 +178,6 @@ export class PlanarTargetDetector {
       log('Cannot cancel detection until detection has started.', DEBUG_LEVEL.ERROR);
       return;
     }
-    Module._cancelObjectId(objectId);
+    this.module._cancelObjectId(objectId);
   }
 }
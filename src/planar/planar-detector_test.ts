@@ -90,4 +90,18 @@ describe('PlanarImageDetector', () => {
     detector.addDetectionWithId(100, new Uint8Array(1));
     detector.cancelDetection(100);
   });
+
+  it('uses a given module', () => {
+    const module = new ModuleMock();
+    const moduleSpy = spy(module.preRun, 'push');
+    detector = new PlanarTargetDetector(module);
+    moduleSpy.getCall(0).args[0].call(undefined);
+    moduleSpy.restore();
+
+    const mallocSpy = spy(module, '_malloc');
+    const globalMallocSpy = spy(window.Module, '_malloc');
+    detector.process(new ImageData(1, 1), 1);
+    assert.isTrue(mallocSpy.called);
+    assert.isFalse(globalMallocSpy.called);
+  });
 });
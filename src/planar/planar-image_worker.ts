@@ -15,9 +15,11 @@
  * limitations under the License.
  */
 
-import { PlanarTargetWasmModule } from '../../defs/planar-target.js';
+import { PlanarDetection, PlanarQuad, PlanarTargetWasmModule } from '../../defs/planar-target.js';
+import { scoreQuad } from '../utils/geometry.js';
 import { DEBUG_LEVEL, enableLogLevel, log } from '../utils/logger.js';
 import { PlanarTargetDetector } from './planar-detector.js';
+import { PlanarTracker } from './planar-tracker.js';
 
 declare global {
   function importScripts(...urls: string[]): void;
@@ -29,6 +31,7 @@ enableLogLevel(DEBUG_LEVEL.VERBOSE);
 const START_INDEX = 1000;
 let addCount = START_INDEX;
 let detector: PlanarTargetDetector;
+const tracker = new PlanarTracker();
 self.onmessage = (e: MessageEvent) => {
   // Initializing.
   if (typeof e.data === 'string') {
@@ -68,11 +71,18 @@ self.onmessage = (e: MessageEvent) => {
     case 'process':
       try {
         const processResult = detector.process(data, Date.now());
-        const detections: number[] = [];
+        const detections: PlanarDetection[] = [];
         for (let r = 0; r < processResult.size(); r++) {
-          detections.push(processResult.get(r).id);
+          const { id, x1, y1, x2, y2, x3, y3, x4, y4 } = processResult.get(r) as PlanarQuad;
+          const cornerPoints = [{ x: x1, y: y1 }, { x: x2, y: y2 }, { x: x3, y: y3 }, { x: x4, y: y4 }];
+
+          // The detector doesn't report how well the target matched, but
+          // spurious matches tend to have distorted outlines.
+          detections.push({ confidence: scoreQuad(cornerPoints, data), cornerPoints, id });
         }
 
+        // Follow the detected targets until the next full detection.
+        tracker.start(data, detections);
         host.postMessage({ msgId, data: detections });
       } catch (e) {
         log(e.message, DEBUG_LEVEL.ERROR);
@@ -80,6 +90,16 @@ self.onmessage = (e: MessageEvent) => {
       }
       break;
 
+    // Follow the targets found by the last full detection into new image data.
+    case 'track':
+      try {
+        host.postMessage({ msgId, data: tracker.track(data) });
+      } catch (e) {
+        log(e.message, DEBUG_LEVEL.ERROR);
+        host.postMessage({ msgId, data: [] });
+      }
+      break;
+
     // Add a target.
     case 'add':
       detector.addDetectionWithId(addCount, data);
@@ -90,6 +110,7 @@ self.onmessage = (e: MessageEvent) => {
     // Remove a target.
     case 'remove':
       detector.cancelDetection(data);
+      tracker.remove(data);
       host.postMessage({ msgId, data });
       break;
 
@@ -97,6 +118,7 @@ self.onmessage = (e: MessageEvent) => {
       // Currently resetting doesn't do anything on this side, but it may do so
       // this can act as a placeholder for the time being.
       addCount = START_INDEX;
+      tracker.clear();
       host.postMessage({ msgId });
       break;
   }
@@ -0,0 +1,427 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Point2D } from '../../defs/geometry.js';
+import { PlanarDetection } from '../../defs/planar-target.js';
+import { applyHomography, fitHomography } from '../utils/homography.js';
+
+export interface TrackedPlanarTarget extends PlanarDetection {
+  confidence: number;  // The fraction of the target's feature points which are still being followed.
+}
+
+export interface PlanarTrackerOptions {
+  levels?: number;  // The number of image pyramid levels, for following fast motion.
+  maxFeatures?: number;  // The most feature points to follow per target.
+  smoothing?: number;  // How much of the previous quad to retain each frame, from 0 to 1.
+  windowRadius?: number;  // The half-size of the patch matched around each feature point.
+}
+
+interface GrayImage {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+interface Track {
+  id: number;
+  cornerPoints: Point2D[];
+  smoothedCornerPoints: Point2D[];
+  features: Point2D[];
+  featureCount: number;  // The number of features selected when tracking began.
+}
+
+// Targets are lost when fewer features than this can be followed.
+const MIN_FEATURES = 8;
+
+// Feature points are picked from a grid of this many candidates per side.
+const FEATURE_GRID_SIZE = 16;
+
+// The furthest, in px, a followed feature may be from where the target's
+// motion predicts it to be.
+const MAX_REPROJECTION_ERROR = 3;
+
+// The largest mean intensity difference between a feature's patches in
+// consecutive frames, beyond which it is considered occluded.
+const MAX_PATCH_ERROR = 24;
+
+const MAX_ITERATIONS = 10;
+const CONVERGENCE_THRESHOLD = 0.01;
+
+function toGray({ data, width, height }: ImageData): GrayImage {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { data: gray, width, height };
+}
+
+function halve({ data, width, height }: GrayImage): GrayImage {
+  const halfWidth = Math.max(1, width >> 1);
+  const halfHeight = Math.max(1, height >> 1);
+  const half = new Float32Array(halfWidth * halfHeight);
+  for (let y = 0; y < halfHeight; y++) {
+    const row = Math.min(y * 2, height - 1);
+    const nextRow = Math.min(row + 1, height - 1);
+    for (let x = 0; x < halfWidth; x++) {
+      const col = Math.min(x * 2, width - 1);
+      const nextCol = Math.min(col + 1, width - 1);
+      half[y * halfWidth + x] = (data[row * width + col] + data[row * width + nextCol] +
+          data[nextRow * width + col] + data[nextRow * width + nextCol]) / 4;
+    }
+  }
+  return { data: half, width: halfWidth, height: halfHeight };
+}
+
+function buildPyramid(frame: ImageData, levels: number) {
+  const pyramid = [toGray(frame)];
+  while (pyramid.length < levels) {
+    pyramid.push(halve(pyramid[pyramid.length - 1]));
+  }
+  return pyramid;
+}
+
+/*
+ * Samples the image with bilinear interpolation, clamping to its edges.
+ */
+function sample({ data, width, height }: GrayImage, x: number, y: number) {
+  x = Math.min(Math.max(x, 0), width - 1);
+  y = Math.min(Math.max(y, 0), height - 1);
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const fx = x - x0;
+  const fy = y - y0;
+  const top = data[y0 * width + x0] * (1 - fx) + data[y0 * width + x1] * fx;
+  const bottom = data[y1 * width + x0] * (1 - fx) + data[y1 * width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+/*
+ * Returns the smaller eigenvalue of the structure tensor around a point, which
+ * is large for corners and textured regions that can be followed reliably.
+ */
+function cornerScore(image: GrayImage, { x, y }: Point2D, radius: number) {
+  let gxx = 0;
+  let gxy = 0;
+  let gyy = 0;
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      const ix = (sample(image, x + dx + 1, y + dy) - sample(image, x + dx - 1, y + dy)) / 2;
+      const iy = (sample(image, x + dx, y + dy + 1) - sample(image, x + dx, y + dy - 1)) / 2;
+      gxx += ix * ix;
+      gxy += ix * iy;
+      gyy += iy * iy;
+    }
+  }
+
+  return (gxx + gyy - Math.sqrt((gxx - gyy) * (gxx - gyy) + 4 * gxy * gxy)) / 2;
+}
+
+function isInsideQuad({ x, y }: Point2D, quad: Point2D[]) {
+  let inside = false;
+  for (let i = 0, j = quad.length - 1; i < quad.length; j = i++) {
+    const a = quad[i];
+    const b = quad[j];
+    if ((a.y > y) !== (b.y > y) && x < (b.x - a.x) * (y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/*
+ * Follows a point from one frame to the next using pyramidal Lucas-Kanade
+ * optical flow. Returns undefined if the point cannot be followed.
+ */
+function followPoint(previous: GrayImage[], next: GrayImage[], point: Point2D, radius: number):
+    Point2D | undefined {
+  const windowSize = (radius * 2 + 1) * (radius * 2 + 1);
+  const template = new Float32Array(windowSize);
+  const gradientX = new Float32Array(windowSize);
+  const gradientY = new Float32Array(windowSize);
+
+  let guessX = 0;
+  let guessY = 0;
+  for (let level = previous.length - 1; level >= 0; level--) {
+    const scale = 1 << level;
+    const px = point.x / scale;
+    const py = point.y / scale;
+    const prev = previous[level];
+    const curr = next[level];
+
+    let gxx = 0;
+    let gxy = 0;
+    let gyy = 0;
+    let k = 0;
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++, k++) {
+        const x = px + dx;
+        const y = py + dy;
+        template[k] = sample(prev, x, y);
+        gradientX[k] = (sample(prev, x + 1, y) - sample(prev, x - 1, y)) / 2;
+        gradientY[k] = (sample(prev, x, y + 1) - sample(prev, x, y - 1)) / 2;
+        gxx += gradientX[k] * gradientX[k];
+        gxy += gradientX[k] * gradientY[k];
+        gyy += gradientY[k] * gradientY[k];
+      }
+    }
+
+    const det = gxx * gyy - gxy * gxy;
+    if (det < 1e-6) {
+      return;
+    }
+
+    let flowX = 0;
+    let flowY = 0;
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      let bx = 0;
+      let by = 0;
+      k = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++, k++) {
+          const diff = template[k] - sample(curr, px + dx + guessX + flowX, py + dy + guessY + flowY);
+          bx += diff * gradientX[k];
+          by += diff * gradientY[k];
+        }
+      }
+
+      const stepX = (gyy * bx - gxy * by) / det;
+      const stepY = (gxx * by - gxy * bx) / det;
+      flowX += stepX;
+      flowY += stepY;
+      if (stepX * stepX + stepY * stepY < CONVERGENCE_THRESHOLD * CONVERGENCE_THRESHOLD) {
+        break;
+      }
+    }
+
+    if (level > 0) {
+      guessX = (guessX + flowX) * 2;
+      guessY = (guessY + flowY) * 2;
+      continue;
+    }
+
+    const followed = { x: px + guessX + flowX, y: py + guessY + flowY };
+    if (!Number.isFinite(followed.x) || !Number.isFinite(followed.y) ||
+        followed.x < 0 || followed.y < 0 || followed.x > prev.width - 1 || followed.y > prev.height - 1) {
+      return;
+    }
+
+    // Reject points whose patch no longer looks the same, e.g. when occluded.
+    let error = 0;
+    k = 0;
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++, k++) {
+        error += Math.abs(template[k] - sample(curr, followed.x + dx, followed.y + dy));
+      }
+    }
+
+    return error / windowSize > MAX_PATCH_ERROR ? undefined : followed;
+  }
+}
+
+/**
+ * PlanarTracker follows planar targets between full detections, which are far
+ * more expensive. Feature points are picked within each detected quad, and
+ * followed from frame to frame with optical flow. The motion of the target is
+ * then fitted to the features which moved consistently, and applied to its
+ * corners.
+ *
+ * Each tracked target reports a confidence, which drops as features are lost
+ * to occlusion, blur or the target leaving the frame. Targets are dropped once
+ * too few features remain to follow them.
+ */
+export class PlanarTracker {
+  private readonly levels: number;
+  private readonly maxFeatures: number;
+  private readonly smoothing: number;
+  private readonly windowRadius: number;
+  private pyramid: GrayImage[] = [];
+  private tracks = new Map<number, Track>();
+
+  constructor({ levels = 3, maxFeatures = 48, smoothing = 0.5, windowRadius = 7 }: PlanarTrackerOptions = {}) {
+    this.levels = Math.max(1, levels);
+    this.maxFeatures = maxFeatures;
+    this.smoothing = Math.min(Math.max(smoothing, 0), 1);
+    this.windowRadius = windowRadius;
+  }
+
+  /**
+   * The number of targets being tracked.
+   */
+  get size() {
+    return this.tracks.size;
+  }
+
+  /**
+   * Begins tracking the targets detected in a frame, replacing any which were
+   * previously tracked.
+   */
+  start(frame: ImageData, detections: PlanarDetection[]) {
+    this.pyramid = buildPyramid(frame, this.levels);
+    const previous = this.tracks;
+    this.tracks = new Map();
+
+    for (const { id, cornerPoints } of detections) {
+      const features = this.selectFeatures(cornerPoints);
+      if (features.length < MIN_FEATURES) {
+        continue;
+      }
+
+      // Ease from where the target was being drawn, if it was already tracked.
+      const existing = previous.get(id);
+      this.tracks.set(id, {
+        cornerPoints,
+        featureCount: features.length,
+        features,
+        id,
+        smoothedCornerPoints: existing ? existing.smoothedCornerPoints : cornerPoints,
+      });
+    }
+  }
+
+  /**
+   * Follows the tracked targets into the next frame, which must have the same
+   * dimensions as the one in which tracking started.
+   */
+  track(frame: ImageData): TrackedPlanarTarget[] {
+    if (this.tracks.size === 0) {
+      return [];
+    }
+
+    const [previousLevel] = this.pyramid;
+    if (frame.width !== previousLevel.width || frame.height !== previousLevel.height) {
+      this.clear();
+      return [];
+    }
+
+    const previous = this.pyramid;
+    this.pyramid = buildPyramid(frame, this.levels);
+
+    const ret: TrackedPlanarTarget[] = [];
+    for (const track of this.tracks.values()) {
+      if (!this.followTrack(track, previous)) {
+        this.tracks.delete(track.id);
+        continue;
+      }
+
+      ret.push({
+        confidence: track.features.length / track.featureCount,
+        cornerPoints: track.smoothedCornerPoints,
+        id: track.id,
+      });
+    }
+    return ret;
+  }
+
+  /**
+   * Stops tracking a target.
+   */
+  remove(id: number) {
+    this.tracks.delete(id);
+  }
+
+  /**
+   * Stops tracking all targets.
+   */
+  clear() {
+    this.tracks.clear();
+    this.pyramid = [];
+  }
+
+  private selectFeatures(quad: Point2D[]): Point2D[] {
+    const [image] = this.pyramid;
+    const margin = this.windowRadius + 1;
+    const minX = Math.max(margin, Math.min(...quad.map(({ x }) => x)));
+    const maxX = Math.min(image.width - 1 - margin, Math.max(...quad.map(({ x }) => x)));
+    const minY = Math.max(margin, Math.min(...quad.map(({ y }) => y)));
+    const maxY = Math.min(image.height - 1 - margin, Math.max(...quad.map(({ y }) => y)));
+    if (maxX <= minX || maxY <= minY) {
+      return [];
+    }
+
+    const candidates: Array<{ point: Point2D, score: number }> = [];
+    for (let row = 0; row < FEATURE_GRID_SIZE; row++) {
+      for (let col = 0; col < FEATURE_GRID_SIZE; col++) {
+        const point = {
+          x: Math.round(minX + (maxX - minX) * (col + 0.5) / FEATURE_GRID_SIZE),
+          y: Math.round(minY + (maxY - minY) * (row + 0.5) / FEATURE_GRID_SIZE),
+        };
+        if (isInsideQuad(point, quad)) {
+          candidates.push({ point, score: cornerScore(image, point, 2) });
+        }
+      }
+    }
+
+    // Prefer the most distinctive points, ignoring flat regions entirely.
+    candidates.sort((a, b) => b.score - a.score);
+    const minScore = candidates.length > 0 ? candidates[0].score * 0.05 : 0;
+    return candidates
+        .filter(({ score }) => score > 0 && score >= minScore)
+        .slice(0, this.maxFeatures)
+        .map(({ point }) => point);
+  }
+
+  /*
+   * Moves the track into the latest frame. Returns false if it has been lost.
+   */
+  private followTrack(track: Track, previous: GrayImage[]) {
+    const from: Point2D[] = [];
+    const to: Point2D[] = [];
+    for (const feature of track.features) {
+      const followed = followPoint(previous, this.pyramid, feature, this.windowRadius);
+      if (followed) {
+        from.push(feature);
+        to.push(followed);
+      }
+    }
+
+    if (from.length < MIN_FEATURES) {
+      return false;
+    }
+
+    // Fit the motion, then refit it to the features which agree with it.
+    let homography = fitHomography(from, to);
+    if (!homography) {
+      return false;
+    }
+
+    const inliers = from.map((point, index) => {
+      const { x, y } = applyHomography(homography!, point);
+      return Math.hypot(x - to[index].x, y - to[index].y) <= MAX_REPROJECTION_ERROR;
+    });
+    const inlierFrom = from.filter((_, index) => inliers[index]);
+    const inlierTo = to.filter((_, index) => inliers[index]);
+    if (inlierFrom.length < MIN_FEATURES) {
+      return false;
+    }
+
+    homography = fitHomography(inlierFrom, inlierTo);
+    if (!homography) {
+      return false;
+    }
+
+    const motion = homography;
+    track.features = inlierTo;
+    track.cornerPoints = track.cornerPoints.map((point) => applyHomography(motion, point));
+    track.smoothedCornerPoints = track.smoothedCornerPoints.map(({ x, y }, index) => ({
+      x: x + (track.cornerPoints[index].x - x) * (1 - this.smoothing),
+      y: y + (track.cornerPoints[index].y - y) * (1 - this.smoothing),
+    }));
+    return true;
+  }
+}
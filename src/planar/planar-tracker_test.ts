@@ -0,0 +1,103 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { Point2D } from '../../defs/geometry.js';
+import { PlanarTracker } from './planar-tracker.js';
+
+const WIDTH = 160;
+const HEIGHT = 120;
+const QUAD = [{ x: 40, y: 30 }, { x: 120, y: 30 }, { x: 120, y: 90 }, { x: 40, y: 90 }];
+
+// A smooth texture, drawn so that its content is moved by (dx, dy).
+function createFrame(dx = 0, dy = 0, width = WIDTH, height = HEIGHT, flat = false) {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const u = x - dx;
+      const v = y - dy;
+      const value = flat ? 128 : 128 + 40 * Math.sin(0.3 * u + 0.1 * v) +
+          40 * Math.sin(0.17 * v - 0.23 * u) + 30 * Math.sin(0.41 * u) * Math.sin(0.37 * v);
+      data.fill(value, (y * width + x) * 4, (y * width + x) * 4 + 3);
+      data[(y * width + x) * 4 + 3] = 255;
+    }
+  }
+  return { data, height, width } as ImageData;
+}
+
+function assertMoved(cornerPoints: Point2D[], dx: number, dy: number) {
+  cornerPoints.forEach(({ x, y }, index) => {
+    assert.approximately(x, QUAD[index].x + dx, 0.5);
+    assert.approximately(y, QUAD[index].y + dy, 0.5);
+  });
+}
+
+describe('PlanarTracker', () => {
+  it('follows targets between frames', () => {
+    const tracker = new PlanarTracker({ smoothing: 0 });
+    tracker.start(createFrame(), [{ id: 1000, cornerPoints: QUAD }]);
+    assert.equal(tracker.size, 1);
+
+    const [tracked] = tracker.track(createFrame(3, 2));
+    assert.equal(tracked.id, 1000);
+    assert.isAbove(tracked.confidence, 0.8);
+    assertMoved(tracked.cornerPoints, 3, 2);
+
+    const [next] = tracker.track(createFrame(5, -1));
+    assertMoved(next.cornerPoints, 5, -1);
+  });
+
+  it('smooths tracked quads', () => {
+    const tracker = new PlanarTracker({ smoothing: 0.5 });
+    tracker.start(createFrame(), [{ id: 1000, cornerPoints: QUAD }]);
+
+    const [tracked] = tracker.track(createFrame(4, 0));
+    assertMoved(tracked.cornerPoints, 2, 0);
+  });
+
+  it('ignores targets without features', () => {
+    const tracker = new PlanarTracker();
+    tracker.start(createFrame(0, 0, WIDTH, HEIGHT, true), [{ id: 1000, cornerPoints: QUAD }]);
+    assert.equal(tracker.size, 0);
+    assert.deepEqual(tracker.track(createFrame()), []);
+  });
+
+  it('loses targets which disappear', () => {
+    const tracker = new PlanarTracker();
+    tracker.start(createFrame(), [{ id: 1000, cornerPoints: QUAD }]);
+    assert.deepEqual(tracker.track(createFrame(0, 0, WIDTH, HEIGHT, true)), []);
+    assert.equal(tracker.size, 0);
+  });
+
+  it('stops tracking when the frame size changes', () => {
+    const tracker = new PlanarTracker();
+    tracker.start(createFrame(), [{ id: 1000, cornerPoints: QUAD }]);
+    assert.deepEqual(tracker.track(createFrame(0, 0, WIDTH / 2, HEIGHT / 2)), []);
+    assert.equal(tracker.size, 0);
+  });
+
+  it('removes targets', () => {
+    const tracker = new PlanarTracker();
+    tracker.start(createFrame(), [{ id: 1000, cornerPoints: QUAD }, { id: 1001, cornerPoints: QUAD }]);
+    tracker.remove(1000);
+    assert.deepEqual(tracker.track(createFrame(1, 1)).map(({ id }) => id), [1001]);
+
+    tracker.clear();
+    assert.equal(tracker.size, 0);
+  });
+});
@@ -24,21 +24,21 @@ export class WasmHeapWriter {
   private float64View: Float64Array;
   private offset: number;
 
-  constructor(size: number) {
-    this.ptr = Module._malloc(size);
+  constructor(size: number, module = Module) {
+    this.ptr = module._malloc(size);
     if (typeof this.ptr === 'undefined' || this.ptr === null) {
       throw new Error(`Malloc failed: size (${size})`);
     }
 
     this.size = size;
     this.uint8View =
-        new Uint8Array(Module.HEAPU8.buffer, this.ptr, size);
+        new Uint8Array(module.HEAPU8.buffer, this.ptr, size);
     this.uint32View =
-        new Uint32Array(Module.HEAPU32.buffer, this.ptr, size >> 2);
+        new Uint32Array(module.HEAPU32.buffer, this.ptr, size >> 2);
     this.float32View =
-        new Float32Array(Module.HEAPF32.buffer, this.ptr, size >> 2);
+        new Float32Array(module.HEAPF32.buffer, this.ptr, size >> 2);
     this.float64View =
-        new Float64Array(Module.HEAPF64.buffer, this.ptr, size >> 3);
+        new Float64Array(module.HEAPF64.buffer, this.ptr, size >> 3);
     this.offset = 0;
   }
 
@@ -15,7 +15,7 @@
  * limitations under the License.
  */
 
-import { Marker } from '../../defs/marker.js';
+import { BarcodeDetectorOptions, DetectedBarcode } from '../../defs/barcode.js';
 import { isImageData } from '../utils/is-image-data.js';
 
 export class BarcodeDetectorPolyfill {
@@ -24,16 +24,24 @@ export class BarcodeDetectorPolyfill {
   private readonly canvas = document.createElement('canvas');
   private readonly ctx = this.canvas.getContext('2d')!;
 
+  private readonly formats?: string[];
   private hasLoaded: boolean;
   private worker: Worker;
   private isReadyInternal: Promise<boolean>;
+  private readonly onUnloadBound = this.close.bind(this);
+  private resolveDetection: ((barcodes: DetectedBarcode[] | null) => void) | undefined;
 
   get isReady() {
     return this.isReadyInternal;
   }
 
-  constructor(path = 'barcode-detector_worker.js') {
+  /**
+   * The zxing reader always decodes every format it supports, so results in
+   * formats other than the requested `formats` are discarded after decoding.
+   */
+  constructor({ formats }: BarcodeDetectorOptions = {}, path = 'barcode-detector_worker.js') {
     this.hasLoaded = false;
+    this.formats = formats;
 
     let prefix = '/';
     if (typeof BarcodeDetectorPolyfill.loadedFrom !== 'undefined') {
@@ -59,14 +67,26 @@ export class BarcodeDetectorPolyfill {
       };
     });
 
-    /* istanbul ignore next */
-    window.addEventListener('unload', () => {
-      this.worker.terminate();
-    });
+    window.addEventListener('unload', this.onUnloadBound);
+  }
+
+  /**
+   * Terminates the detector's worker. The detector can't be used afterwards.
+   */
+  close() {
+    window.removeEventListener('unload', this.onUnloadBound);
+    this.worker.terminate();
+    this.hasLoaded = false;
+
+    // Settle any detection which the worker will no longer answer.
+    if (this.resolveDetection) {
+      this.resolveDetection([]);
+      this.resolveDetection = undefined;
+    }
   }
 
   async detect(pixels: ImageData | HTMLImageElement | HTMLCanvasElement):
-      Promise<Marker[] | null> {
+      Promise<DetectedBarcode[] | null> {
     if (!this.hasLoaded) {
       return null;
     }
@@ -95,12 +115,22 @@ export class BarcodeDetectorPolyfill {
             this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
       }
 
+      this.resolveDetection = resolve;
       this.worker.onmessage = (evt) => {
-        resolve(evt.data);
+        this.resolveDetection = undefined;
+        resolve(this.filterFormats(evt.data));
       };
       this.worker.postMessage(imageData);
     });
   }
+
+  private filterFormats(barcodes: DetectedBarcode[]) {
+    const { formats } = this;
+    if (!formats || !Array.isArray(barcodes)) {
+      return barcodes;
+    }
+    return barcodes.filter(({ format }) => formats.includes(format));
+  }
 }
 
 // Prevent overwriting the built-in.
@@ -35,7 +35,7 @@ const workerValidUrl = URL.createObjectURL(new Blob([workerValidSrc]));
 
 describe('BarcodeDetector', () => {
   it('isReady', async () => {
-    const BarcodeDetector = new BarcodeDetectorPolyfill(workerValidUrl);
+    const BarcodeDetector = new BarcodeDetectorPolyfill({}, workerValidUrl);
     const ready = await BarcodeDetector.isReady;
     assert.isTrue(ready);
   });
@@ -44,7 +44,7 @@ describe('BarcodeDetector', () => {
     try {
       const workerSrc = `self.postMessage('foo');`;
       const workerUrl = URL.createObjectURL(new Blob([workerSrc]));
-      const BarcodeDetector = new BarcodeDetectorPolyfill(workerUrl);
+      const BarcodeDetector = new BarcodeDetectorPolyfill({}, workerUrl);
       await BarcodeDetector.isReady;
       assert.fail('should not load');
     } catch (e) {
@@ -55,22 +55,40 @@ describe('BarcodeDetector', () => {
   it('returns null if not ready', async () => {
     const workerSrc = `setTimeout(() => self.postMessage('ready'), 500);`;
     const workerUrl = URL.createObjectURL(new Blob([workerSrc]));
-    const BarcodeDetector = new BarcodeDetectorPolyfill(workerUrl);
+    const BarcodeDetector = new BarcodeDetectorPolyfill({}, workerUrl);
     const value = await BarcodeDetector.detect({} as HTMLImageElement);
     assert.isNull(value);
   });
 
   it('handles Image elements', async () => {
-    const BarcodeDetector = new BarcodeDetectorPolyfill(workerValidUrl);
+    const BarcodeDetector = new BarcodeDetectorPolyfill({}, workerValidUrl);
     await BarcodeDetector.isReady;
     const value = await BarcodeDetector.detect(new Image(20, 20));
     assert.isDefined(value);
   });
 
   it('handles ImageData', async () => {
-    const BarcodeDetector = new BarcodeDetectorPolyfill(workerValidUrl);
+    const BarcodeDetector = new BarcodeDetectorPolyfill({}, workerValidUrl);
     await BarcodeDetector.isReady;
     const value = await BarcodeDetector.detect(new ImageData(100, 100));
     assert.isDefined(value);
   });
+
+  it('filters formats', async () => {
+    const workerSrc = `
+      self.onmessage = (e) => {
+        self.postMessage('ready');
+        self.onmessage = (e) => {
+          self.postMessage([
+            {rawValue: 'foo', format: 'qr_code'},
+            {rawValue: 'foo', format: 'ean_13'},
+          ]);
+        };
+      }`;
+    const workerUrl = URL.createObjectURL(new Blob([workerSrc]));
+    const BarcodeDetector = new BarcodeDetectorPolyfill({ formats: ['ean_13'] }, workerUrl);
+    await BarcodeDetector.isReady;
+    const value = await BarcodeDetector.detect(new ImageData(100, 100));
+    assert.deepEqual(value, [{rawValue: 'foo', format: 'ean_13'}]);
+  });
 });
@@ -21,6 +21,7 @@ declare global {
 
 import { BarcodeWasmModule } from '../../defs/barcode.js';
 import { DEBUG_LEVEL, enableLogLevel, log } from '../utils/logger.js';
+import { Pixels, readBarcodesInQuadtree } from './barcode-quadtree.js';
 
 function getDetectorModule() {
   return (self as any).Module as BarcodeWasmModule;
@@ -30,19 +31,23 @@ enableLogLevel(DEBUG_LEVEL.WARNING);
 
 class WasmBarcodeDetector {
   process(data: ImageData) {
+    // The reader only returns one barcode at a time, so read the frame in tiles
+    // to find all of them.
+    return readBarcodesInQuadtree(data, (pixels) => this.read(pixels));
+  }
+
+  private read(pixels: Pixels) {
     const Module = getDetectorModule();
-    const fileData = data.data;
+    const fileData = pixels.data;
     const buffer = Module._malloc(fileData.length);
     Module.HEAPU8.set(fileData, buffer);
     const result =
-        Module.readBarcodeFromPng(data.data, data.width, data.height);
+        Module.readBarcodeFromPng(pixels.data, pixels.width, pixels.height);
     Module._free(buffer);
 
     if (result.text && result.format) {
-      return [{rawValue: result.text, format: result.format.toLowerCase()}];
+      return {rawValue: result.text, format: result.format.toLowerCase()};
     }
-
-    return [];
   }
 }
 
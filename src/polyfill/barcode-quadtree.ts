@@ -0,0 +1,123 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DetectedBarcode } from '../../defs/barcode.js';
+import { BoundingBox, Point2D } from '../../defs/geometry.js';
+
+export interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * Reads a single barcode from the pixels, if there is one.
+ */
+export type SingleBarcodeReader = (pixels: Pixels) => { rawValue: string, format: string } | undefined;
+
+export interface QuadtreeOptions {
+  maxDepth?: number;
+  minTileSize?: number;  // The smallest tile width or height, in pixels.
+  overlap?: number;  // How far each tile extends past the midpoint, as a fraction of its parent.
+}
+
+function area({ width, height }: BoundingBox) {
+  return width * height;
+}
+
+function cornersOf({ x, y, width, height }: BoundingBox): Point2D[] {
+  return [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + height },
+    { x, y: y + height },
+  ];
+}
+
+/**
+ * Crops the pixels to a region.
+ */
+export function cropPixels({ data, width }: Pixels, { x, y, width: cropWidth, height: cropHeight }: BoundingBox):
+    Pixels {
+  const cropped = new Uint8ClampedArray(cropWidth * cropHeight * 4);
+  for (let row = 0; row < cropHeight; row++) {
+    const start = ((y + row) * width + x) * 4;
+    cropped.set(data.subarray(start, start + cropWidth * 4), row * cropWidth * 4);
+  }
+  return { data: cropped, width: cropWidth, height: cropHeight };
+}
+
+/**
+ * Reads every barcode in the pixels using a reader which only returns one
+ * barcode at a time.
+ *
+ * The whole frame is read first. If it contains a barcode it is split into four
+ * overlapping tiles, each of which is read in turn, and so on for every tile
+ * containing a barcode until `maxDepth` or `minTileSize` is reached, even if it
+ * is the barcode its parent read, as other barcodes may be hidden behind it.
+ * Barcodes which straddle the tile boundaries are still found by the larger
+ * tiles.
+ *
+ * The reader does not report where a barcode is, so once every tile has been
+ * read, each barcode is located by the smallest tile in which it was read.
+ */
+export function readBarcodesInQuadtree(pixels: Pixels, read: SingleBarcodeReader,
+                                       {
+                                         maxDepth = 2,
+                                         minTileSize = 160,
+                                         overlap = 0.25
+                                       }: QuadtreeOptions = {}): DetectedBarcode[] {
+  const reads: Array<{ format: string, rawValue: string, tile: BoundingBox }> = [];
+
+  const scan = (tile: BoundingBox, depth: number) => {
+    const isFrame = depth === 0;
+    const barcode = read(isFrame ? pixels : cropPixels(pixels, tile));
+    if (!barcode) {
+      return;
+    }
+
+    reads.push({ format: barcode.format, rawValue: barcode.rawValue, tile });
+
+    const width = Math.round(tile.width * (0.5 + overlap / 2));
+    const height = Math.round(tile.height * (0.5 + overlap / 2));
+    if (depth >= maxDepth || width < minTileSize || height < minTileSize) {
+      return;
+    }
+
+    for (const [ x, y ] of [
+      [ tile.x, tile.y ],
+      [ tile.x + tile.width - width, tile.y ],
+      [ tile.x, tile.y + tile.height - height ],
+      [ tile.x + tile.width - width, tile.y + tile.height - height ],
+    ]) {
+      scan({ x, y, width, height }, depth + 1);
+    }
+  };
+
+  scan({ x: 0, y: 0, width: pixels.width, height: pixels.height }, 0);
+
+  // Keep the smallest tile in which each barcode was read.
+  const found = new Map<string, DetectedBarcode>();
+  for (const { format, rawValue, tile } of reads) {
+    const key = `${format}__${rawValue}`;
+    const existing = found.get(key);
+    if (!existing || area(tile) < area(existing.boundingBox!)) {
+      found.set(key, { boundingBox: tile, cornerPoints: cornersOf(tile), format, rawValue });
+    }
+  }
+  return Array.from(found.values());
+}
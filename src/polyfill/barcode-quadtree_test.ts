@@ -0,0 +1,108 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { BoundingBox } from '../../defs/geometry.js';
+import { cropPixels, Pixels, readBarcodesInQuadtree } from './barcode-quadtree.js';
+
+// Encodes the x and y coordinate of each pixel in its red and green channels.
+function createPixels(width: number, height: number): Pixels {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data[(y * width + x) * 4] = x;
+      data[(y * width + x) * 4 + 1] = y;
+    }
+  }
+  return { data, width, height };
+}
+
+// A reader which returns the first of the barcodes that lies entirely within the
+// pixels, where each pixel knows its original coordinates.
+function createReader(barcodes: Array<BoundingBox & { rawValue: string }>) {
+  return ({ data, width, height }: Pixels) => {
+    const left = data[0];
+    const top = data[1];
+    const barcode = barcodes.find(({ x, y, width: w, height: h }) =>
+        x >= left && y >= top && x + w <= left + width && y + h <= top + height);
+    return barcode && { rawValue: barcode.rawValue, format: 'qr_code' };
+  };
+}
+
+describe('BarcodeQuadtree', () => {
+  it('crops pixels', () => {
+    const cropped = cropPixels(createPixels(8, 8), { x: 2, y: 3, width: 4, height: 2 });
+    assert.equal(cropped.width, 4);
+    assert.equal(cropped.height, 2);
+    assert.lengthOf(cropped.data, 4 * 2 * 4);
+    assert.deepEqual(Array.from(cropped.data.slice(0, 2)), [2, 3]);
+    assert.deepEqual(Array.from(cropped.data.slice(-4, -2)), [5, 4]);
+  });
+
+  it('returns nothing when the frame has no barcodes', () => {
+    let reads = 0;
+    const results = readBarcodesInQuadtree(createPixels(200, 200), () => {
+      reads++;
+      return undefined;
+    });
+    assert.lengthOf(results, 0);
+    assert.equal(reads, 1);
+  });
+
+  it('finds every barcode in the frame', () => {
+    const read = createReader([
+      { rawValue: 'A', x: 10, y: 10, width: 20, height: 20 },
+      { rawValue: 'B', x: 200, y: 10, width: 20, height: 20 },
+      { rawValue: 'C', x: 10, y: 200, width: 20, height: 20 },
+      { rawValue: 'D', x: 200, y: 200, width: 20, height: 20 },
+    ]);
+    const results = readBarcodesInQuadtree(createPixels(240, 240), read, { minTileSize: 20 });
+    assert.sameMembers(results.map(({ rawValue }) => rawValue), ['A', 'B', 'C', 'D']);
+  });
+
+  it('finds barcodes behind those read by the parent tile', () => {
+    const read = createReader([
+      { rawValue: 'A', x: 10, y: 10, width: 20, height: 20 },
+      { rawValue: 'B', x: 60, y: 60, width: 20, height: 20 },
+    ]);
+    const results = readBarcodesInQuadtree(createPixels(240, 240), read, { minTileSize: 20 });
+    assert.sameMembers(results.map(({ rawValue }) => rawValue), ['A', 'B']);
+    for (const { boundingBox } of results) {
+      assert.isAtMost(boundingBox!.width, 100);
+    }
+  });
+
+  it('locates barcodes by the smallest tile they were read in', () => {
+    const read = createReader([{ rawValue: 'A', x: 10, y: 10, width: 20, height: 20 }]);
+    const [ result ] = readBarcodesInQuadtree(createPixels(240, 240), read,
+        { maxDepth: 1, minTileSize: 20, overlap: 0 });
+    assert.deepEqual(result.boundingBox, { x: 0, y: 0, width: 120, height: 120 });
+    assert.deepEqual(result.cornerPoints, [
+      { x: 0, y: 0 }, { x: 120, y: 0 }, { x: 120, y: 120 }, { x: 0, y: 120 }
+    ]);
+  });
+
+  it('does not split tiles below the minimum size', () => {
+    let reads = 0;
+    readBarcodesInQuadtree(createPixels(200, 200), () => {
+      reads++;
+      return { rawValue: 'A', format: 'qr_code' };
+    }, { minTileSize: 150 });
+    assert.equal(reads, 1);
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DetectedImage } from '../../defs/detected-image.js';
+import { DetectionFrame } from '../../defs/frame.js';
+import { BoundingBox } from '../../defs/geometry.js';
+import { Marker } from '../../defs/marker.js';
+import { ARTargetTypes } from '../artifacts/schema/extension-ar-artifacts.js';
+import { PerceptionResult } from '../artifacts/stores/artifact-store.js';
+import { Detections } from '../detectors/detector.js';
+import { PerceptionStateChangeResponse } from '../elements/meaning-maker/meaning-maker.js';
+import { DEBUG_LEVEL, log } from '../utils/logger.js';
+
+interface MediaRecorderOptions {
+  mimeType?: string;
+  videoBitsPerSecond?: number;
+}
+
+interface MediaRecorder extends EventTarget {
+  readonly state: 'inactive' | 'recording' | 'paused';
+  ondataavailable: ((evt: { data: Blob }) => void) | null;
+  onstop: (() => void) | null;
+  start(timeslice?: number): void;
+  stop(): void;
+}
+
+declare global {
+  interface Window {
+    MediaRecorder?: {
+      new(stream: MediaStream, options?: MediaRecorderOptions): MediaRecorder;
+      isTypeSupported(mimeType: string): boolean;
+    };
+  }
+}
+
+/**
+ * A result found or lost in a recorded frame. Only the identity of the
+ * artifact is kept, so that recordings stay small.
+ */
+export interface RecordedResult {
+  artifact?: string;  // The `@id` or `name` of the artifact.
+  target?: ARTargetTypes;
+}
+
+/**
+ * The changes to the perception state caused by a recorded frame.
+ */
+export interface RecordedResponse {
+  found: RecordedResult[];
+  lost: RecordedResult[];
+  newTargets: Array<Marker | DetectedImage>;
+}
+
+/**
+ * A frame captured during a recorded session, with what was detected in it.
+ */
+export interface RecordedFrame {
+  time: number;  // ms since the start of the recording.
+  image: string;  // A data URL of the captured frame.
+  region?: BoundingBox;  // The region of the whole frame which was captured.
+  detections: { [detector: string]: Detections };
+  response?: RecordedResponse;
+}
+
+/**
+ * A recorded capture session, which can be saved as JSON and replayed with
+ * [[replaySession]].
+ */
+export interface SessionRecording {
+  version: number;
+  startTime: string;  // ISO 8601.
+  userAgent: string;
+  frames: RecordedFrame[];
+  video?: string;  // A data URL of the compressed stream, if it was recorded.
+}
+
+export interface SessionRecorderOptions {
+  lossless?: boolean;  // Whether to encode frames as `image/png`, e.g. for replays in CI (default: false).
+  imageType?: string;  // The type to encode frames as (default: `image/jpeg`, or `image/png` if lossless).
+  imageQuality?: number;  // Between 0 and 1 (default: 0.8).
+  maxFrames?: number;  // Older frames are dropped beyond this (default: 500).
+  recordVideo?: boolean;  // Whether to also record the stream as video (default: false).
+}
+
+/** @ignore */
+export const RECORDING_VERSION = 1;
+
+/**
+ * Converts a Blob to a data URL.
+ */
+function toDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function recordResult({ artifact, target }: PerceptionResult): RecordedResult {
+  return { artifact: artifact['@id'] || artifact.name, target };
+}
+
+/**
+ * SessionRecorder records the frames captured during a session, together with
+ * the targets detected in them and the results they produced, so that the
+ * session can be replayed later (e.g. to reproduce a bug, or in a test).
+ *
+ * ```javascript
+ * const recorder = new SessionRecorder();
+ * recorder.start(stream);
+ *
+ * // For each captured frame, before it is given to any detectors.
+ * const frame = recorder.recordFrame(imgData);
+ * recorder.recordDetections(frame, 'barcode', detections);
+ *
+ * const recording = await recorder.stop();
+ * ```
+ */
+export class SessionRecorder {
+  private readonly imageType: string;
+  private readonly imageQuality: number;
+  private readonly maxFrames: number;
+  private readonly recordVideo: boolean;
+  private readonly canvas = document.createElement('canvas');
+  private frames: RecordedFrame[] = [];
+  private startTime = new Date();
+  private videoRecorder: MediaRecorder | undefined;
+  private videoChunks: Blob[] = [];
+
+  constructor({
+    lossless = false,
+    imageType = lossless ? 'image/png' : 'image/jpeg',
+    imageQuality = 0.8,
+    maxFrames = 500,
+    recordVideo = false
+  }: SessionRecorderOptions = {}) {
+    this.imageType = imageType;
+    this.imageQuality = imageQuality;
+    this.maxFrames = maxFrames;
+    this.recordVideo = recordVideo;
+  }
+
+  /**
+   * Starts a new recording, discarding any previous one. If video is being
+   * recorded, the stream to record must be given.
+   */
+  start(stream?: MediaStream) {
+    this.frames = [];
+    this.videoChunks = [];
+    this.startTime = new Date();
+
+    const { MediaRecorder } = window;
+    if (!this.recordVideo || !stream) {
+      return;
+    }
+
+    if (!MediaRecorder) {
+      log('Unable to record video', DEBUG_LEVEL.WARNING, 'Recording');
+      return;
+    }
+
+    this.videoRecorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+    this.videoRecorder.ondataavailable = ({ data }) => this.videoChunks.push(data);
+    this.videoRecorder.start(1000);
+  }
+
+  /**
+   * Records a captured frame, returning the record to which its detections and
+   * response are added. This must be called before the frame is given to any
+   * detectors, which may transfer it to a worker.
+   */
+  recordFrame(frame: DetectionFrame, region?: BoundingBox): RecordedFrame {
+    const width = 'displayWidth' in frame ? frame.displayWidth : frame.width;
+    const height = 'displayHeight' in frame ? frame.displayHeight : frame.height;
+    const ctx = this.canvas.getContext('2d')!;
+    this.canvas.width = width;
+    this.canvas.height = height;
+    if ('data' in frame) {
+      ctx.putImageData(frame, 0, 0);
+    } else {
+      ctx.drawImage(frame as ImageBitmap, 0, 0);
+    }
+
+    const record: RecordedFrame = {
+      detections: {},
+      image: this.canvas.toDataURL(this.imageType, this.imageQuality),
+      region,
+      time: Date.now() - this.startTime.getTime(),
+    };
+
+    this.frames.push(record);
+    if (this.frames.length > this.maxFrames) {
+      this.frames.shift();
+    }
+    return record;
+  }
+
+  /**
+   * Records what a detector found in a recorded frame.
+   */
+  recordDetections(frame: RecordedFrame, detector: string, { markers, images }: Detections) {
+    frame.detections[detector] = { images, markers };
+  }
+
+  /**
+   * Records the changes to the perception state caused by a recorded frame.
+   */
+  recordResponse(frame: RecordedFrame, { found, lost, newTargets }: PerceptionStateChangeResponse) {
+    frame.response = {
+      found: found.map(recordResult),
+      lost: lost.map(recordResult),
+      newTargets,
+    };
+  }
+
+  /**
+   * Returns the recording so far, without stopping it. Video is only included
+   * once the recording has stopped.
+   */
+  getRecording(): SessionRecording {
+    return {
+      frames: this.frames.slice(),
+      startTime: this.startTime.toISOString(),
+      userAgent: navigator.userAgent,
+      version: RECORDING_VERSION,
+    };
+  }
+
+  /**
+   * Stops recording, and resolves to the recording.
+   */
+  async stop(): Promise<SessionRecording> {
+    const recording = this.getRecording();
+    const videoRecorder = this.videoRecorder;
+    this.videoRecorder = undefined;
+    if (!videoRecorder || videoRecorder.state === 'inactive') {
+      return recording;
+    }
+
+    await new Promise((resolve) => {
+      videoRecorder.onstop = resolve;
+      videoRecorder.stop();
+    });
+
+    if (this.videoChunks.length > 0) {
+      recording.video = await toDataUrl(new Blob(this.videoChunks, { type: 'video/webm' }));
+    }
+    return recording;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { ARArtifact } from '../artifacts/schema/extension-ar-artifacts.js';
+import { RECORDING_VERSION, SessionRecorder } from './session-recorder.js';
+
+function makeFrame(width = 4, height = 2) {
+  const imageData = new ImageData(width, height);
+  imageData.data.fill(255);
+  return imageData;
+}
+
+describe('SessionRecorder', () => {
+  it('records frames as images', () => {
+    const recorder = new SessionRecorder({ imageType: 'image/png' });
+    recorder.start();
+    const frame = recorder.recordFrame(makeFrame(), { x: 10, y: 20, width: 4, height: 2 });
+
+    assert.match(frame.image, /^data:image\/png;base64,/);
+    assert.deepEqual(frame.region, { x: 10, y: 20, width: 4, height: 2 });
+    assert.isAtLeast(frame.time, 0);
+
+    const { frames, version } = recorder.getRecording();
+    assert.equal(version, RECORDING_VERSION);
+    assert.deepEqual(frames, [frame]);
+  });
+
+  it('records bitmaps', async () => {
+    const recorder = new SessionRecorder();
+    recorder.start();
+    const bitmap = await createImageBitmap(makeFrame());
+    assert.match(recorder.recordFrame(bitmap).image, /^data:image\/jpeg;base64,/);
+  });
+
+  it('records detections and responses', () => {
+    const recorder = new SessionRecorder();
+    recorder.start();
+    const frame = recorder.recordFrame(makeFrame());
+    const marker = { type: 'qr_code', value: 'foo' };
+    recorder.recordDetections(frame, 'barcode', { markers: [marker] });
+
+    const artifact: ARArtifact = { '@type': 'ARArtifact', 'name': 'Foo' };
+    const target = { '@type': 'Barcode', 'text': 'foo' };
+    recorder.recordResponse(frame, {
+      detectableImages: [],
+      found: [{ artifact, target }],
+      geo: {},
+      lost: [],
+      newTargets: [marker],
+    } as any);
+
+    const [ recorded ] = recorder.getRecording().frames;
+    assert.deepEqual(recorded.detections, { barcode: { images: undefined, markers: [marker] } });
+    assert.deepEqual(recorded.response, { found: [{ artifact: 'Foo', target }], lost: [], newTargets: [marker] });
+  });
+
+  it('keeps the most recent frames', () => {
+    const recorder = new SessionRecorder({ maxFrames: 2 });
+    recorder.start();
+    const frames = [1, 2, 3].map((width) => recorder.recordFrame(makeFrame(width)));
+    assert.deepEqual(recorder.getRecording().frames, frames.slice(1));
+  });
+
+  it('starts afresh', async () => {
+    const recorder = new SessionRecorder();
+    recorder.start();
+    recorder.recordFrame(makeFrame());
+    recorder.start();
+    assert.lengthOf((await recorder.stop()).frames, 0);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+declare global {
+  interface HTMLCanvasElement {
+    captureStream(frameRate?: number): MediaStream;
+  }
+}
+
+import { FrameOptions, PerceptionFrameResult, PerceptionSession } from '../session/perception-session.js';
+import { loadImages } from '../utils/load-images.js';
+import { RecordedFrame, SessionRecording } from './session-recorder.js';
+
+/**
+ * What to replay: a recording, or the URLs of a sequence of images.
+ */
+export type ReplaySource = SessionRecording | string[];
+
+export interface ReplayOptions {
+  frameInterval?: number;  // How long to show each image for, in ms (default: 500).
+  loop?: boolean;  // Whether to start again at the end (default: false).
+}
+
+/**
+ * A replay in progress. Its `stream` can be given to `StreamCapture.start` in
+ * place of a camera stream.
+ */
+export interface SessionReplay {
+  stream: MediaStream;
+  finished: Promise<void>;  // Resolves once the replay ends, or is stopped.
+  stop(): void;
+}
+
+/**
+ * Loads the pixels of a recorded frame, e.g. to run a detector on it directly.
+ */
+export async function loadRecordedFrame({ image }: RecordedFrame): Promise<ImageData> {
+  const [ img ] = await loadImages([image]);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Replays a recording deterministically, e.g. in a test. Each recorded frame is
+ * given once, in order, to the session's `processFrame` with the region it was
+ * captured from, so unlike [[replaySession]] the results don't depend on timing.
+ * Recordings made with `lossless` set are detected exactly as captured. Resolves
+ * to the result of each frame.
+ *
+ * ```javascript
+ * const results = await replayFrames(recording, session);
+ * assert.lengthOf(results[0].found, 1);
+ * ```
+ */
+export async function replayFrames({ frames }: SessionRecording, session: PerceptionSession,
+                                   options: FrameOptions = {}): Promise<PerceptionFrameResult[]> {
+  const results: PerceptionFrameResult[] = [];
+  for (const frame of frames) {
+    const imageData = await loadRecordedFrame(frame);
+    results.push(await session.processFrame(imageData, { ...options, region: frame.region }));
+  }
+  return results;
+}
+
+/*
+ * Draws a source into a canvas, scaled to fit and centered.
+ */
+function drawToFit(ctx: CanvasRenderingContext2D, source: HTMLImageElement | HTMLVideoElement,
+                   sourceWidth: number, sourceHeight: number) {
+  const { width, height } = ctx.canvas;
+  const scale = Math.min(width / sourceWidth, height / sourceHeight);
+  const drawWidth = sourceWidth * scale;
+  const drawHeight = sourceHeight * scale;
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+/*
+ * Prepares a video for replay, returning a function which draws its current
+ * frame, and returns whether it is still playing.
+ */
+async function prepareVideo(video: HTMLVideoElement, canvas: HTMLCanvasElement, loop: boolean) {
+  video.muted = true;
+  video.loop = loop;
+  video.setAttribute('playsinline', 'playsinline');
+  await new Promise((resolve, reject) => {
+    video.onloadedmetadata = resolve;
+    video.onerror = () => reject(new Error('Unable to load the recorded video'));
+  });
+
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d')!;
+  await video.play();
+
+  return () => {
+    drawToFit(ctx, video, video.videoWidth, video.videoHeight);
+    return !video.ended;
+  };
+}
+
+/*
+ * Prepares a sequence of images for replay, each shown from its time (in ms),
+ * returning a function which draws the current image, and returns whether the
+ * sequence is still playing.
+ */
+async function prepareImages(urls: string[], times: number[], canvas: HTMLCanvasElement, loop: boolean) {
+  const images = await loadImages(urls);
+  canvas.width = images[0].naturalWidth;
+  canvas.height = images[0].naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+
+  // The last image is shown for as long as the one before it.
+  const last = times.length - 1;
+  const duration = times[last] + (last > 0 ? times[last] - times[last - 1] : 0);
+  const start = performance.now();
+
+  return () => {
+    let elapsed = performance.now() - start;
+    if (elapsed > duration) {
+      if (!loop || duration === 0) {
+        return false;
+      }
+      elapsed %= duration;
+    }
+
+    let index = 0;
+    while (index < last && times[index + 1] <= elapsed) {
+      index++;
+    }
+
+    const image = images[index];
+    drawToFit(ctx, image, image.naturalWidth, image.naturalHeight);
+    return true;
+  };
+}
+
+/**
+ * Replays a recording, or a sequence of images, as a stream which can be used
+ * in place of a camera stream. Recorded video is replayed if the recording has
+ * it, and otherwise the recorded frames are replayed with their original
+ * timing. Images from a list are each shown for `frameInterval` ms. Which
+ * frames get captured from the stream depends on timing, so use
+ * [[replayFrames]] where results must be reproducible.
+ *
+ * ```javascript
+ * const recording = await (await fetch('recording.json')).json();
+ * const replay = await replaySession(recording);
+ * capture.start(replay.stream);
+ * await replay.finished;
+ * ```
+ */
+export async function replaySession(source: ReplaySource,
+                                    { frameInterval = 500, loop = false }: ReplayOptions = {}):
+    Promise<SessionReplay> {
+  let urls: string[];
+  let times: number[];
+  let video: HTMLVideoElement | undefined;
+  if (Array.isArray(source)) {
+    urls = source;
+    times = source.map((_, index) => index * frameInterval);
+  } else {
+    const [ first ] = source.frames;
+    urls = source.frames.map(({ image }) => image);
+    times = source.frames.map(({ time }) => time - first.time);
+    if (source.video) {
+      video = document.createElement('video');
+      video.src = source.video;
+    }
+  }
+
+  if (!video && urls.length === 0) {
+    throw new Error('Nothing to replay');
+  }
+
+  const canvas = document.createElement('canvas');
+  const render = video ?
+      await prepareVideo(video, canvas, loop) :
+      await prepareImages(urls, times, canvas, loop);
+
+  // Draw the first frame straight away, so that the stream has its dimensions,
+  // then keep drawing on every animation frame so that the stream updates.
+  render();
+  const stream = canvas.captureStream();
+  let stopped = false;
+  const finished = new Promise<void>((resolve) => {
+    const update = () => {
+      if (stopped || !render()) {
+        if (video) {
+          video.pause();
+        }
+
+        for (const track of stream.getTracks()) {
+          track.stop();
+        }
+        resolve();
+        return;
+      }
+      requestAnimationFrame(update);
+    };
+    requestAnimationFrame(update);
+  });
+
+  return {
+    finished,
+    stop() {
+      stopped = true;
+    },
+    stream,
+  };
+}
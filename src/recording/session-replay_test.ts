@@ -0,0 +1,153 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { spy } from 'sinon';
+import { registerDetector } from '../detectors/detector-registry.js';
+import { PerceptionSession } from '../session/perception-session.js';
+import { SessionRecorder, SessionRecording } from './session-recorder.js';
+import { loadRecordedFrame, replayFrames, replaySession } from './session-replay.js';
+
+function makeImage(color: string, width = 40, height = 20) {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  canvas.width = width;
+  canvas.height = height;
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, width, height);
+  return canvas.toDataURL('image/png');
+}
+
+function readStream(stream: MediaStream): Promise<ImageData> {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.srcObject = stream;
+  video.play();
+
+  return new Promise((resolve) => {
+    video.addEventListener('playing', () => {
+      requestAnimationFrame(() => {
+        const canvas = document.createElement('canvas');
+        const ctx = canvas.getContext('2d')!;
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        ctx.drawImage(video, 0, 0);
+        resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+      });
+    }, { once: true });
+  });
+}
+
+describe('Session replay', () => {
+  const recording: SessionRecording = {
+    frames: [
+      { detections: {}, image: makeImage('#F00'), time: 1000 },
+      { detections: {}, image: makeImage('#0F0'), time: 1500 },
+    ],
+    startTime: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    version: 1,
+  };
+
+  it('loads recorded frames', async () => {
+    const imageData = await loadRecordedFrame(recording.frames[0]);
+    assert.equal(imageData.width, 40);
+    assert.equal(imageData.height, 20);
+    assert.deepEqual(Array.from(imageData.data.slice(0, 4)), [255, 0, 0, 255]);
+  });
+
+  it('replays each recorded frame once', async () => {
+    const detector = {
+      async init() {
+        // Nothing to load.
+      },
+
+      async detect(frame: ImageData) {
+        const value = frame.data[0] > 0 ? 'red' : 'green';
+        return { markers: [{ boundingBox: { x: 1, y: 1, width: 10, height: 10 }, type: 'qr_code', value }] };
+      },
+
+      async dispose() {
+        // Nothing to release.
+      },
+    };
+    const detect = spy(detector, 'detect');
+    registerDetector('replay-test', () => detector);
+
+    const session = new PerceptionSession({
+      artifactSources: [],
+      detectors: { 'barcode': false, 'replay-test': true },
+    }, document.createElement('div'));
+    await session.init();
+    await session.start();
+
+    const region = { x: 5, y: 5, width: 40, height: 20 };
+    const results = await replayFrames({
+      ...recording,
+      frames: [recording.frames[0], { ...recording.frames[1], region }],
+    }, session);
+    await session.stop();
+
+    assert.equal(detect.callCount, 2);
+    assert.deepEqual(results.map(({ markers }) => markers[0].value), ['red', 'green']);
+    assert.deepEqual(results[1].markers[0].boundingBox, { x: 6, y: 6, width: 10, height: 10 });
+  });
+
+  it('records lossless frames for replay', async () => {
+    const recorder = new SessionRecorder({ lossless: true });
+    const frame = new ImageData(new Uint8ClampedArray([1, 2, 3, 255, 4, 5, 6, 255]), 2, 1);
+    const record = recorder.recordFrame(frame);
+
+    assert.match(record.image, /^data:image\/png/);
+    assert.deepEqual(Array.from((await loadRecordedFrame(record)).data), Array.from(frame.data));
+  });
+
+  it('replays recordings as streams', async () => {
+    const replay = await replaySession(recording);
+    const imageData = await readStream(replay.stream);
+    assert.equal(imageData.width, 40);
+    assert.equal(imageData.height, 20);
+
+    await replay.finished;
+    assert.isTrue(replay.stream.getTracks().every(({ readyState }) => readyState === 'ended'));
+  });
+
+  it('replays images', async () => {
+    const replay = await replaySession([makeImage('#00F', 30, 30)], { frameInterval: 100 });
+    const imageData = await readStream(replay.stream);
+    assert.equal(imageData.width, 30);
+    assert.isAbove(imageData.data[2], 250);
+    await replay.finished;
+  });
+
+  it('can be stopped', async () => {
+    const replay = await replaySession(recording, { loop: true });
+    replay.stop();
+    await replay.finished;
+  });
+
+  it('throws if there is nothing to replay', async () => {
+    let error: Error | undefined;
+    try {
+      await replaySession([]);
+    } catch (e) {
+      error = e;
+    }
+    assert.isDefined(error);
+  });
+});
@@ -0,0 +1,653 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DetectedImage } from '../../defs/detected-image.js';
+import { DetectionFrame } from '../../defs/frame.js';
+import { BoundingBox, PhysicalSize } from '../../defs/geometry.js';
+import { Marker } from '../../defs/marker.js';
+import { PerceptionToolkitConfig } from '../../perception-toolkit/defs.js';
+import { ArtifactCache } from '../artifacts/artifact-cache.js';
+import { ProbableTargets } from '../artifacts/artifact-dealer.js';
+import { GeoCoordinates } from '../artifacts/schema/core-schema-org.js';
+import { PerceptionResult } from '../artifacts/stores/artifact-store.js';
+import { createCombinedDetector } from '../detectors/combined/combined.js';
+import { getDetectorFactory, getDetectorNames, registerDetector } from '../detectors/detector-registry.js';
+import { Detections, Detector, DetectorContext } from '../detectors/detector.js';
+import { createBarcodeDetector } from '../detectors/marker/barcode.js';
+import { createPlanarImageDetector } from '../detectors/planar-image/planar-image.js';
+import { MeaningMaker, PerceptionStateChangeResponse } from '../elements/meaning-maker/meaning-maker.js';
+import { flat } from '../utils/flat.js';
+import { FrameLayout, translateGeometry, withScreenGeometry } from '../utils/geometry.js';
+import { DEBUG_LEVEL, log } from '../utils/logger.js';
+import { estimateIntrinsics, estimatePose, scaleIntrinsics } from '../utils/pose.js';
+
+/**
+ * The options of a `PerceptionSession`, which have the same meaning as in the
+ * toolkit's config. The toolkit's config can itself be given as the options.
+ * Detectors are given the options as their config.
+ */
+export type PerceptionSessionOptions = Pick<PerceptionToolkitConfig,
+    'artifactSources' |
+    'artifactStores' |
+    'barcodeFormats' |
+    'cacheArtifacts' |
+    'cameraFieldOfView' |
+    'cameraIntrinsics' |
+    'combineDetectors' |
+    'detectors' |
+    'minConfidence' |
+    'minConsecutiveFrames' |
+    'root' |
+    'shouldLoadArtifactsFrom' |
+    'trackImages'>;
+
+/**
+ * Describes where a frame came from, so that targets can be located in it.
+ */
+export interface FrameOptions {
+  /**
+   * The user's last known location, for finding geo-targeted artifacts.
+   */
+  geo?: GeoCoordinates;
+
+  /**
+   * How the whole frame is shown on screen. If given, targets are also located
+   * on screen.
+   */
+  layout?: FrameLayout;
+
+  /**
+   * The region of the whole frame which the frame was cropped to, if any.
+   */
+  region?: BoundingBox;
+
+  /**
+   * The scale of the frame relative to the camera's video, such as the
+   * `captureScale` it was captured at (default: `1`). Calibrated
+   * `cameraIntrinsics` are scaled by it.
+   */
+  scale?: number;
+}
+
+/**
+ * The targets found by one detector in a frame, as the detector reported
+ * them, and how long (in ms) detection took.
+ */
+export interface DetectorResult {
+  name: string;
+  detections: Detections;
+  latency: number;
+}
+
+/**
+ * The outcome of processing a frame: the results which were found and lost
+ * because of it, the targets which were seen for the first time, and every
+ * target in the frame (located within the whole frame, on screen and relative
+ * to the camera where possible).
+ */
+export interface PerceptionFrameResult extends PerceptionStateChangeResponse {
+  markers: Marker[];
+  images: DetectedImage[];
+  detectors: DetectorResult[];
+}
+
+interface FrameSize {
+  width: number;
+  height: number;
+}
+
+// The name of the detector which replaces the barcode and image detectors when
+// `combineDetectors` is set.
+const COMBINED_DETECTOR = 'barcode+image';
+
+// Register the built-in detectors, unless they have been replaced already.
+if (!getDetectorFactory('barcode')) {
+  registerDetector('barcode', createBarcodeDetector);
+}
+if (!getDetectorFactory('image')) {
+  registerDetector('image', createPlanarImageDetector);
+}
+
+/*
+ * Returns the names of the detectors to use, according to the `detectors`
+ * option, and whether each should be initialized ahead of detection starting.
+ */
+function requestedDetectors({ detectors = 'lazy' }: PerceptionSessionOptions): Array<[string, boolean]> {
+  if (!detectors || detectors === 'lazy') {
+    // Barcodes are detected in every frame, so are always initialized up front.
+    return [['barcode', true], ['image', false]];
+  }
+
+  if (detectors === 'all') {
+    return getDetectorNames().map((name): [string, boolean] => [name, true]);
+  }
+
+  // Barcodes are detected unless they have been explicitly disabled.
+  const requested = new Map<string, boolean>([['barcode', true]]);
+  for (const [name, detector] of Object.entries(detectors)) {
+    if (detector) {
+      requested.set(name, detector === true);
+    } else {
+      requested.delete(name);
+    }
+  }
+  return Array.from(requested);
+}
+
+/**
+ * PerceptionSession runs the detection pipeline without any UI: it finds
+ * targets in the frames it is given, with the configured detectors, and
+ * reports the results which the `MeaningMaker` finds and loses for them.
+ * Frames may come from any source, and several sessions may be used on one
+ * page, each with its own options.
+ *
+ * ```js
+ * const session = new PerceptionSession({ artifactSources: ['artifacts.jsonld'] });
+ * await session.init();
+ * await session.start();
+ * const { found, lost } = await session.processFrame(imageData);
+ * ```
+ */
+export class PerceptionSession {
+  private artifactCache: ArtifactCache | undefined;
+  private readonly meaningMaker: MeaningMaker;
+  // The detectors in use, by name.
+  private readonly activeDetectors = new Map<string, Detector>();
+  // The detectors which are initialized before detection starts.
+  private preloadedDetectors: Detector[] = [];
+  // The initialization of each detector which has been initialized.
+  private readonly detectorsReady = new Map<Detector, Promise<boolean>>();
+  // The detectors which are detecting each image target id.
+  private readonly imageTargets = new Map<string, Detector[]>();
+  // The physical size of each image target which has one, for estimating poses.
+  private readonly imageSizes = new Map<string, PhysicalSize>();
+  // The targets found by each detector in the last frame.
+  private lastDetections = new Map<Detector, Detections>();
+  // The URLs of the `artifactSources` which have been loaded.
+  private loadedSources = new Set<string>();
+  private processedFrames = 0;
+  private isStarted = false;
+
+  /**
+   * @param options The session's options. These are read as they are needed,
+   *     so `shouldLoadArtifactsFrom` may be changed while the session runs,
+   *     except for those which are applied with `applyOptions`.
+   * @param eventTarget The target on which `artifactDiagnostics` and
+   *     `artifactsChanged` events are fired.
+   */
+  constructor(private readonly options: PerceptionSessionOptions = {},
+              eventTarget: HTMLElement | Window = window) {
+    this.meaningMaker = new MeaningMaker(eventTarget);
+    this.applyOptions();
+    this.createDetectors();
+  }
+
+  /**
+   * The names of the detectors in use.
+   */
+  get detectorNames() {
+    return Array.from(this.activeDetectors.keys());
+  }
+
+  /**
+   * Whether any detector is in use which can follow its targets between
+   * frames (see `followTargets`).
+   */
+  get canTrack() {
+    return Array.from(this.activeDetectors.values()).some((detector) => !!detector.track);
+  }
+
+  /**
+   * Whether targets were found by detectors which can follow them, so that
+   * calling `followTargets` is worthwhile.
+   */
+  get hasTrackedTargets() {
+    return this.trackedDetectors().length > 0;
+  }
+
+  /**
+   * Applies the `cacheArtifacts`, `minConfidence` and `minConsecutiveFrames`
+   * options, which are read when the session is created, and must be applied
+   * again whenever they change.
+   */
+  applyOptions() {
+    const { cacheArtifacts = false, minConfidence = 0, minConsecutiveFrames = 1 } = this.options;
+    if (cacheArtifacts !== !!this.artifactCache) {
+      this.artifactCache = cacheArtifacts ? new ArtifactCache() : undefined;
+      this.meaningMaker.artifactCache = this.artifactCache;
+    }
+    this.meaningMaker.minConfidence = minConfidence;
+    this.meaningMaker.minConsecutiveFrames = minConsecutiveFrames;
+  }
+
+  /**
+   * Loads the artifacts in the document, the `artifactStores`, and the
+   * `artifactSources`.
+   */
+  async init() {
+    const { artifactStores = [] } = this.options;
+    await this.meaningMaker.init();
+
+    const stores = Array.isArray(artifactStores) ? artifactStores : [artifactStores];
+    for (const store of stores) {
+      await this.meaningMaker.addArtifactStore(store);
+    }
+
+    await this.loadArtifactSources();
+  }
+
+  /**
+   * Loads any of the `artifactSources` which have not been loaded yet, and
+   * removes the artifacts of sources which are no longer listed. This should
+   * be called when `artifactSources` changes.
+   */
+  async loadArtifactSources() {
+    const { artifactSources = [] } = this.options;
+    const sources = new Set((Array.isArray(artifactSources) ? artifactSources : [artifactSources])
+        .map((source) => new URL(source, document.URL).toString()));
+
+    for (const url of this.loadedSources) {
+      if (!sources.has(url)) {
+        await this.meaningMaker.unloadArtifactsFromUrl(new URL(url));
+      }
+    }
+
+    this.loadedSources = sources;
+    await Promise.all(Array.from(sources).map((url) => this.meaningMaker.loadArtifactsFromUrl(new URL(url))));
+  }
+
+  /**
+   * Initializes the detectors which are used up front, and adds the image
+   * targets of the artifacts to the detectors. Frames can be processed once
+   * this has resolved.
+   */
+  async start() {
+    await Promise.all(this.preloadedDetectors.map((detector) => this.initializeDetector(detector)));
+    await this.updateTargets(await this.meaningMaker.updatePerceptionState({}));
+    this.isStarted = true;
+  }
+
+  /**
+   * Releases the detectors' targets and resources. They are initialized again
+   * if the session is restarted.
+   */
+  async stop() {
+    const detectors = Array.from(this.activeDetectors.values());
+    this.isStarted = false;
+    this.detectorsReady.clear();
+    this.imageTargets.clear();
+    this.imageSizes.clear();
+    this.lastDetections.clear();
+    await Promise.all(detectors.map((detector) => detector.dispose()));
+  }
+
+  /**
+   * Replaces the detectors with those requested by the current `detectors` and
+   * `combineDetectors` options. If the session has started, the new detectors
+   * are started too.
+   */
+  async reloadDetectors() {
+    const wasStarted = this.isStarted;
+    await this.stop();
+    this.activeDetectors.clear();
+    this.preloadedDetectors = [];
+    this.createDetectors();
+
+    if (wasStarted) {
+      await this.start();
+    }
+  }
+
+  /**
+   * Reloads the artifacts from a URL, replacing (and retracting the results of)
+   * any which were previously loaded from it.
+   */
+  async reloadArtifactsFromUrl(url: string) {
+    return this.meaningMaker.reloadArtifactsFromUrl(new URL(url, document.URL));
+  }
+
+  /**
+   * Keeps the detectors' image targets in step with the artifacts. This should
+   * be called when the artifacts change (see `artifactsChanged`).
+   */
+  async updateTargets(targets?: ProbableTargets) {
+    const { detectableImages } = targets || await this.meaningMaker.predictPerceptionTargets();
+    this.imageSizes.clear();
+    for (const { id, size } of detectableImages) {
+      if (size) {
+        this.imageSizes.set(id, size);
+      }
+    }
+
+    const targetDetectors = Array.from(this.activeDetectors.values())
+        .filter((detector) => !!detector.addTarget);
+    if (targetDetectors.length === 0) {
+      return;
+    }
+
+    // Cancel detection for targets which are no longer available.
+    const detectableImageIds = new Set(detectableImages.map(({ id }) => id));
+    for (const [id, imageDetectors] of this.imageTargets) {
+      if (detectableImageIds.has(id)) {
+        continue;
+      }
+
+      log(`Removing detection target: ${id}`);
+      this.imageTargets.delete(id);
+      for (const detector of imageDetectors) {
+        if (detector.removeTarget) {
+          await detector.removeTarget(id);
+        }
+      }
+    }
+
+    // Enable detection for any new targets, by whichever detectors support them.
+    const newImages = detectableImages.filter(({ id }) => !this.imageTargets.has(id));
+    if (newImages.length === 0) {
+      return;
+    }
+
+    let imageCount = 0;
+    for (const image of newImages) {
+      const imageDetectors: Detector[] = [];
+      this.imageTargets.set(image.id, imageDetectors);
+
+      for (const detector of targetDetectors) {
+        try {
+          if (await this.initializeDetector(detector) && await detector.addTarget!(image)) {
+            log(`Adding detection target: ${image.id}`);
+            imageDetectors.push(detector);
+            imageCount++;
+          }
+        } catch (e) {
+          log(`Unable to add detection target: ${image.id}`, DEBUG_LEVEL.WARNING);
+        }
+      }
+    }
+
+    log(`${imageCount} target(s) added`, DEBUG_LEVEL.INFO);
+  }
+
+  /**
+   * Finds the targets in a frame, and updates the perception state with them.
+   * Frames other than `ImageData` may be transferred to a worker, so cannot be
+   * used afterwards.
+   */
+  async processFrame(frame: ImageData | ImageBitmap, { geo, layout, region, scale = 1 }: FrameOptions = {}):
+      Promise<PerceptionFrameResult> {
+    // Only use detectors that are needed for this frame, and locate their
+    // detections within the whole frame.
+    const frameSize = this.frameSize(frame, layout);
+    const frameDetectors = this.frameDetectors();
+    const frames = await this.copyFrame(frame, frameDetectors.length);
+    const detectorResults = await Promise.all(frameDetectors.map((detector, index) =>
+        this.runDetector(detector, frames[index])));
+    const detections = detectorResults.map(({ detections: detection }) =>
+        this.locateDetections(detection, frameSize, layout, region, scale));
+
+    // Release any bitmaps which were not transferred to a worker.
+    for (const detectorFrame of frames) {
+      if (detectorFrame instanceof ImageBitmap) {
+        detectorFrame.close();
+      }
+    }
+    this.lastDetections = new Map(frameDetectors.map(
+        (detector, index): [Detector, Detections] => [detector, detections[index]]));
+    this.processedFrames++;
+
+    const markers = flat(detections.map(({ markers = [] }) => markers));
+    const images = flat(detections.map(({ images = [] }) => images));
+    const response = await this.meaningMaker.updatePerceptionState({
+      geo,
+      images,
+      markers,
+      shouldLoadArtifactsFrom: this.options.shouldLoadArtifactsFrom
+    });
+
+    return { ...response, detectors: detectorResults, images, markers };
+  }
+
+  /**
+   * Follows the targets found in the last processed frame into a new frame,
+   * using the detectors which can track them. Resolves to every target in the
+   * new frame, or `undefined` if there was nothing to follow, or another frame
+   * was processed meanwhile.
+   */
+  async followTargets(frame: ImageData, { layout, region, scale = 1 }: FrameOptions = {}):
+      Promise<Detections | undefined> {
+    const tracked = this.trackedDetectors();
+    if (tracked.length === 0) {
+      return;
+    }
+
+    const processedFrames = this.processedFrames;
+    const followed = new Map(this.lastDetections);
+    for (const detector of tracked) {
+      try {
+        followed.set(detector, this.locateDetections(await detector.track!(frame),
+            this.frameSize(frame, layout), layout, region, scale));
+      } catch (e) {
+        log(e.message, DEBUG_LEVEL.ERROR, 'Tracking');
+      }
+    }
+
+    if (this.processedFrames !== processedFrames) {
+      return;
+    }
+
+    this.lastDetections = followed;
+    const detections = Array.from(followed.values());
+    return {
+      images: flat(detections.map(({ images = [] }) => images)),
+      markers: flat(detections.map(({ markers = [] }) => markers)),
+    };
+  }
+
+  /**
+   * Returns the target which triggered each currently found result, among the
+   * given targets.
+   */
+  async locateResults(detections: Detections): Promise<Map<PerceptionResult, Marker | DetectedImage>> {
+    return this.meaningMaker.locateResults(detections);
+  }
+
+  private createDetectors() {
+    const { combineDetectors = false, root = '' } = this.options;
+    const context: DetectorContext = {
+      config: this.options,
+      fetchBytes: (url) => this.fetchImageTarget(url),
+      root,
+    };
+
+    // The built-in barcode and image detectors can share a worker, so that each
+    // frame is only sent to one. Images are still only loaded when needed.
+    const requested = new Map(requestedDetectors(this.options));
+    if (combineDetectors && requested.has('barcode') && requested.has('image') &&
+        getDetectorFactory('barcode') === createBarcodeDetector &&
+        getDetectorFactory('image') === createPlanarImageDetector) {
+      requested.set(COMBINED_DETECTOR, requested.get('barcode')!);
+      requested.delete('barcode');
+      requested.delete('image');
+    }
+
+    const label = 'Perception Session';
+    for (const [name, preload] of requested) {
+      const factory = name === COMBINED_DETECTOR ? createCombinedDetector : getDetectorFactory(name);
+      if (!factory) {
+        log(`Unknown detector: ${name}`, DEBUG_LEVEL.WARNING, label);
+        continue;
+      }
+
+      log(`Loading ${name} (${preload ? 'full' : 'lazy'})`, DEBUG_LEVEL.INFO, label);
+      const detector = factory(context);
+      this.activeDetectors.set(name, detector);
+      if (preload) {
+        this.preloadedDetectors.push(detector);
+        this.initializeDetector(detector);
+      }
+    }
+  }
+
+  /**
+   * Initializes a detector, unless it has been already, resolving to whether
+   * it can be used. Detectors which fail to initialize are no longer used.
+   */
+  private initializeDetector(detector: Detector) {
+    let ready = this.detectorsReady.get(detector);
+    if (!ready) {
+      ready = detector.init().then(() => true, (e) => {
+        log(`Unable to initialize detector: ${e.message}`, DEBUG_LEVEL.WARNING, 'Perception Session');
+        for (const [name, activeDetector] of this.activeDetectors) {
+          if (activeDetector === detector) {
+            this.activeDetectors.delete(name);
+          }
+        }
+        return false;
+      });
+      this.detectorsReady.set(detector, ready);
+    }
+    return ready;
+  }
+
+  /**
+   * Obtains a Uint8Array for an image target file, using the cache if enabled.
+   */
+  private async fetchImageTarget(url: string) {
+    const read = async (response: Response) => {
+      if (!response.ok) {
+        throw Error(`Fetch failure for ${url} with status: ${response.statusText}`);
+      }
+      return new Uint8Array(await response.arrayBuffer());
+    };
+
+    const init: RequestInit = { credentials: 'include' };
+    if (this.artifactCache) {
+      return this.artifactCache.fetch(url, read, init);
+    }
+    return read(await fetch(url, init));
+  }
+
+  /**
+   * Returns the detectors to run on each frame: those which detect the targets
+   * that have been added to them, and those which need no targets.
+   */
+  private frameDetectors() {
+    const targeted = new Set(flat(Array.from(this.imageTargets.values())));
+    return Array.from(this.activeDetectors.values()).filter((detector) => {
+      const { addTarget, needsTargets = !!addTarget } = detector;
+      return !needsTargets || targeted.has(detector);
+    });
+  }
+
+  /**
+   * Returns the detectors which can follow the targets they found.
+   */
+  private trackedDetectors() {
+    return Array.from(this.lastDetections)
+        .filter(([detector, { markers = [], images = [] }]) => !!detector.track && markers.length + images.length > 0)
+        .map(([detector]) => detector);
+  }
+
+  /**
+   * Returns a frame for each of a number of detectors. Bitmaps can only be
+   * transferred to one worker, so every detector but the last is given a copy.
+   */
+  private async copyFrame(frame: ImageData | ImageBitmap, count: number): Promise<DetectionFrame[]> {
+    if (!(frame instanceof ImageBitmap) || count <= 1) {
+      return new Array(count).fill(frame);
+    }
+
+    const copies = await Promise.all(new Array(count - 1).fill(frame).map((bitmap) => createImageBitmap(bitmap)));
+    return [...copies, frame];
+  }
+
+  private detectorName(detector: Detector) {
+    for (const [name, activeDetector] of this.activeDetectors) {
+      if (activeDetector === detector) {
+        return name;
+      }
+    }
+    return '';
+  }
+
+  /**
+   * Returns the size of the whole frame, which is larger than the frame itself
+   * if it was cropped.
+   */
+  private frameSize({ width, height }: FrameSize, layout?: FrameLayout): FrameSize {
+    return layout ? { width: layout.frameWidth, height: layout.frameHeight } : { width, height };
+  }
+
+  /**
+   * Runs a detector on a frame, initializing it first if needed, and measures
+   * how long detection took. A detector which fails is treated as having found
+   * nothing.
+   */
+  private async runDetector(detector: Detector, frame: DetectionFrame): Promise<DetectorResult> {
+    const name = this.detectorName(detector);
+    try {
+      if (!await this.initializeDetector(detector)) {
+        return { name, detections: {}, latency: 0 };
+      }
+
+      const startTime = performance.now();
+      const detections = await detector.detect(frame);
+      return { name, detections, latency: performance.now() - startTime };
+    } catch (e) {
+      log(e.message, DEBUG_LEVEL.ERROR, 'Detection');
+      return { name, detections: {}, latency: 0 };
+    }
+  }
+
+  /**
+   * Locates the targets found by a detector on screen and, for images whose
+   * physical size is known, relative to the camera. Targets found in a region
+   * of the frame are first moved into the whole frame.
+   */
+  private locateDetections({ markers, images }: Detections, frame: FrameSize,
+                           layout?: FrameLayout, region?: BoundingBox, scale = 1): Detections {
+    if (region && (region.x !== 0 || region.y !== 0)) {
+      markers = markers && markers.map((marker) => translateGeometry(marker, region));
+      images = images && images.map((image) => translateGeometry(image, region));
+    }
+
+    return {
+      images: images && images.map((image) => this.locateImage(image, frame, layout, scale)),
+      markers: markers && layout ? markers.map((marker) => withScreenGeometry(marker, layout)) : markers,
+    };
+  }
+
+  /**
+   * Locates a detected image on screen and, if its physical size is known,
+   * relative to the camera. Calibrated intrinsics are in pixels of the camera's
+   * video, so are scaled to the frame.
+   */
+  private locateImage(image: DetectedImage, { width, height }: FrameSize, layout?: FrameLayout, scale = 1) {
+    const { cameraFieldOfView, cameraIntrinsics } = this.options;
+    const size = this.imageSizes.get(image.id);
+    if (size && image.cornerPoints) {
+      const intrinsics = cameraIntrinsics ? scaleIntrinsics(cameraIntrinsics, scale) :
+          estimateIntrinsics(width, height, cameraFieldOfView);
+      const pose = estimatePose(image.cornerPoints, size, intrinsics);
+      if (pose) {
+        image = { ...image, pose };
+      }
+    }
+
+    return layout ? withScreenGeometry(image, layout) : image;
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { spy } from 'sinon';
+import { Marker } from '../../defs/marker.js';
+import { registerDetector } from '../detectors/detector-registry.js';
+import { Detector } from '../detectors/detector.js';
+import { PerceptionSession } from './perception-session.js';
+
+describe('PerceptionSession', () => {
+  const marker: Marker = {
+    boundingBox: { x: 1, y: 2, width: 10, height: 10 },
+    type: 'qr_code',
+    value: '1234567890',
+  };
+
+  function createDetector(markers: Marker[] = [marker]): Detector {
+    return {
+      async init() {
+        // Nothing to load.
+      },
+
+      async detect() {
+        return { markers };
+      },
+
+      async dispose() {
+        // Nothing to release.
+      },
+    };
+  }
+
+  before(() => {
+    registerDetector('session-test', () => createDetector());
+    registerDetector('session-empty-test', () => createDetector([]));
+  });
+
+  async function startSession(detector = 'session-test') {
+    const session = new PerceptionSession({
+      artifactSources: ['/base/test-assets/test-barcode.html'],
+      detectors: { barcode: false, [detector]: true },
+    }, document.createElement('div'));
+    await session.init();
+    await session.start();
+    return session;
+  }
+
+  async function startImageSession(artifactSource: string) {
+    const session = new PerceptionSession({
+      artifactSources: [artifactSource],
+      detectors: { barcode: false, image: true },
+    }, document.createElement('div'));
+    await session.init();
+    await session.start();
+    return session;
+  }
+
+  async function loadLighthouseFrame() {
+    const response = await fetch('/base/test-assets/lighthouse.jpg');
+    const bitmap = await createImageBitmap(await response.blob());
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d')!;
+
+    canvas.width = 640;
+    canvas.height = 480;
+    ctx.fillRect(0, 0, 640, 480);
+    ctx.drawImage(bitmap, 100, 100, 325, 213);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  }
+
+  it('finds results for the targets in a frame', async () => {
+    const session = await startSession();
+    const result = await session.processFrame(new ImageData(20, 20));
+
+    assert.lengthOf(result.markers, 1);
+    assert.lengthOf(result.newTargets, 1);
+    assert.lengthOf(result.found, 1);
+    assert.deepInclude(result.found[0], { target: { '@type': 'Barcode', 'text': '1234567890' } });
+    await session.stop();
+  });
+
+  it('reports how each detector performed', async () => {
+    const session = await startSession();
+    const { detectors } = await session.processFrame(new ImageData(20, 20));
+
+    assert.lengthOf(detectors, 1);
+    assert.equal(detectors[0].name, 'session-test');
+    assert.deepEqual(detectors[0].detections.markers, [marker]);
+    assert.isAtLeast(detectors[0].latency, 0);
+    await session.stop();
+  });
+
+  it('locates targets within the whole frame', async () => {
+    const session = await startSession();
+    const region = { x: 5, y: 6, width: 20, height: 20 };
+    const { markers } = await session.processFrame(new ImageData(20, 20), { region });
+
+    assert.deepEqual(markers[0].boundingBox, { x: 6, y: 8, width: 10, height: 10 });
+    await session.stop();
+  });
+
+  it('runs sessions independently', async () => {
+    const finding = await startSession();
+    const empty = await startSession('session-empty-test');
+
+    const { found } = await finding.processFrame(new ImageData(20, 20));
+    const { found: notFound, markers } = await empty.processFrame(new ImageData(20, 20));
+    assert.lengthOf(found, 1);
+    assert.lengthOf(notFound, 0);
+    assert.lengthOf(markers, 0);
+    await finding.stop();
+    await empty.stop();
+  });
+
+  it('keeps the image targets of each session to itself', async () => {
+    const withImage = await startImageSession('/base/test-assets/test-lighthouse.jsonld');
+    const withoutImage = await startImageSession('/base/test-assets/test-barcode.html');
+    const frame = await loadLighthouseFrame();
+
+    assert.lengthOf((await withoutImage.processFrame(frame)).images, 0);
+    const { images, found } = await withImage.processFrame(frame);
+    assert.lengthOf(images, 1);
+    assert.lengthOf(found, 1);
+    await withImage.stop();
+    await withoutImage.stop();
+  });
+
+  it('stops sessions without affecting the others', async () => {
+    const stopped = await startImageSession('/base/test-assets/test-lighthouse.jsonld');
+    const running = await startImageSession('/base/test-assets/test-lighthouse.jsonld');
+    await stopped.stop();
+
+    const { images } = await running.processFrame(await loadLighthouseFrame());
+    assert.lengthOf(images, 1);
+    await running.stop();
+  });
+
+  it('applies changed options', async () => {
+    const options = {
+      artifactSources: ['/base/test-assets/test-barcode.html'],
+      detectors: { 'barcode': false, 'session-test': true },
+      minConsecutiveFrames: 1,
+    };
+    const session = new PerceptionSession(options, document.createElement('div'));
+    await session.init();
+    await session.start();
+
+    options.minConsecutiveFrames = 2;
+    session.applyOptions();
+    assert.lengthOf((await session.processFrame(new ImageData(20, 20))).found, 0);
+    assert.lengthOf((await session.processFrame(new ImageData(20, 20))).found, 1);
+    await session.stop();
+  });
+
+  it('has nothing to follow without tracking detectors', async () => {
+    const session = await startSession();
+    await session.processFrame(new ImageData(20, 20));
+
+    assert.isFalse(session.canTrack);
+    assert.isFalse(session.hasTrackedTargets);
+    assert.isUndefined(await session.followTargets(new ImageData(20, 20)));
+    await session.stop();
+  });
+
+  it('disposes of detectors when stopped', async () => {
+    const detector = createDetector();
+    const dispose = spy(detector, 'dispose');
+    registerDetector('session-dispose-test', () => detector);
+
+    const session = await startSession('session-dispose-test');
+    await session.stop();
+    assert.isTrue(dispose.calledOnce);
+  });
+});
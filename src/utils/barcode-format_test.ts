@@ -0,0 +1,28 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { normalizeBarcodeFormat } from './barcode-format.js';
+
+describe('BarcodeFormat', () => {
+  it('normalizes format names', () => {
+    assert.equal(normalizeBarcodeFormat('QR Code'), 'qr_code');
+    assert.equal(normalizeBarcodeFormat(' EAN-13 '), 'ean_13');
+    assert.equal(normalizeBarcodeFormat('code_128'), 'code_128');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Barcode, TextDigitalDocument } from '../artifacts/schema/core-schema-org.js';
+import { TextCaptures } from '../artifacts/stores/artifact-store.js';
+
+export type BarcodeMatcher = (text: string) => TextCaptures | undefined;
+
+export type MarkerTarget = Barcode | TextDigitalDocument;
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function regExpMatcher(pattern: RegExp, names?: string[]): BarcodeMatcher {
+  return (text: string) => {
+    const match = pattern.exec(text);
+    if (!match) {
+      return;
+    }
+
+    const captures: TextCaptures = {};
+    for (let group = 1; group < match.length; group++) {
+      if (typeof match[group] !== 'undefined') {
+        captures[names ? names[group - 1] : group.toString()] = match[group];
+      }
+    }
+
+    // Named groups, where supported.
+    const { groups } = match as RegExpExecArray & { groups?: TextCaptures };
+    if (groups) {
+      for (const [name, value] of Object.entries(groups)) {
+        if (typeof value !== 'undefined') {
+          captures[name] = value;
+        }
+      }
+    }
+    return captures;
+  };
+}
+
+/*
+ * Converts a URL template into a regular expression. Simple expressions (e.g.
+ * `{id}`) match a single path segment or query value, while reserved expressions
+ * (e.g. `{+path}`) match anything.
+ */
+function templateMatcher(template: string): BarcodeMatcher | undefined {
+  const names: string[] = [];
+  let source = '';
+  let lastIndex = 0;
+  const expressions = /\{(\+?)([\w.]+)\}/g;
+  let expression = expressions.exec(template);
+  while (expression) {
+    const [ whole, reserved, name ] = expression;
+    source += escapeRegExp(template.substring(lastIndex, expression.index));
+    source += reserved ? '(.*?)' : '([^/?#&]*?)';
+    names.push(name);
+    lastIndex = expression.index + whole.length;
+    expression = expressions.exec(template);
+  }
+
+  if (names.length === 0) {
+    return;
+  }
+
+  source += escapeRegExp(template.substring(lastIndex));
+  return regExpMatcher(new RegExp(`^${source}$`), names);
+}
+
+/**
+ * Returns a function which matches text against the `textPrefix`, `textPattern`
+ * or `textTemplate` of a Barcode (or TextDigitalDocument), or undefined if it
+ * has none (or it is invalid). Patterns must match the whole of the text.
+ */
+export function createBarcodeMatcher(barcode: MarkerTarget): BarcodeMatcher | undefined {
+  if (barcode.textPrefix) {
+    return regExpMatcher(new RegExp(`^${escapeRegExp(barcode.textPrefix)}([\\s\\S]*)$`));
+  }
+
+  if (barcode.textPattern) {
+    try {
+      return regExpMatcher(new RegExp(`^(?:${barcode.textPattern})$`));
+    } catch (e) {
+      return;
+    }
+  }
+
+  if (barcode.textTemplate) {
+    return templateMatcher(barcode.textTemplate);
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DEBUG_LEVEL, log } from './logger.js';
+
+/**
+ * The range of a camera setting, such as zoom.
+ */
+export interface CameraSettingRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+/**
+ * The controls which a camera supports, beyond those of every camera.
+ */
+export interface CameraCapabilities {
+  torch: boolean;
+  zoom?: CameraSettingRange;
+}
+
+/**
+ * Camera settings which can be changed while the camera is in use.
+ */
+export interface CameraSettings {
+  torch?: boolean;
+  zoom?: number;
+}
+
+export interface CameraOptions {
+  deviceId?: string;  // The camera to use, rather than the environment-facing one.
+  width?: number;  // The ideal resolution.
+  height?: number;
+}
+
+// The capabilities and settings of image tracks, which are not yet described
+// by the DOM typings.
+interface ImageTrackCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+  zoom?: CameraSettingRange;
+}
+
+interface ImageTrackSettings extends MediaTrackSettings {
+  torch?: boolean;
+  zoom?: number;
+}
+
+/**
+ * Returns the constraints with which to request a camera stream from
+ * `getUserMedia`. Unless a camera is given, the environment-facing camera is
+ * preferred.
+ *
+ * ```javascript
+ * const stream = await navigator.mediaDevices.getUserMedia(
+ *     cameraConstraints({ width: 1280, height: 720 }));
+ * ```
+ */
+export function cameraConstraints({ deviceId, width, height }: CameraOptions = {}): MediaStreamConstraints {
+  const video: MediaTrackConstraints = deviceId ?
+      { deviceId: { exact: deviceId } } :
+      { facingMode: 'environment' };
+
+  if (width) {
+    video.width = { ideal: width };
+  }
+
+  if (height) {
+    video.height = { ideal: height };
+  }
+
+  return { video };
+}
+
+/**
+ * Lists the cameras on the device. Their labels are only available once the
+ * user has granted access to a camera.
+ */
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(({ kind }) => kind === 'videoinput');
+}
+
+/**
+ * Finds the first camera whose label contains the given label, ignoring case,
+ * e.g. `'back'` or `'telephoto'`.
+ */
+export function findCameraByLabel(cameras: MediaDeviceInfo[], label: string): MediaDeviceInfo | undefined {
+  const search = label.toLowerCase();
+  return cameras.find((camera) => camera.label.toLowerCase().includes(search));
+}
+
+/**
+ * Returns the torch and zoom support of a camera track.
+ */
+export function getCameraCapabilities(track: MediaStreamTrack): CameraCapabilities {
+  if (!('getCapabilities' in track)) {
+    return { torch: false };
+  }
+
+  const { torch = false, zoom } = track.getCapabilities() as ImageTrackCapabilities;
+  if (zoom && zoom.max > zoom.min) {
+    return { torch, zoom: { min: zoom.min, max: zoom.max, step: zoom.step || 0.1 } };
+  }
+  return { torch };
+}
+
+/**
+ * Returns the current torch and zoom settings of a camera track.
+ */
+export function getCameraSettings(track: MediaStreamTrack): CameraSettings {
+  const { torch, zoom } = track.getSettings() as ImageTrackSettings;
+  return { torch, zoom };
+}
+
+/**
+ * Changes the torch or zoom of a camera track, resolving to whether the camera
+ * accepted the change.
+ */
+export async function applyCameraSettings(track: MediaStreamTrack, settings: CameraSettings): Promise<boolean> {
+  try {
+    await track.applyConstraints({ advanced: [settings as MediaTrackConstraintSet] });
+    return true;
+  } catch (e) {
+    log(`Unable to apply camera settings: ${e.message}`, DEBUG_LEVEL.WARNING, 'Camera');
+    return false;
+  }
+}
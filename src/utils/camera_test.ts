@@ -0,0 +1,91 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import {
+  applyCameraSettings,
+  cameraConstraints,
+  findCameraByLabel,
+  getCameraCapabilities,
+  getCameraSettings
+} from './camera.js';
+
+function mockTrack(capabilities: {}, settings: {} = {}) {
+  return {
+    applied: [] as Array<{}>,
+    async applyConstraints(constraints: {}) {
+      if (!('torch' in capabilities)) {
+        throw new Error('Unsupported');
+      }
+      this.applied.push(constraints);
+    },
+    getCapabilities() {
+      return capabilities;
+    },
+    getSettings() {
+      return settings;
+    },
+  };
+}
+
+describe('Camera', () => {
+  it('prefers the environment-facing camera', () => {
+    assert.deepEqual(cameraConstraints(), { video: { facingMode: 'environment' } });
+  });
+
+  it('requests a given camera and resolution', () => {
+    assert.deepEqual(cameraConstraints({ deviceId: 'abc', width: 1280, height: 720 }), {
+      video: {
+        deviceId: { exact: 'abc' },
+        height: { ideal: 720 },
+        width: { ideal: 1280 },
+      }
+    });
+  });
+
+  it('finds cameras by label', () => {
+    const cameras = [
+      { deviceId: '1', label: 'Front Camera' },
+      { deviceId: '2', label: 'Back Telephoto Camera' },
+    ] as MediaDeviceInfo[];
+
+    assert.equal(findCameraByLabel(cameras, 'telephoto')!.deviceId, '2');
+    assert.isUndefined(findCameraByLabel(cameras, 'wide'));
+  });
+
+  it('reads torch and zoom capabilities', () => {
+    const track = mockTrack({ torch: true, zoom: { min: 1, max: 4, step: 0.5 } }, { torch: false, zoom: 2 });
+    assert.deepEqual(getCameraCapabilities(track as any), { torch: true, zoom: { min: 1, max: 4, step: 0.5 } });
+    assert.deepEqual(getCameraSettings(track as any), { torch: false, zoom: 2 });
+  });
+
+  it('ignores fixed zoom', () => {
+    const track = mockTrack({ zoom: { min: 1, max: 1, step: 0 } });
+    assert.deepEqual(getCameraCapabilities(track as any), { torch: false });
+    assert.deepEqual(getCameraCapabilities({} as any), { torch: false });
+  });
+
+  it('applies camera settings', async () => {
+    const track = mockTrack({ torch: true });
+    assert.isTrue(await applyCameraSettings(track as any, { torch: true }));
+    assert.deepEqual(track.applied, [{ advanced: [{ torch: true }] }]);
+
+    const unsupported = mockTrack({});
+    assert.isFalse(await applyCameraSettings(unsupported as any, { torch: true }));
+  });
+});
@@ -17,18 +17,26 @@
 
 import { hideOverlay, showOverlay } from '../elements/overlay/overlay.js';
 
+let canWorkOffline = false;
+
 /**
  * Handles connectivity change for the user.
  */
 function onConnectivityChanged() {
   if (!navigator.onLine) {
-    showOverlay('Currently offline. Please reconnect to the network.');
+    // When content has been cached, the experience can continue with it.
+    if (canWorkOffline) {
+      showOverlay('Currently offline. Only saved content is available.', { small: true });
+    } else {
+      showOverlay('Currently offline. Please reconnect to the network.');
+    }
   } else {
     hideOverlay();
   }
 }
 
-export function observeConnectivityChanges() {
+export function observeConnectivityChanges(opts: { canWorkOffline?: boolean } = {}) {
+  canWorkOffline = !!opts.canWorkOffline;
   window.addEventListener('offline', onConnectivityChanged);
   window.addEventListener('online', onConnectivityChanged);
 }
@@ -51,4 +51,19 @@ describe('Connectivity Changed', () => {
     // Check there is no overlay.
     assert.isNull(document.querySelector('#pt\\.overlay'));
   });
+
+  it('shows a smaller overlay if it can work offline', () => {
+    unobserveConnectivityChanges();
+    observeConnectivityChanges({ canWorkOffline: true });
+
+    connected = false;
+    window.dispatchEvent(new Event('offline'));
+
+    const overlay = document.querySelector('#pt\\.overlay');
+    assert.isNotNull(overlay);
+    assert.include(overlay!.textContent as string, 'saved content');
+
+    connected = true;
+    window.dispatchEvent(new Event('online'));
+  });
 });
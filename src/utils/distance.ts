@@ -0,0 +1,68 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// Conversions for the units that are accepted in a schema.org Distance.
+const METERS_PER_UNIT: { [unit: string]: number } = {
+  cm: 0.01,
+  ft: 0.3048,
+  in: 0.0254,
+  km: 1000,
+  m: 1,
+  mi: 1609.344,
+  mm: 0.001,
+};
+
+/**
+ * Converts a Number or a numeric Text to a finite number, if possible.
+ */
+export function toNumber(value?: string | number): number | undefined {
+  if (typeof value === 'undefined') {
+    return;
+  }
+
+  const num = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(num) ? num : undefined;
+}
+
+/**
+ * Converts a Number (of meters) or a schema.org Distance to meters.
+ *
+ * ```javascript
+ * toMeters('50 m');  // 50.
+ * toMeters('42cm');  // 0.42.
+ * toMeters('1.2 km');  // 1200.
+ * ```
+ */
+export function toMeters(value?: string | number): number | undefined {
+  if (typeof value !== 'string') {
+    return toNumber(value);
+  }
+
+  const match = value.trim().match(/^([\d.]+)\s*([a-z]*)$/i);
+  if (!match) {
+    return;
+  }
+
+  const [, amount, unit = ''] = match;
+  const multiplier = unit === '' ? 1 : METERS_PER_UNIT[unit.toLowerCase()];
+  if (!multiplier) {
+    return;
+  }
+
+  const meters = toNumber(amount);
+  return typeof meters === 'undefined' ? undefined : meters * multiplier;
+}
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { toMeters, toNumber } from './distance.js';
+
+describe('Distance', () => {
+  it('converts numbers', () => {
+    assert.equal(toNumber(12), 12);
+    assert.equal(toNumber('12.5'), 12.5);
+    assert.isUndefined(toNumber('twelve'));
+    assert.isUndefined(toNumber(Infinity));
+    assert.isUndefined(toNumber());
+  });
+
+  it('converts distances to meters', () => {
+    assert.equal(toMeters(50), 50);
+    assert.equal(toMeters('50'), 50);
+    assert.equal(toMeters('50 m'), 50);
+    assert.equal(toMeters('1.2 KM'), 1200);
+    assert.approximately(toMeters('42cm')!, 0.42, 1e-9);
+    assert.approximately(toMeters('297 mm')!, 0.297, 1e-9);
+    assert.approximately(toMeters('11 in')!, 0.2794, 1e-9);
+  });
+
+  it('ignores unknown units', () => {
+    assert.isUndefined(toMeters('50 parsecs'));
+    assert.isUndefined(toMeters('fifty m'));
+    assert.isUndefined(toMeters());
+  });
+});
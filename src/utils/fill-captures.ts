@@ -0,0 +1,59 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ARContentTypes } from '../artifacts/schema/extension-ar-artifacts.js';
+import { TextCaptures } from '../artifacts/stores/artifact-store.js';
+
+function fillText(text: string, captures: TextCaptures) {
+  return text.replace(/\{([\w.]+)\}/g, (placeholder, name) =>
+      captures.hasOwnProperty(name) ? captures[name] : placeholder);
+}
+
+/*
+ * Returns a copy of a value, of the same shape, with the placeholders in every
+ * string within it filled. Values other than strings, lists and plain objects
+ * (e.g. URLs) are kept as they are.
+ */
+function fillValue<T>(value: T, captures: TextCaptures): T;
+function fillValue(value: unknown, captures: TextCaptures): unknown {
+  if (typeof value === 'string') {
+    return fillText(value, captures);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((entry) => fillValue(entry, captures));
+  }
+
+  if (typeof value === 'object' && value !== null && !(value instanceof URL)) {
+    const ret: { [key: string]: unknown } = {};
+    for (const [key, entry] of Object.entries(value)) {
+      ret[key] = fillValue(entry, captures);
+    }
+    return ret;
+  }
+
+  return value;
+}
+
+/**
+ * Replaces `{name}` placeholders in every string of an artifact's content with
+ * the matching capture. Placeholders without a matching capture are left as-is.
+ */
+export function fillCaptures(content: ARContentTypes | ARContentTypes[] | undefined,
+                             captures: TextCaptures): ARContentTypes | ARContentTypes[] | undefined {
+  return fillValue(content, captures);
+}
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { MediaObject } from '../artifacts/schema/core-schema-org.js';
+import { fillCaptures } from './fill-captures.js';
+
+describe('FillCaptures', () => {
+  it('fills placeholders in strings', () => {
+    assert.equal(fillCaptures('/p/{id}?s={1}', { 1: '42', id: 'shoe' }), '/p/shoe?s=42');
+  });
+
+  it('leaves unknown placeholders', () => {
+    assert.equal(fillCaptures('{id} {other}', { id: 'shoe' }), 'shoe {other}');
+  });
+
+  it('fills nested objects and arrays', () => {
+    const content = {
+      '@type': 'WebPage',
+      'mainEntity': { url: '/launch/{id}' },
+      'name': 'Product {id}',
+      'sameAs': [ '/{id}' ],
+    };
+    assert.deepEqual(fillCaptures(content, { id: 'shoe' }), {
+      '@type': 'WebPage',
+      'mainEntity': { url: '/launch/shoe' },
+      'name': 'Product shoe',
+      'sameAs': [ '/shoe' ],
+    });
+    assert.equal(content.name, 'Product {id}');
+  });
+
+  it('ignores other values', () => {
+    const url = new URL('https://example.com/');
+    assert.isUndefined(fillCaptures(undefined, { id: 'shoe' }));
+    assert.strictEqual(fillCaptures(url, { id: 'shoe' }), url);
+    assert.deepEqual(fillCaptures({ '@type': 'MediaObject', 'contentSize': 1 } as MediaObject, { id: 'shoe' }),
+        { '@type': 'MediaObject', 'contentSize': 1 });
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// Mean radius of the Earth, in meters.
+const EARTH_RADIUS = 6371008.8;
+
+function toRadians(degrees: number) {
+  return degrees * Math.PI / 180;
+}
+
+/**
+ * Calculates the great-circle distance, in meters, between two points given
+ * in degrees, using the haversine formula.
+ *
+ * ```javascript
+ * const london = { latitude: 51.5074, longitude: -0.1278 };
+ * const paris = { latitude: 48.8566, longitude: 2.3522 };
+ * geoDistance(london, paris);  // ~343,500.
+ * ```
+ */
+export function geoDistance(from: { latitude: number, longitude: number },
+                            to: { latitude: number, longitude: number }) {
+  const deltaLat = toRadians(to.latitude - from.latitude);
+  const deltaLng = toRadians(to.longitude - from.longitude);
+  const a = Math.pow(Math.sin(deltaLat / 2), 2) +
+      Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) *
+      Math.pow(Math.sin(deltaLng / 2), 2);
+
+  return 2 * EARTH_RADIUS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { geoDistance } from './geo-distance.js';
+
+describe('GeoDistance', () => {
+  it('returns zero for identical points', () => {
+    const point = { latitude: 51.5074, longitude: -0.1278 };
+    assert.equal(geoDistance(point, point), 0);
+  });
+
+  it('calculates long distances', () => {
+    const london = { latitude: 51.5074, longitude: -0.1278 };
+    const paris = { latitude: 48.8566, longitude: 2.3522 };
+    assert.approximately(geoDistance(london, paris), 343500, 1000);
+  });
+
+  it('calculates short distances', () => {
+    // One thousandth of a degree of latitude is roughly 111m.
+    const from = { latitude: 10, longitude: 20 };
+    const to = { latitude: 10.001, longitude: 20 };
+    assert.approximately(geoDistance(from, to), 111, 1);
+  });
+
+  it('is symmetric', () => {
+    const from = { latitude: 37.4220, longitude: -122.0841 };
+    const to = { latitude: 37.7749, longitude: -122.4194 };
+    assert.equal(geoDistance(from, to), geoDistance(to, from));
+  });
+});
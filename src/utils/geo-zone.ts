@@ -0,0 +1,75 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { GeoCircle, GeoCoordinates, GeoShape } from '../artifacts/schema/core-schema-org.js';
+import { toMeters, toNumber } from './distance.js';
+
+export type GeoTarget = GeoCoordinates | GeoCircle | GeoShape;
+
+export interface GeoZoneBounds {
+  latitude: number;
+  longitude: number;
+  radius: number;  // meters
+}
+
+/**
+ * Returns the circular zone described by a geo target, or undefined if it does
+ * not describe one.
+ */
+export function parseGeoZone(geoTarget: GeoTarget): GeoZoneBounds | undefined {
+  let latitude: number | undefined;
+  let longitude: number | undefined;
+  let radius: number | undefined;
+
+  switch (geoTarget['@type']) {
+    case 'GeoCircle':
+      const { geoMidpoint, geoRadius } = geoTarget as GeoCircle;
+      if (geoMidpoint) {
+        latitude = toNumber(geoMidpoint.latitude);
+        longitude = toNumber(geoMidpoint.longitude);
+      }
+      radius = toMeters(geoRadius);
+
+      // A GeoCircle is also a GeoShape, so it may use `circle` instead.
+      if (typeof latitude === 'undefined' && (geoTarget as GeoShape).circle) {
+        return parseGeoZone({ ...geoTarget, '@type': 'GeoShape' });
+      }
+      break;
+
+    case 'GeoShape':
+      const { circle } = geoTarget as GeoShape;
+      if (!circle) {
+        return;
+      }
+      [latitude, longitude, radius] =
+          circle.trim().split(/[\s,]+/).map((value) => toNumber(value));
+      break;
+
+    case 'GeoCoordinates':
+      latitude = toNumber((geoTarget as GeoCoordinates).latitude);
+      longitude = toNumber((geoTarget as GeoCoordinates).longitude);
+      radius = toMeters((geoTarget as GeoCoordinates).geoRadius);
+      break;
+  }
+
+  if (typeof latitude === 'undefined' || typeof longitude === 'undefined' ||
+      typeof radius === 'undefined' || radius < 0) {
+    return;
+  }
+
+  return { latitude, longitude, radius };
+}
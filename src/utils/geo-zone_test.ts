@@ -0,0 +1,52 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { parseGeoZone } from './geo-zone.js';
+
+describe('GeoZone', () => {
+  const zone = { latitude: 10, longitude: 20, radius: 50 };
+
+  it('parses GeoCircles', () => {
+    assert.deepEqual(parseGeoZone({
+      '@type': 'GeoCircle',
+      'geoMidpoint': { '@type': 'GeoCoordinates', 'latitude': 10, 'longitude': 20 },
+      'geoRadius': '50 m'
+    }), zone);
+    assert.deepEqual(parseGeoZone({ '@type': 'GeoCircle', 'circle': '10 20 50' }), zone);
+  });
+
+  it('parses GeoShapes with circles', () => {
+    assert.deepEqual(parseGeoZone({ '@type': 'GeoShape', 'circle': '10, 20, 50' }), zone);
+  });
+
+  it('parses GeoCoordinates with a radius', () => {
+    assert.deepEqual(parseGeoZone({
+      '@type': 'GeoCoordinates',
+      'geoRadius': 50,
+      'latitude': '10',
+      'longitude': '20'
+    }), zone);
+  });
+
+  it('ignores targets which do not describe a zone', () => {
+    assert.isUndefined(parseGeoZone({ '@type': 'GeoCoordinates', 'latitude': 10, 'longitude': 20 }));
+    assert.isUndefined(parseGeoZone({ '@type': 'GeoShape', 'circle': '10 20 -5' }));
+    assert.isUndefined(parseGeoZone({ '@type': 'GeoShape' }));
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { BoundingBox, Point2D, TargetGeometry } from '../../defs/geometry.js';
+import { clamp } from './clamp.js';
+
+// Interior angles narrower than this are penalized when scoring quads.
+const MIN_PLAUSIBLE_ANGLE = Math.PI / 4;
+
+// Opposite sides whose lengths differ by more than this factor are penalized.
+const MIN_PLAUSIBLE_SIDE_RATIO = 0.5;
+
+// Quads covering less than this fraction of the frame are penalized.
+const MIN_PLAUSIBLE_AREA = 0.01;
+
+/**
+ * Describes how a captured frame is displayed on screen: `displayRect` is the
+ * client rect of the element displaying it, which scales the frame to fit
+ * (as with `object-fit: contain`), and mirrors it if `flipped`.
+ */
+export interface FrameLayout {
+  frameWidth: number;
+  frameHeight: number;
+  displayRect: BoundingBox;
+  flipped: boolean;
+}
+
+/**
+ * Returns the smallest box containing all of the points.
+ */
+export function boundingBoxOf(points: Point2D[]): BoundingBox {
+  if (points.length === 0) {
+    return { x: 0, y: 0, width: 0, height: 0 };
+  }
+
+  const xs = points.map(({ x }) => x);
+  const ys = points.map(({ y }) => y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Converts a point in captured frame pixels to a point on screen.
+ */
+export function frameToScreen({ x, y }: Point2D, layout: FrameLayout): Point2D {
+  const { frameWidth, frameHeight, displayRect, flipped } = layout;
+  const scale = Math.min(displayRect.width / frameWidth, displayRect.height / frameHeight);
+  const offsetX = (displayRect.width - frameWidth * scale) / 2;
+  const offsetY = (displayRect.height - frameHeight * scale) / 2;
+
+  return {
+    x: displayRect.x + offsetX + (flipped ? frameWidth - x : x) * scale,
+    y: displayRect.y + offsetY + y * scale,
+  };
+}
+
+/**
+ * Converts a point on screen to a point in captured frame pixels. This is the
+ * inverse of [[frameToScreen]].
+ */
+export function screenToFrame({ x, y }: Point2D, layout: FrameLayout): Point2D {
+  const { frameWidth, frameHeight, displayRect, flipped } = layout;
+  const scale = Math.min(displayRect.width / frameWidth, displayRect.height / frameHeight);
+  const offsetX = (displayRect.width - frameWidth * scale) / 2;
+  const offsetY = (displayRect.height - frameHeight * scale) / 2;
+  const frameX = (x - displayRect.x - offsetX) / scale;
+
+  return {
+    x: flipped ? frameWidth - frameX : frameX,
+    y: (y - displayRect.y - offsetY) / scale,
+  };
+}
+
+/**
+ * Returns a copy of a detected target with its frame geometry moved by an
+ * offset, e.g. from a region of a frame into the whole frame.
+ */
+export function translateGeometry<T extends TargetGeometry>(target: T, { x: dx, y: dy }: Point2D): T {
+  const { boundingBox, cornerPoints } = target;
+  const ret = { ...target };
+  if (cornerPoints) {
+    ret.cornerPoints = cornerPoints.map(({ x, y }) => ({ x: x + dx, y: y + dy }));
+  }
+
+  if (boundingBox) {
+    ret.boundingBox = { ...boundingBox, x: boundingBox.x + dx, y: boundingBox.y + dy };
+  }
+  return ret;
+}
+
+/**
+ * Returns a copy of a detected target with its screen geometry calculated from
+ * its frame geometry.
+ */
+export function withScreenGeometry<T extends TargetGeometry>(target: T, layout: FrameLayout): T {
+  const { boundingBox, cornerPoints } = target;
+  const ret = { ...target };
+  if (cornerPoints) {
+    const points = cornerPoints.map((point) => frameToScreen(point, layout));
+
+    // Mirroring reverses the winding, so swap the points back to run clockwise
+    // from the top-left.
+    ret.screenCornerPoints = layout.flipped && points.length === 4 ?
+        [ points[1], points[0], points[3], points[2] ] : points;
+  }
+
+  if (boundingBox) {
+    const { x, y, width, height } = boundingBox;
+    ret.screenBoundingBox = boundingBoxOf([
+      frameToScreen({ x, y }, layout),
+      frameToScreen({ x: x + width, y: y + height }, layout),
+    ]);
+  }
+  return ret;
+}
+
+/**
+ * Scores how plausible a quad is as the outline of a flat rectangle seen in
+ * perspective, from 0 to 1. Quads which are concave or self-intersecting score
+ * 0, while those with very narrow angles, very mismatched opposite sides, or
+ * (if the frame size is given) which are tiny within the frame score lower.
+ * These are typical of spurious matches.
+ */
+export function scoreQuad(points: Point2D[], frame?: { width: number, height: number }): number {
+  if (points.length !== 4) {
+    return 0;
+  }
+
+  const edges = points.map((point, index) => {
+    const next = points[(index + 1) % 4];
+    return { x: next.x - point.x, y: next.y - point.y };
+  });
+  const sides = edges.map(({ x, y }) => Math.hypot(x, y));
+  const turns = edges.map((edge, index) => {
+    const next = edges[(index + 1) % 4];
+    return edge.x * next.y - edge.y * next.x;
+  });
+
+  // Every corner must turn the same way.
+  if (!turns.every((turn) => turn > 0) && !turns.every((turn) => turn < 0)) {
+    return 0;
+  }
+
+  const minSine = Math.min(...turns.map((turn, index) => Math.abs(turn) / (sides[index] * sides[(index + 1) % 4])));
+  const sideRatio = Math.min(
+      Math.min(sides[0], sides[2]) / Math.max(sides[0], sides[2]),
+      Math.min(sides[1], sides[3]) / Math.max(sides[1], sides[3]));
+
+  let score = clamp(minSine / Math.sin(MIN_PLAUSIBLE_ANGLE), 0, 1) *
+      clamp(sideRatio / MIN_PLAUSIBLE_SIDE_RATIO, 0, 1);
+
+  if (frame) {
+    // The shoelace formula.
+    const area = Math.abs(points.reduce((sum, point, index) => {
+      const next = points[(index + 1) % 4];
+      return sum + point.x * next.y - next.x * point.y;
+    }, 0)) / 2;
+    score *= clamp(area / (frame.width * frame.height) / MIN_PLAUSIBLE_AREA, 0, 1);
+  }
+
+  return score;
+}
@@ -0,0 +1,141 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { DetectedImage } from '../../defs/detected-image.js';
+import { TargetGeometry } from '../../defs/geometry.js';
+import { Marker } from '../../defs/marker.js';
+import {
+  boundingBoxOf,
+  FrameLayout,
+  frameToScreen,
+  scoreQuad,
+  screenToFrame,
+  translateGeometry,
+  withScreenGeometry
+} from './geometry.js';
+
+describe('Geometry', () => {
+  // A 200x100 frame, displayed at half size below a 10px header.
+  const layout: FrameLayout = {
+    displayRect: { x: 0, y: 10, width: 100, height: 100 },
+    flipped: false,
+    frameHeight: 100,
+    frameWidth: 200,
+  };
+
+  it('calculates bounding boxes', () => {
+    assert.deepEqual(boundingBoxOf([{ x: 5, y: 1 }, { x: 1, y: 8 }, { x: 3, y: 3 }]),
+        { x: 1, y: 1, width: 4, height: 7 });
+    assert.deepEqual(boundingBoxOf([]), { x: 0, y: 0, width: 0, height: 0 });
+  });
+
+  it('maps frame points to the screen', () => {
+    // Letterboxed: 50px tall, centered vertically.
+    assert.deepEqual(frameToScreen({ x: 0, y: 0 }, layout), { x: 0, y: 35 });
+    assert.deepEqual(frameToScreen({ x: 200, y: 100 }, layout), { x: 100, y: 85 });
+  });
+
+  it('maps flipped frame points to the screen', () => {
+    const flipped = { ...layout, flipped: true };
+    assert.deepEqual(frameToScreen({ x: 0, y: 0 }, flipped), { x: 100, y: 35 });
+    assert.deepEqual(frameToScreen({ x: 200, y: 100 }, flipped), { x: 0, y: 85 });
+  });
+
+  it('maps screen points to the frame', () => {
+    assert.deepEqual(screenToFrame({ x: 0, y: 35 }, layout), { x: 0, y: 0 });
+    assert.deepEqual(screenToFrame({ x: 100, y: 85 }, layout), { x: 200, y: 100 });
+
+    const flipped = { ...layout, flipped: true };
+    assert.deepEqual(screenToFrame({ x: 100, y: 35 }, flipped), { x: 0, y: 0 });
+    assert.deepEqual(screenToFrame(frameToScreen({ x: 30, y: 40 }, flipped), flipped), { x: 30, y: 40 });
+  });
+
+  it('translates targets', () => {
+    const marker: Marker = {
+      boundingBox: { x: 20, y: 20, width: 40, height: 20 },
+      cornerPoints: [{ x: 20, y: 20 }, { x: 60, y: 20 }, { x: 60, y: 40 }, { x: 20, y: 40 }],
+      type: 'qr_code',
+      value: 'foo',
+    };
+
+    const translated = translateGeometry(marker, { x: 10, y: -5 });
+    assert.equal(translated.value, 'foo');
+    assert.deepEqual(translated.boundingBox, { x: 30, y: 15, width: 40, height: 20 });
+    assert.deepEqual(translated.cornerPoints,
+        [{ x: 30, y: 15 }, { x: 70, y: 15 }, { x: 70, y: 35 }, { x: 30, y: 35 }]);
+    assert.deepEqual(marker.boundingBox, { x: 20, y: 20, width: 40, height: 20 });
+  });
+
+  it('adds screen geometry to targets', () => {
+    const marker: Marker = {
+      boundingBox: { x: 20, y: 20, width: 40, height: 20 },
+      cornerPoints: [{ x: 20, y: 20 }, { x: 60, y: 20 }, { x: 60, y: 40 }, { x: 20, y: 40 }],
+      type: 'qr_code',
+      value: 'foo',
+    };
+
+    const located = withScreenGeometry(marker, layout);
+    assert.equal(located.value, 'foo');
+    assert.deepEqual(located.screenBoundingBox, { x: 10, y: 45, width: 20, height: 10 });
+    assert.deepEqual(located.screenCornerPoints,
+        [{ x: 10, y: 45 }, { x: 30, y: 45 }, { x: 30, y: 55 }, { x: 10, y: 55 }]);
+    assert.isUndefined(marker.screenBoundingBox);
+  });
+
+  it('keeps flipped corner points clockwise', () => {
+    const target: TargetGeometry = {
+      boundingBox: { x: 20, y: 20, width: 40, height: 20 },
+      cornerPoints: [{ x: 20, y: 20 }, { x: 60, y: 20 }, { x: 60, y: 40 }, { x: 20, y: 40 }],
+    };
+    const located = withScreenGeometry(target, { ...layout, flipped: true });
+
+    assert.deepEqual(located.screenBoundingBox, { x: 70, y: 45, width: 20, height: 10 });
+    assert.deepEqual(located.screenCornerPoints,
+        [{ x: 70, y: 45 }, { x: 90, y: 45 }, { x: 90, y: 55 }, { x: 70, y: 55 }]);
+  });
+
+  it('ignores targets without geometry', () => {
+    const image: DetectedImage = { id: 'Lighthouse' };
+    assert.deepEqual(withScreenGeometry(image, layout), { id: 'Lighthouse' });
+  });
+
+  it('scores plausible quads', () => {
+    const square = [{ x: 10, y: 10 }, { x: 60, y: 10 }, { x: 60, y: 60 }, { x: 10, y: 60 }];
+    assert.equal(scoreQuad(square), 1);
+    assert.equal(scoreQuad([...square].reverse()), 1);
+    assert.equal(scoreQuad(square, { width: 100, height: 100 }), 1);
+
+    // A square seen in perspective is still plausible.
+    const perspective = [{ x: 20, y: 10 }, { x: 50, y: 10 }, { x: 60, y: 60 }, { x: 10, y: 60 }];
+    assert.isAbove(scoreQuad(perspective), 0.5);
+  });
+
+  it('scores implausible quads lower', () => {
+    const bowtie = [{ x: 10, y: 10 }, { x: 60, y: 60 }, { x: 60, y: 10 }, { x: 10, y: 60 }];
+    const concave = [{ x: 10, y: 10 }, { x: 60, y: 10 }, { x: 20, y: 20 }, { x: 10, y: 60 }];
+    const sliver = [{ x: 10, y: 10 }, { x: 60, y: 10 }, { x: 70, y: 13 }, { x: 20, y: 13 }];
+    const tiny = [{ x: 10, y: 10 }, { x: 15, y: 10 }, { x: 15, y: 15 }, { x: 10, y: 15 }];
+    assert.equal(scoreQuad(bowtie), 0);
+    assert.equal(scoreQuad(concave), 0);
+    assert.isBelow(scoreQuad(sliver), 0.5);
+    assert.equal(scoreQuad(tiny), 1);
+    assert.isBelow(scoreQuad(tiny, { width: 640, height: 480 }), 0.1);
+    assert.equal(scoreQuad([{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }]), 0);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Point2D } from '../../defs/geometry.js';
+
+/**
+ * A 3x3 projective transform, in row-major order.
+ */
+export type Homography = number[];
+
+/**
+ * Computes the homography which maps each of the four `from` points to the
+ * corresponding `to` point. Returns undefined if either set of points is
+ * degenerate (e.g. three of them are collinear).
+ */
+export function computeHomography(from: Point2D[], to: Point2D[]): Homography | undefined {
+  if (from.length !== 4 || to.length !== 4) {
+    return;
+  }
+
+  // Each pair of points gives two equations in the eight unknowns (h33 = 1).
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  const solution = solve(rows);
+  return solution && [...solution, 1];
+}
+
+/**
+ * Fits the homography which best maps the `from` points to the corresponding
+ * `to` points, in a least-squares sense. At least four pairs of points are
+ * required. Returns undefined if the points are degenerate.
+ */
+export function fitHomography(from: Point2D[], to: Point2D[]): Homography | undefined {
+  if (from.length < 4 || from.length !== to.length) {
+    return;
+  }
+
+  // Normalize both sets of points for numerical stability.
+  const fromNormalization = normalizationOf(from);
+  const toNormalization = normalizationOf(to);
+  const normalizedFrom = from.map((point) => applyHomography(fromNormalization, point));
+  const normalizedTo = to.map((point) => applyHomography(toNormalization, point));
+
+  // Solve the normal equations (AᵀA)h = Aᵀb.
+  const normal = new Array(8).fill(0).map(() => new Array(9).fill(0));
+  const addEquation = (coefficients: number[], value: number) => {
+    for (let i = 0; i < 8; i++) {
+      for (let j = 0; j < 8; j++) {
+        normal[i][j] += coefficients[i] * coefficients[j];
+      }
+      normal[i][8] += coefficients[i] * value;
+    }
+  };
+
+  for (let i = 0; i < normalizedFrom.length; i++) {
+    const { x, y } = normalizedFrom[i];
+    const { x: u, y: v } = normalizedTo[i];
+    addEquation([x, y, 1, 0, 0, 0, -u * x, -u * y], u);
+    addEquation([0, 0, 0, x, y, 1, -v * x, -v * y], v);
+  }
+
+  const solution = solve(normal);
+  if (!solution) {
+    return;
+  }
+
+  // Undo the normalization: H = T(to)⁻¹ · H' · T(from).
+  const h = multiply(multiply(invertNormalization(toNormalization), [...solution, 1]), fromNormalization);
+  return h.map((value) => value / h[8]);
+}
+
+/**
+ * Applies a homography to a point.
+ */
+export function applyHomography(h: Homography, { x, y }: Point2D): Point2D {
+  const w = h[6] * x + h[7] * y + h[8];
+  return {
+    x: (h[0] * x + h[1] * y + h[2]) / w,
+    y: (h[3] * x + h[4] * y + h[5]) / w,
+  };
+}
+
+/**
+ * Converts a homography to a CSS `matrix3d()` transform, which applies it to an
+ * element whose `transform-origin` is its top-left corner.
+ */
+export function toMatrix3d(h: Homography): string {
+  const values = [
+    h[0], h[3], 0, h[6],
+    h[1], h[4], 0, h[7],
+    0, 0, 1, 0,
+    h[2], h[5], 0, h[8],
+  ];
+  return `matrix3d(${values.map((value) => +value.toFixed(10)).join(', ')})`;
+}
+
+/*
+ * Returns the similarity transform which moves the centroid of the points to
+ * the origin, and scales them to an average distance of √2 from it.
+ */
+function normalizationOf(points: Point2D[]): Homography {
+  const cx = points.reduce((sum, { x }) => sum + x, 0) / points.length;
+  const cy = points.reduce((sum, { y }) => sum + y, 0) / points.length;
+  const meanDistance = points.reduce((sum, { x, y }) => sum + Math.hypot(x - cx, y - cy), 0) / points.length;
+  const scale = meanDistance > 0 ? Math.SQRT2 / meanDistance : 1;
+  return [scale, 0, -scale * cx, 0, scale, -scale * cy, 0, 0, 1];
+}
+
+function invertNormalization([scale, , tx, , , ty]: Homography): Homography {
+  return [1 / scale, 0, -tx / scale, 0, 1 / scale, -ty / scale, 0, 0, 1];
+}
+
+function multiply(a: Homography, b: Homography): Homography {
+  const ret = new Array(9).fill(0);
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      for (let k = 0; k < 3; k++) {
+        ret[row * 3 + col] += a[row * 3 + k] * b[k * 3 + col];
+      }
+    }
+  }
+  return ret;
+}
+
+/*
+ * Solves a system of linear equations, given as rows of an augmented matrix,
+ * using Gaussian elimination with partial pivoting.
+ */
+function solve(rows: number[][]): number[] | undefined {
+  const size = rows.length;
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) {
+        pivot = row;
+      }
+    }
+
+    if (Math.abs(rows[pivot][col]) < 1e-10) {
+      return;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let row = col + 1; row < size; row++) {
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k <= size; k++) {
+        rows[row][k] -= factor * rows[col][k];
+      }
+    }
+  }
+
+  const ret = new Array(size).fill(0);
+  for (let row = size - 1; row >= 0; row--) {
+    let sum = rows[row][size];
+    for (let k = row + 1; k < size; k++) {
+      sum -= rows[row][k] * ret[k];
+    }
+    ret[row] = sum / rows[row][row];
+  }
+  return ret;
+}
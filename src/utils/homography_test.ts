@@ -0,0 +1,68 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { applyHomography, computeHomography, fitHomography, toMatrix3d } from './homography.js';
+
+describe('Homography', () => {
+  const square = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+
+  it('maps points between quads', () => {
+    const quad = [{ x: 10, y: 20 }, { x: 150, y: 40 }, { x: 130, y: 170 }, { x: 5, y: 120 }];
+    const h = computeHomography(square, quad)!;
+    assert.isDefined(h);
+
+    for (let i = 0; i < 4; i++) {
+      const { x, y } = applyHomography(h, square[i]);
+      assert.approximately(x, quad[i].x, 1e-6);
+      assert.approximately(y, quad[i].y, 1e-6);
+    }
+  });
+
+  it('computes the identity', () => {
+    const h = computeHomography(square, square)!;
+    const identity = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+    h.forEach((value, index) => assert.approximately(value, identity[index], 1e-9));
+  });
+
+  it('rejects degenerate quads', () => {
+    const line = [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }, { x: 3, y: 3 }];
+    assert.isUndefined(computeHomography(square, line));
+    assert.isUndefined(computeHomography(square, square.slice(1)));
+  });
+
+  it('converts to CSS transforms', () => {
+    const translate = computeHomography(square, square.map(({ x, y }) => ({ x: x + 10, y: y + 20 })))!;
+    assert.equal(toMatrix3d(translate), 'matrix3d(1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 10, 20, 0, 1)');
+  });
+
+  it('fits homographies to many points', () => {
+    const quad = [{ x: 10, y: 20 }, { x: 150, y: 40 }, { x: 130, y: 170 }, { x: 5, y: 120 }];
+    const h = computeHomography(square, quad)!;
+    const from = [];
+    for (let x = 0; x <= 100; x += 25) {
+      for (let y = 0; y <= 100; y += 25) {
+        from.push({ x, y });
+      }
+    }
+
+    const fitted = fitHomography(from, from.map((point) => applyHomography(h, point)))!;
+    fitted.forEach((value, index) => assert.approximately(value, h[index], 1e-6));
+    assert.isUndefined(fitHomography(square.slice(1), quad.slice(1)));
+  });
+});
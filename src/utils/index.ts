@@ -15,6 +15,7 @@
  * limitations under the License.
  */
 
+export * from './camera.js';
 export * from './clamp.js';
 export * from './double-raf.js';
 export * from './environment-camera.js';
@@ -23,4 +24,5 @@ export * from './fire.js';
 export * from './geolocation-async.js';
 export * from './inject-script.js';
 export * from './logger.js';
+export * from './pose.js';
 export * from './resize-image.js';
@@ -17,9 +17,9 @@
 
 /**
  * Convenience function used internally for detecting `ImageData` vs
- * `HTMLImageElement`.
+ * `HTMLImageElement` or `ImageBitmap`.
  */
-export function isImageData(imgData: ImageData | HTMLImageElement | HTMLCanvasElement):
+export function isImageData(imgData: ImageData | HTMLImageElement | HTMLCanvasElement | ImageBitmap):
     imgData is ImageData {
   return typeof (imgData as ImageData).data !== 'undefined';
 }
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { PhysicalSize } from '../../defs/geometry.js';
+import { ARImageTarget } from '../artifacts/schema/extension-ar-artifacts.js';
+import { toMeters } from './distance.js';
+
+/**
+ * Returns the physical size of an image target, in meters, or undefined if it
+ * does not have a valid width and height.
+ */
+export function parsePhysicalSize({ width, height }: ARImageTarget): PhysicalSize | undefined {
+  const widthInMeters = toMeters(width);
+  const heightInMeters = toMeters(height);
+  if (!widthInMeters || !heightInMeters || widthInMeters < 0 || heightInMeters < 0) {
+    return;
+  }
+
+  return { width: widthInMeters, height: heightInMeters };
+}
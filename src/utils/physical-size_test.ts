@@ -0,0 +1,32 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { parsePhysicalSize } from './physical-size.js';
+
+describe('PhysicalSize', () => {
+  it('parses sizes in meters', () => {
+    assert.deepEqual(parsePhysicalSize({ height: '21 cm', width: 0.297 }), { width: 0.297, height: 0.21 });
+  });
+
+  it('ignores incomplete or invalid sizes', () => {
+    assert.isUndefined(parsePhysicalSize({ width: '20 cm' }));
+    assert.isUndefined(parsePhysicalSize({ height: 'tall', width: 1 }));
+    assert.isUndefined(parsePhysicalSize({ height: -1, width: 1 }));
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CameraIntrinsics, PhysicalSize, Point2D, Point3D, Pose } from '../../defs/geometry.js';
+import { computeHomography } from './homography.js';
+
+// A typical horizontal field of view, in degrees, for phone cameras.
+const DEFAULT_FIELD_OF_VIEW = 60;
+
+function length({ x, y, z }: Point3D) {
+  return Math.sqrt(x * x + y * y + z * z);
+}
+
+function scale({ x, y, z }: Point3D, factor: number) {
+  return { x: x * factor, y: y * factor, z: z * factor };
+}
+
+function normalize(point: Point3D) {
+  return scale(point, 1 / length(point));
+}
+
+function subtract(a: Point3D, b: Point3D) {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function dot(a: Point3D, b: Point3D) {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function cross(a: Point3D, b: Point3D) {
+  return { x: a.y * b.z - a.z * b.y, y: a.z * b.x - a.x * b.z, z: a.x * b.y - a.y * b.x };
+}
+
+/**
+ * Estimates the intrinsics of a camera from the size of its frames and its
+ * horizontal field of view, in degrees, assuming square pixels and a centered
+ * principal point.
+ */
+export function estimateIntrinsics(frameWidth: number, frameHeight: number,
+                                   fieldOfView = DEFAULT_FIELD_OF_VIEW): CameraIntrinsics {
+  return {
+    focalLength: frameWidth / 2 / Math.tan(fieldOfView * Math.PI / 360),
+    principalPoint: { x: frameWidth / 2, y: frameHeight / 2 },
+  };
+}
+
+/**
+ * Scales camera intrinsics to frames which were resized by `scale`, such as
+ * frames captured at a `captureScale` other than 1.
+ */
+export function scaleIntrinsics({ focalLength, principalPoint }: CameraIntrinsics,
+                                scale: number): CameraIntrinsics {
+  return {
+    focalLength: focalLength * scale,
+    principalPoint: { x: principalPoint.x * scale, y: principalPoint.y * scale },
+  };
+}
+
+/**
+ * Estimates the pose of a planar target from its corner points in a frame,
+ * running clockwise from the top-left, and its physical size. Returns
+ * undefined if the corner points are degenerate.
+ */
+export function estimatePose(cornerPoints: Point2D[], { width, height }: PhysicalSize,
+                             { focalLength, principalPoint }: CameraIntrinsics): Pose | undefined {
+  const targetPoints = [
+    { x: -width / 2, y: -height / 2 },
+    { x: width / 2, y: -height / 2 },
+    { x: width / 2, y: height / 2 },
+    { x: -width / 2, y: height / 2 },
+  ];
+
+  const h = computeHomography(targetPoints, cornerPoints);
+  if (!h || focalLength <= 0) {
+    return;
+  }
+
+  // Remove the camera intrinsics, leaving the homography as [r1 r2 t] up to
+  // an unknown scale.
+  const column = (index: number) => ({
+    x: (h[index] - principalPoint.x * h[6 + index]) / focalLength,
+    y: (h[3 + index] - principalPoint.y * h[6 + index]) / focalLength,
+    z: h[6 + index],
+  });
+  const [m1, m2, m3] = [column(0), column(1), column(2)];
+
+  // The scale makes r1 and r2 unit length, and places the target in front of
+  // the camera.
+  let lambda = 2 / (length(m1) + length(m2));
+  if (m3.z * lambda < 0) {
+    lambda = -lambda;
+  }
+
+  // Re-orthogonalize the rotation, as measurement noise means the columns
+  // are not quite perpendicular.
+  const r1 = normalize(scale(m1, lambda));
+  const r2Scaled = scale(m2, lambda);
+  const r2 = normalize(subtract(r2Scaled, scale(r1, dot(r1, r2Scaled))));
+  const r3 = cross(r1, r2);
+  const translation = scale(m3, lambda);
+  if (!Number.isFinite(length(translation)) || !Number.isFinite(length(r2))) {
+    return;
+  }
+
+  return {
+    distance: length(translation),
+    rotation: [
+      r1.x, r2.x, r3.x,
+      r1.y, r2.y, r3.y,
+      r1.z, r2.z, r3.z,
+    ],
+    translation,
+  };
+}
+
+/**
+ * Converts a pose to a column-major 4x4 model-view matrix using WebGL
+ * conventions, as used by three.js and similar libraries: the camera looks
+ * along -z with +y up, and the content's +y runs up the target with +z
+ * pointing out of it, towards the viewer.
+ */
+export function toModelViewMatrix({ rotation: r, translation: t }: Pose): number[] {
+  // Flip the y and z axes of both the camera and the target.
+  return [
+    r[0], -r[3], -r[6], 0,
+    -r[1], r[4], r[7], 0,
+    -r[2], r[5], r[8], 0,
+    t.x, -t.y, -t.z, 1,
+  ];
+}
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { Point3D, Pose } from '../../defs/geometry.js';
+import { estimateIntrinsics, estimatePose, scaleIntrinsics, toModelViewMatrix } from './pose.js';
+
+const intrinsics = { focalLength: 500, principalPoint: { x: 320, y: 240 } };
+const size = { width: 0.4, height: 0.3 };
+
+// Rotates by 20° around y, then 10° around x.
+const a = 20 * Math.PI / 180;
+const b = 10 * Math.PI / 180;
+const rotation = [
+  Math.cos(a), 0, Math.sin(a),
+  Math.sin(b) * Math.sin(a), Math.cos(b), -Math.sin(b) * Math.cos(a),
+  -Math.cos(b) * Math.sin(a), Math.sin(b), Math.cos(b) * Math.cos(a),
+];
+const translation = { x: 0.1, y: -0.05, z: 1.5 };
+
+function project({ x, y }: { x: number, y: number }) {
+  const point: Point3D = {
+    x: rotation[0] * x + rotation[1] * y + translation.x,
+    y: rotation[3] * x + rotation[4] * y + translation.y,
+    z: rotation[6] * x + rotation[7] * y + translation.z,
+  };
+  return {
+    x: intrinsics.focalLength * point.x / point.z + intrinsics.principalPoint.x,
+    y: intrinsics.focalLength * point.y / point.z + intrinsics.principalPoint.y,
+  };
+}
+
+const cornerPoints = [
+  project({ x: -0.2, y: -0.15 }),
+  project({ x: 0.2, y: -0.15 }),
+  project({ x: 0.2, y: 0.15 }),
+  project({ x: -0.2, y: 0.15 }),
+];
+
+describe('Pose', () => {
+  it('estimates intrinsics', () => {
+    const { focalLength, principalPoint } = estimateIntrinsics(640, 480, 90);
+    assert.approximately(focalLength, 320, 1e-9);
+    assert.deepEqual(principalPoint, { x: 320, y: 240 });
+    assert.isAbove(estimateIntrinsics(640, 480).focalLength, 320);
+  });
+
+  it('scales intrinsics with the frame', () => {
+    assert.deepEqual(scaleIntrinsics(intrinsics, 0.5), { focalLength: 250, principalPoint: { x: 160, y: 120 } });
+  });
+
+  it('estimates poses at any capture scale', () => {
+    const scaled = cornerPoints.map(({ x, y }) => ({ x: x / 2, y: y / 2 }));
+    const pose = estimatePose(scaled, size, scaleIntrinsics(intrinsics, 0.5))!;
+    assert.approximately(pose.translation.z, translation.z, 1e-6);
+  });
+
+  it('estimates poses', () => {
+    const pose = estimatePose(cornerPoints, size, intrinsics)!;
+    pose.rotation.forEach((value, index) => assert.approximately(value, rotation[index], 1e-6));
+    assert.approximately(pose.translation.x, translation.x, 1e-6);
+    assert.approximately(pose.translation.y, translation.y, 1e-6);
+    assert.approximately(pose.translation.z, translation.z, 1e-6);
+    assert.approximately(pose.distance, Math.hypot(0.1, -0.05, 1.5), 1e-6);
+  });
+
+  it('scales distances with the size of the target', () => {
+    const pose = estimatePose(cornerPoints, { width: 0.8, height: 0.6 }, intrinsics)!;
+    assert.approximately(pose.translation.z, translation.z * 2, 1e-6);
+  });
+
+  it('ignores degenerate corners', () => {
+    const collinear = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 20, y: 0 }, { x: 30, y: 0 }];
+    assert.isUndefined(estimatePose(collinear, size, intrinsics));
+  });
+
+  it('converts poses to model-view matrices', () => {
+    const pose: Pose = { distance: 2, rotation: [1, 0, 0, 0, 1, 0, 0, 0, 1], translation: { x: 1, y: 2, z: 2 } };
+    assert.deepEqual(toModelViewMatrix(pose).map((value) => value + 0), [
+      1, 0, 0, 0,
+      0, 1, 0, 0,
+      0, 0, 1, 0,
+      1, -2, -2, 1,
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DetectionFrame } from '../../defs/frame.js';
+
+let canvas: HTMLCanvasElement | undefined;
+let ctx: CanvasRenderingContext2D | null;
+
+/**
+ * Reads the pixels of a frame, for detectors which need them on the main
+ * thread. `ImageData` is returned as-is, while `ImageBitmap`s and
+ * `VideoFrame`s are drawn to a canvas. The frame is not closed.
+ */
+export function readImageData(frame: DetectionFrame): ImageData {
+  if ('data' in frame) {
+    return frame;
+  }
+
+  const width = 'displayWidth' in frame ? frame.displayWidth : frame.width;
+  const height = 'displayHeight' in frame ? frame.displayHeight : frame.height;
+  if (!canvas) {
+    canvas = document.createElement('canvas');
+    ctx = canvas.getContext('2d');
+  }
+
+  /* istanbul ignore if */
+  if (!ctx) {
+    throw new Error('Unable to create canvas context');
+  }
+
+  canvas.width = width;
+  canvas.height = height;
+  ctx.drawImage(frame as ImageBitmap, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+}
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * Copyright 2019 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const { assert } = chai;
+
+import { readImageData } from './read-image-data.js';
+
+describe('readImageData', () => {
+  it('returns ImageData as-is', () => {
+    const imageData = new ImageData(2, 2);
+    assert.strictEqual(readImageData(imageData), imageData);
+  });
+
+  it('reads the pixels of ImageBitmaps', async () => {
+    const imageData = new ImageData(4, 2);
+    imageData.data.fill(255);
+
+    const bitmap = await createImageBitmap(imageData);
+    const pixels = readImageData(bitmap);
+    assert.equal(pixels.width, 4);
+    assert.equal(pixels.height, 2);
+    assert.equal(pixels.data[0], 255);
+    bitmap.close();
+  });
+});